@@ -9,11 +9,24 @@ import {
   isImportEvent,
   formatError,
   getVersion,
+  parseDateOption,
 } from "./utils/index.js";
-import { searchCommand } from "./commands/search.js";
+import { searchCommand, searchEpisodesCommand } from "./commands/search.js";
 import { batchCommand } from "./commands/batch.js";
 import { importCommand } from "./commands/import.js";
 import { healthCommand } from "./commands/health.js";
+import { statsCommand } from "./commands/stats.js";
+import { exportCommand } from "./commands/export.js";
+import {
+  reviewCommand,
+  REVIEW_ACTIONS,
+  type ReviewAction,
+} from "./commands/review.js";
+import { EXPORT_FORMATS, type ExportFormat } from "./services/index.js";
+import {
+  VERIFICATION_STATUSES,
+  type VerificationStatus,
+} from "./types/index.js";
 
 const { values, positionals } = parseArgs({
   args: process.argv.slice(2),
@@ -40,6 +53,65 @@ const { values, positionals } = parseArgs({
       short: "l",
       description: "Limit number of movies to process (batch mode)",
     },
+    instance: {
+      type: "string",
+      short: "i",
+      description:
+        "Radarr/Sonarr instance name (batch, search, health, stats, export, review)",
+    },
+    tvdb: {
+      type: "string",
+      description: "TVDB ID of the series to search (search command)",
+    },
+    season: {
+      type: "string",
+      description: "Season number to search (search command, with --tvdb)",
+    },
+    episode: {
+      type: "string",
+      description: "Episode number to search (search command, with --tvdb)",
+    },
+    since: {
+      type: "string",
+      description:
+        "Only include verifications since a date or duration (stats, export)",
+    },
+    until: {
+      type: "string",
+      description: "Only include verifications before a date (export)",
+    },
+    format: {
+      type: "string",
+      default: "csv",
+      description: "Export format: csv, json or ndjson (export)",
+    },
+    output: {
+      type: "string",
+      short: "o",
+      description: "Output file, stdout when omitted (export)",
+    },
+    status: {
+      type: "string",
+      description: "Only include ok or mismatch verifications (export)",
+    },
+    indexer: {
+      type: "string",
+      description: "Only include verifications from an indexer (export)",
+    },
+    action: {
+      type: "string",
+      description: "Action applied without prompting (review, with --ids)",
+    },
+    ids: {
+      type: "string",
+      description: "Comma-separated Radarr movie IDs (review)",
+    },
+    sonarr: {
+      type: "boolean",
+      default: false,
+      description:
+        "Process Sonarr series instead of Radarr movies (batch mode)",
+    },
     help: {
       type: "boolean",
       short: "h",
@@ -71,16 +143,38 @@ Commands:
   (no command)         Auto-detect mode from Radarr/Sonarr environment variables
   batch                Process all movies without success tag (dual queue system)
   search <tmdb-id>     Search for a specific movie by TMDB ID and monitor quality
+  search --tvdb <id> --season <n> [--episode <n>]
+                       Search for an episode (or a whole season) in Sonarr
   health               Check connectivity and display configuration summary
+  stats                Indexer reliability report from the verification history
+  export               Export the verification history (CSV, JSON, NDJSON)
+  review               Review movies tagged with the mismatch or downgrade tag
 
 Options:
   -c, --config <path>  Path to config file (default: ./config.yaml)
   -v, --verbose        Enable verbose logging
   -n, --dry-run        Dry run mode (no searches, no tags, only logs)
   -l, --limit <n>      Limit number of movies to process (batch mode)
+      --sonarr         Process Sonarr episodes instead of movies (batch mode)
+  -i, --instance <name>
+                       Instance to use when several are configured
+                       (batch: every instance when omitted)
+      --tvdb <id>      TVDB ID of the series to search (search command)
+      --season <n>     Season number to search (search command)
+      --episode <n>    Episode number to search (search command)
   -h, --help           Show this help message
       --version        Show version
       --notify         Send test notification (health command)
+      --since <when>   Only include verifications since a date (2024-01-31)
+                       or a duration (30d, 2w) (stats, export)
+      --until <when>   Only include verifications before a date (export)
+      --format <fmt>   Export format: csv (default), json or ndjson (export)
+  -o, --output <file>  Export to a file instead of stdout (export)
+      --status <s>     Only export ok or mismatch verifications (export)
+      --indexer <name> Only export verifications from an indexer (export)
+      --action <a>     Review action without prompting: skip, mark-ok,
+                       re-search or blocklist-and-re-search (review)
+      --ids <ids>      Comma-separated Radarr movie IDs (review)
 
 Examples:
   # As Radarr/Sonarr Custom Script (auto-detect mode):
@@ -92,9 +186,25 @@ Examples:
   # Dry run batch mode (see what would happen):
   qualitarr batch --dry-run
 
+  # Batch mode over Sonarr episodes (or seasons, see batch.sonarr):
+  qualitarr batch --sonarr
+
   # Manual search for a specific movie (use TMDB ID from Radarr URL):
   qualitarr search 550
 
+  # Manual search for an episode, or a whole season without --episode:
+  qualitarr search --tvdb 81189 --season 2 --episode 5
+
+  # Indexer reliability over the last 30 days:
+  qualitarr stats --since 30d
+
+  # Export last month's mismatches as CSV:
+  qualitarr export --since 30d --status mismatch --output mismatches.csv
+
+  # Review mismatched movies one by one, or swap tags of two movies:
+  qualitarr review
+  qualitarr review --action mark-ok --ids 12,34
+
 Configuration:
   Copy config.example.yaml to config.yaml and edit with your settings.
 
@@ -109,6 +219,25 @@ function showVersion(): void {
   console.log(`qualitarr v${getVersion()}`);
 }
 
+/**
+ * Parse a whole number option (e.g. --season), exiting with a usage error
+ * when it is not one
+ */
+function parseIntegerOption(
+  value: string,
+  option: string,
+  min: number
+): number {
+  const number = Number(value.trim());
+  if (!/^\d+$/.test(value.trim()) || number < min) {
+    logger.error(
+      `${option} must be a whole number${min > 0 ? ` of at least ${min}` : ""}, got "${value}"`
+    );
+    process.exit(1);
+  }
+  return number;
+}
+
 async function main(): Promise<void> {
   if (values.help) {
     showHelp();
@@ -149,12 +278,7 @@ async function main(): Promise<void> {
       try {
         const config = await loadConfig(values.config);
 
-        if (envVars.type === "radarr") {
-          await importCommand(config, envVars);
-        } else {
-          logger.error("Sonarr support is not yet implemented");
-          process.exit(1);
-        }
+        await importCommand(config, envVars);
 
         process.exit(0);
       } catch (error) {
@@ -176,23 +300,108 @@ async function main(): Promise<void> {
         const limit = values.limit ? parseInt(values.limit, 10) : undefined;
         await batchCommand(config, {
           dryRun,
+          target: values.sonarr ? "sonarr" : "radarr",
+          instance: values.instance,
           ...(limit !== undefined && { limit }),
         });
         break;
       }
 
       case "search": {
+        if (values.tvdb) {
+          if (!values.season) {
+            logger.error("--season is required with --tvdb");
+            process.exit(1);
+          }
+          await searchEpisodesCommand(
+            config,
+            {
+              tvdbId: parseIntegerOption(values.tvdb, "--tvdb", 1),
+              seasonNumber: parseIntegerOption(values.season, "--season", 0),
+              episodeNumber: values.episode
+                ? parseIntegerOption(values.episode, "--episode", 1)
+                : undefined,
+            },
+            { dryRun, instance: values.instance }
+          );
+          break;
+        }
+
         const tmdbId = positionals[1];
         if (!tmdbId) {
-          logger.error("TMDB ID is required for search command");
+          logger.error("TMDB ID or --tvdb is required for search command");
           process.exit(1);
         }
-        await searchCommand(config, parseInt(tmdbId, 10), { dryRun });
+        await searchCommand(config, parseInt(tmdbId, 10), {
+          dryRun,
+          instance: values.instance,
+        });
         break;
       }
 
       case "health": {
-        await healthCommand(config, { notify: values.notify });
+        await healthCommand(config, {
+          notify: values.notify,
+          instance: values.instance,
+        });
+        break;
+      }
+
+      case "stats": {
+        await statsCommand(config, {
+          since: values.since
+            ? parseDateOption(values.since, "--since")
+            : undefined,
+          instance: values.instance,
+        });
+        break;
+      }
+
+      case "export": {
+        const format = values.format as ExportFormat;
+        if (!EXPORT_FORMATS.includes(format)) {
+          logger.error(`--format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+          process.exit(1);
+        }
+        const status = values.status as VerificationStatus | undefined;
+        if (status !== undefined && !VERIFICATION_STATUSES.includes(status)) {
+          logger.error(
+            `--status must be one of: ${VERIFICATION_STATUSES.join(", ")}`
+          );
+          process.exit(1);
+        }
+        await exportCommand(config, {
+          format,
+          output: values.output,
+          since: values.since
+            ? parseDateOption(values.since, "--since")
+            : undefined,
+          until: values.until
+            ? parseDateOption(values.until, "--until")
+            : undefined,
+          instance: values.instance,
+          indexer: values.indexer,
+          status,
+        });
+        break;
+      }
+
+      case "review": {
+        const action = values.action as ReviewAction | undefined;
+        if (action !== undefined && !REVIEW_ACTIONS.includes(action)) {
+          logger.error(`--action must be one of: ${REVIEW_ACTIONS.join(", ")}`);
+          process.exit(1);
+        }
+        const ids = values.ids
+          ?.split(",")
+          .map((id) => parseInt(id.trim(), 10))
+          .filter((id) => !Number.isNaN(id));
+        await reviewCommand(config, {
+          action,
+          ids,
+          instance: values.instance,
+          dryRun,
+        });
         break;
       }
 
@@ -1,43 +1,93 @@
 import type { Config } from "../types/index.js";
 import { QueueManager } from "../services/queue.js";
-import { logger } from "../utils/index.js";
+import { openHistoryStore } from "../services/history-store.js";
+import type { BatchTarget } from "../services/queue.js";
+import { logger, listInstances } from "../utils/index.js";
 
 export interface BatchOptions {
   dryRun?: boolean;
   limit?: number;
+  target?: BatchTarget;
+  /** Instance name; every configured instance is processed in turn when omitted */
+  instance?: string | undefined;
 }
 
 export async function batchCommand(
   config: Config,
   options: BatchOptions = {}
 ): Promise<void> {
-  const { dryRun = false, limit } = options;
+  const { target = "radarr" } = options;
 
   logger.info("Starting batch mode...");
 
-  const queueManager = new QueueManager(config, { dryRun });
+  const instanceNames =
+    options.instance !== undefined
+      ? [options.instance]
+      : listInstances(target === "sonarr" ? config.sonarr : config.radarr).map(
+          (i) => i.name
+        );
+
+  // No instance configured: let QueueManager report the missing config
+  if (instanceNames.length === 0) {
+    instanceNames.push(undefined);
+  }
+
+  const abortController = new AbortController();
+  let activeQueue: QueueManager | null = null;
 
   // Setup graceful shutdown handlers
   const shutdownHandler = () => {
-    queueManager.shutdown();
+    abortController.abort();
+    activeQueue?.shutdown();
   };
   process.on("SIGTERM", shutdownHandler);
   process.on("SIGINT", shutdownHandler);
 
+  // Dry runs change nothing, so they are not recorded
+  const history = options.dryRun ? null : await openHistoryStore(config);
+
   try {
-    const count = await queueManager.loadMoviesWithoutTag(limit);
+    for (const instance of instanceNames) {
+      if (abortController.signal.aborted) break;
 
-    if (count === 0) {
-      logger.info("No movies to process");
-      return;
-    }
+      if (instance !== undefined) {
+        logger.info(`Processing instance: ${instance}`);
+      }
 
-    await queueManager.run();
+      activeQueue = new QueueManager(config, {
+        dryRun: options.dryRun ?? false,
+        target,
+        instance,
+        history: history ?? undefined,
+      });
+      await runQueue(activeQueue, target, options.limit);
+    }
 
     logger.info("Batch mode completed");
   } finally {
+    history?.close();
     // Cleanup signal handlers
     process.off("SIGTERM", shutdownHandler);
     process.off("SIGINT", shutdownHandler);
   }
 }
+
+async function runQueue(
+  queueManager: QueueManager,
+  target: BatchTarget,
+  limit: number | undefined
+): Promise<void> {
+  const count =
+    target === "sonarr"
+      ? await queueManager.loadEpisodesWithoutTag(limit)
+      : await queueManager.loadMoviesWithoutTag(limit);
+
+  if (count === 0) {
+    logger.info(
+      target === "sonarr" ? "No episodes to process" : "No movies to process"
+    );
+    return;
+  }
+
+  await queueManager.run();
+}
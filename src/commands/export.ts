@@ -0,0 +1,56 @@
+import { writeFile } from "node:fs/promises";
+import type {
+  Config,
+  VerificationFilter,
+  VerificationRecord,
+} from "../types/index.js";
+import {
+  openHistoryStore,
+  serializeVerifications,
+  type ExportFormat,
+} from "../services/index.js";
+import { logger } from "../utils/index.js";
+
+export interface ExportOptions extends VerificationFilter {
+  format: ExportFormat;
+  /** Output file; verifications are written to stdout when omitted */
+  output?: string | undefined;
+}
+
+export async function exportCommand(
+  config: Config,
+  options: ExportOptions
+): Promise<void> {
+  const history = await openHistoryStore(config);
+  if (!history) {
+    throw new Error(
+      "Verification history is not available (check history.enabled and history.path)"
+    );
+  }
+
+  let records: VerificationRecord[];
+  try {
+    records = history.list({
+      since: options.since,
+      until: options.until,
+      instance: options.instance,
+      indexer: options.indexer,
+      status: options.status,
+    });
+  } finally {
+    history.close();
+  }
+
+  const content = serializeVerifications(records, options.format);
+
+  // Logs go to stdout as well, so only log when writing to a file
+  if (options.output === undefined) {
+    process.stdout.write(content);
+    return;
+  }
+
+  await writeFile(options.output, content, "utf-8");
+  logger.info(
+    `Exported ${records.length} verification(s) to ${options.output} (${options.format})`
+  );
+}
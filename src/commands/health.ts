@@ -1,9 +1,23 @@
-import type { Config } from "../types/index.js";
-import { RadarrService, DiscordService } from "../services/index.js";
-import { logger, getVersion, formatError } from "../utils/index.js";
+import type { Config, ToleranceOverride } from "../types/index.js";
+import {
+  RadarrService,
+  SonarrService,
+  createNotificationChannels,
+  describeOverride,
+  describeTier,
+} from "../services/index.js";
+import {
+  logger,
+  getVersion,
+  formatError,
+  formatInstanceLabel,
+  listInstances,
+} from "../utils/index.js";
 
 export interface HealthOptions {
   notify?: boolean;
+  /** Only check the instance with this name */
+  instance?: string | undefined;
 }
 
 export async function healthCommand(
@@ -15,33 +29,69 @@ export async function healthCommand(
   logger.info("---");
 
   // Radarr connectivity
-  if (config.radarr) {
-    logger.info("[Radarr] Testing connection...");
+  const radarrInstances = filterInstances(
+    listInstances(config.radarr),
+    options.instance
+  );
+  if (radarrInstances.length > 0) {
+    for (const instance of radarrInstances) {
+      const label = formatInstanceLabel("Radarr", instance);
+      logger.info(`[${label}] Testing connection...`);
+      try {
+        const radarr = new RadarrService(instance);
+        const status = await radarr.getSystemStatus();
+        logger.info(`[${label}] Connected - Radarr v${status.version}`);
+
+        const movies = await radarr.getMovies();
+        logger.info(`[${label}] Movie count: ${movies.length}`);
+      } catch (error) {
+        logger.error(`[${label}] Connection failed: ${formatError(error)}`);
+      }
+    }
+  } else if (!config.radarr) {
+    logger.warn("[Radarr] Not configured");
+  }
+
+  // Sonarr connectivity
+  const sonarrInstances = filterInstances(
+    listInstances(config.sonarr),
+    options.instance
+  );
+  for (const instance of sonarrInstances) {
+    const label = formatInstanceLabel("Sonarr", instance);
+    logger.info(`[${label}] Testing connection...`);
     try {
-      const radarr = new RadarrService(config.radarr);
-      const status = await radarr.getSystemStatus();
-      logger.info(`[Radarr] Connected - Radarr v${status.version}`);
+      const sonarr = new SonarrService(instance);
+      const status = await sonarr.getSystemStatus();
+      logger.info(`[${label}] Connected - Sonarr v${status.version}`);
 
-      const movies = await radarr.getMovies();
-      logger.info(`[Radarr] Movie count: ${movies.length}`);
+      const series = await sonarr.getSeries();
+      logger.info(`[${label}] Series count: ${series.length}`);
     } catch (error) {
-      logger.error(`[Radarr] Connection failed: ${formatError(error)}`);
+      logger.error(`[${label}] Connection failed: ${formatError(error)}`);
     }
-  } else {
-    logger.warn("[Radarr] Not configured");
   }
 
-  // Discord webhook
+  if (
+    options.instance !== undefined &&
+    radarrInstances.length + sonarrInstances.length === 0
+  ) {
+    logger.warn(`No instance named "${options.instance}" is configured`);
+  }
+
+  // Notification channels, each tested on its own
   logger.info("---");
-  if (config.discord.enabled && config.discord.webhookUrl) {
-    const masked = maskWebhookUrl(config.discord.webhookUrl);
-    logger.info(`[Discord] Enabled - Webhook: ${masked}`);
+  const channels = createNotificationChannels(config);
+  if (channels.length === 0) {
+    logger.info("[Notifications] Disabled");
+  }
+  for (const channel of channels) {
+    logger.info(`[${channel.name}] Enabled - ${channel.target}`);
 
     if (options.notify) {
-      logger.info("[Discord] Sending test notification...");
+      logger.info(`[${channel.name}] Sending test notification...`);
       try {
-        const discord = new DiscordService(config.discord);
-        await discord.sendScoreMismatch({
+        await channel.service.sendScoreMismatch({
           title: "Health Check Test",
           expectedScore: 100,
           actualScore: 50,
@@ -50,28 +100,46 @@ export async function healthCommand(
           quality: "Bluray-1080p",
           indexer: "Test Indexer",
         });
-        logger.info("[Discord] Test notification sent successfully");
+        logger.info(`[${channel.name}] Test notification sent successfully`);
       } catch (error) {
         logger.error(
-          `[Discord] Failed to send test notification: ${formatError(error)}`
+          `[${channel.name}] Failed to send test notification: ${formatError(error)}`
         );
       }
     }
-  } else {
-    logger.info("[Discord] Disabled");
   }
 
   // Configuration summary
   logger.info("---");
   logger.info("[Config] Quality thresholds:");
+  logger.info(`  Mode: ${config.quality.mode}`);
   logger.info(`  Max over score: ${config.quality.maxOverScore}`);
   logger.info(`  Max under score: ${config.quality.maxUnderScore}`);
+  if (config.quality.mode === "percentage") {
+    logger.info(`  Max over percent: ${config.quality.maxOverPercent}%`);
+    logger.info(`  Max under percent: ${config.quality.maxUnderPercent}%`);
+  }
+  if (config.quality.mode === "tiered") {
+    for (const tier of config.quality.tiers) {
+      logger.info(`  ${describeTier(tier)}`);
+    }
+  }
+  for (const override of config.quality.overrides) {
+    logger.info(`  Override ${formatOverride(override)}`);
+  }
+
+  logger.info("[Config] Severity bands:");
+  logger.info(`  Major: difference >= ${config.severity.majorDifference}`);
+  logger.info(
+    `  Critical: difference >= ${config.severity.criticalDifference}`
+  );
 
   logger.info("[Config] Tags:");
   logger.info(`  Enabled: ${config.tag.enabled}`);
   if (config.tag.enabled) {
     logger.info(`  Success tag: ${config.tag.successTag}`);
     logger.info(`  Mismatch tag: ${config.tag.mismatchTag}`);
+    logger.info(`  Downgrade tag: ${config.tag.downgradeTag}`);
   }
 
   logger.info("[Config] Batch settings:");
@@ -82,20 +150,19 @@ export async function healthCommand(
   logger.info(`  Download timeout: ${config.batch.downloadTimeoutMinutes}min`);
 }
 
-function maskWebhookUrl(url: string): string {
-  try {
-    const parsed = new URL(url);
-    const parts = parsed.pathname.split("/");
-    // Discord webhook format: /api/webhooks/{id}/{token}
-    const token = parts[parts.length - 1];
-    if (token && token.length > 8) {
-      const masked = token.slice(0, 4) + "..." + token.slice(-4);
-      parts[parts.length - 1] = masked;
-      parsed.pathname = parts.join("/");
-      return parsed.toString();
-    }
-    return url;
-  } catch {
-    return "***";
+function filterInstances<T extends { name?: string | undefined }>(
+  instances: T[],
+  name: string | undefined
+): T[] {
+  if (name === undefined) {
+    return instances;
   }
+  return instances.filter((i) => i.name?.toLowerCase() === name.toLowerCase());
+}
+
+function formatOverride(override: ToleranceOverride): string {
+  const entries = Object.entries(override)
+    .filter(([key]) => key !== "profile" && key !== "tag")
+    .map(([key, value]) => `${key} ${JSON.stringify(value)}`);
+  return `[${describeOverride(override)}]: ${entries.join(", ") || "global thresholds"}`;
 }
@@ -1,25 +1,70 @@
-import type { Config } from "../types/index.js";
-import type { RadarrEnvVars } from "../utils/env.js";
+import { randomUUID } from "node:crypto";
+import type { Config, IHistoryStore } from "../types/index.js";
+import type { ArrEnvVars, RadarrEnvVars, SonarrEnvVars } from "../utils/env.js";
 import {
   RadarrService,
-  DiscordService,
+  SonarrService,
+  createNotificationService,
   compareScores,
+  comparePackScores,
+  compareQuality,
+  detectProfileDrift,
+  diffCustomFormats,
+  getToleranceTarget,
   handleScoreResult,
+  handlePackScoreResult,
+  logPackSummary,
+  openHistoryStore,
 } from "../services/index.js";
-import { logger, findHistoryEvents } from "../utils/index.js";
+import {
+  logger,
+  findHistoryEvents,
+  formatEpisodeLabel,
+  formatInstanceLabel,
+  getGrabDetails,
+  groupHistoryByDownloadId,
+  matchInstance,
+} from "../utils/index.js";
 
 export async function importCommand(
   config: Config,
-  envVars: RadarrEnvVars
+  envVars: ArrEnvVars
+): Promise<void> {
+  const historyStore = await openHistoryStore(config);
+
+  try {
+    if (envVars.type === "sonarr") {
+      await importEpisodeFiles(config, envVars, historyStore);
+      return;
+    }
+
+    await importMovie(config, envVars, historyStore);
+  } finally {
+    historyStore?.close();
+  }
+}
+
+async function importMovie(
+  config: Config,
+  envVars: RadarrEnvVars,
+  historyStore: IHistoryStore | null
 ): Promise<void> {
   if (!config.radarr) {
     throw new Error("Radarr is not configured");
   }
 
-  logger.info(`Processing import for: ${envVars.movieTitle}`);
+  // Pick the instance that sent the event
+  const instance = matchInstance(config.radarr, "Radarr", {
+    name: envVars.instanceName,
+    url: envVars.applicationUrl,
+  });
 
-  const radarr = new RadarrService(config.radarr);
-  const discord = new DiscordService(config.discord);
+  logger.info(
+    `Processing import for: ${envVars.movieTitle} (${formatInstanceLabel("Radarr", instance)})`
+  );
+
+  const radarr = new RadarrService(instance);
+  const notifications = createNotificationService(config);
 
   // Get movie details
   const movie = await radarr.getMovie(envVars.movieId);
@@ -44,10 +89,16 @@ export async function importCommand(
   }
 
   // Calculate score comparison
+  const toleranceTarget = await getToleranceTarget(
+    radarr,
+    movie,
+    config.quality
+  );
   const comparison = compareScores(
     grabbed.customFormatScore,
     movieFile.customFormatScore,
-    config.quality
+    config.quality,
+    toleranceTarget
   );
 
   logger.info(
@@ -56,12 +107,6 @@ export async function importCommand(
   logger.info(`Current file score: ${comparison.actualScore}`);
   logger.info(`Difference: ${comparison.difference}`);
 
-  // Extract indexer from grabbed event data
-  const indexer =
-    typeof grabbed.data["indexer"] === "string"
-      ? grabbed.data["indexer"]
-      : undefined;
-
   // Handle result (apply tag, send notification)
   await handleScoreResult(
     {
@@ -73,9 +118,149 @@ export async function importCommand(
       },
       quality: movieFile.quality.quality.name,
       comparison,
-      indexer,
+      ...getGrabDetails(grabbed),
+      grabId: grabbed.id,
+      customFormatDiff: diffCustomFormats(
+        grabbed.customFormats,
+        movieFile.customFormats
+      ),
+      qualityComparison: compareQuality(grabbed.quality, movieFile.quality),
+      profileDrift: await detectProfileDrift(
+        radarr,
+        movie,
+        grabbed,
+        comparison,
+        config.quality,
+        toleranceTarget
+      ),
+      correlationId: randomUUID().slice(0, 8),
     },
-    { tagConfig: config.tag, qualityConfig: config.quality },
-    { radarr, discord, radarrUrl: config.radarr.url }
+    {
+      tagConfig: config.tag,
+      qualityConfig: config.quality,
+      onMismatch: config.onMismatch,
+      severity: config.severity,
+    },
+    {
+      radarr,
+      notifications,
+      radarrUrl: instance.url,
+      instanceName: instance.name,
+      history: historyStore ?? undefined,
+    }
+  );
+}
+
+async function importEpisodeFiles(
+  config: Config,
+  envVars: SonarrEnvVars,
+  historyStore: IHistoryStore | null
+): Promise<void> {
+  if (!config.sonarr) {
+    throw new Error("Sonarr is not configured");
+  }
+
+  // Pick the instance that sent the event
+  const instance = matchInstance(config.sonarr, "Sonarr", {
+    name: envVars.instanceName,
+    url: envVars.applicationUrl,
+  });
+
+  logger.info(
+    `Processing import for: ${envVars.seriesTitle} (${formatInstanceLabel("Sonarr", instance)})`
+  );
+
+  if (envVars.episodeFileIds.length === 0) {
+    logger.warn(
+      `[${envVars.seriesTitle}] No episode file in environment, skipping`
+    );
+    return;
+  }
+
+  const sonarr = new SonarrService(instance);
+  const notifications = createNotificationService(config);
+
+  // Get series and imported files (actual scores)
+  const series = await sonarr.getSeriesById(envVars.seriesId);
+  const episodeFiles = await Promise.all(
+    envVars.episodeFileIds.map((id) => sonarr.getEpisodeFile(id))
+  );
+  const seriesEpisodes = await sonarr.getEpisodes(series.id);
+
+  // Resolve the episodes contained in each imported file
+  const files = episodeFiles.map((file) => {
+    const episodes =
+      episodeFiles.length === 1 && envVars.episodeIds.length > 0
+        ? seriesEpisodes.filter((e) => envVars.episodeIds.includes(e.id))
+        : seriesEpisodes.filter((e) => e.episodeFileId === file.id);
+    return { file, episodes };
+  });
+
+  const episodeIds = files.flatMap(({ episodes }) => episodes.map((e) => e.id));
+  if (episodeIds.length === 0) {
+    logger.warn(`[${series.title}] No episodes found for imported files`);
+    return;
+  }
+
+  // Get grabbed event from history (expected score). Every file of a
+  // season pack is checked against the score of the pack's grab.
+  const history = await sonarr.getHistory(series.id);
+  const packGrab = envVars.downloadId
+    ? (groupHistoryByDownloadId(history).get(envVars.downloadId)?.grabbed ??
+      null)
+    : null;
+  const grabbed =
+    packGrab ??
+    findHistoryEvents(history.filter((h) => episodeIds.includes(h.episodeId)))
+      .grabbed;
+
+  if (!grabbed) {
+    logger.warn(`[${series.title}] No grabbed event in history, skipping`);
+    return;
+  }
+
+  logger.info(
+    `[${series.title}] Grabbed score: ${grabbed.customFormatScore} (${grabbed.sourceTitle})`
+  );
+
+  const pack = comparePackScores(
+    grabbed.customFormatScore,
+    files.map(({ file, episodes }) => ({
+      episodeFileId: file.id,
+      episode: formatEpisodeLabel(
+        file.seasonNumber,
+        episodes.map((e) => e.episodeNumber)
+      ),
+      quality: file.quality.quality.name,
+      actualScore: file.customFormatScore,
+    })),
+    config.quality
+  );
+
+  logPackSummary(series.title, pack);
+
+  // Handle result (tag the series, send notification)
+  await handlePackScoreResult(
+    pack,
+    {
+      id: series.id,
+      title: series.title,
+      year: series.year,
+      titleSlug: series.titleSlug,
+      images: series.images,
+    },
+    { ...getGrabDetails(grabbed), correlationId: randomUUID().slice(0, 8) },
+    {
+      tagConfig: config.tag,
+      qualityConfig: config.quality,
+      severity: config.severity,
+    },
+    {
+      sonarr,
+      notifications,
+      sonarrUrl: instance.url,
+      instanceName: instance.name,
+      history: historyStore ?? undefined,
+    }
   );
 }
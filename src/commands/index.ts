@@ -2,3 +2,6 @@ export * from "./search.js";
 export * from "./batch.js";
 export * from "./import.js";
 export * from "./health.js";
+export * from "./stats.js";
+export * from "./export.js";
+export * from "./review.js";
@@ -0,0 +1,257 @@
+import { createInterface, type Interface } from "node:readline/promises";
+import type {
+  Config,
+  RadarrHistory,
+  RadarrMovie,
+  RadarrMovieFile,
+} from "../types/index.js";
+import {
+  RadarrService,
+  getMismatchTags,
+  searchAfterBlocklist,
+} from "../services/index.js";
+import {
+  logger,
+  createLogContext,
+  findHistoryEvents,
+  formatError,
+  getGrabDetails,
+  selectInstance,
+} from "../utils/index.js";
+
+export const REVIEW_ACTIONS = [
+  "skip",
+  "mark-ok",
+  "re-search",
+  "blocklist-and-re-search",
+] as const;
+
+export type ReviewAction = (typeof REVIEW_ACTIONS)[number];
+
+export interface ReviewOptions {
+  /** Action applied to every movie of `ids`, without prompting */
+  action?: ReviewAction | undefined;
+  /** Radarr movie IDs to review; every mismatched movie when omitted */
+  ids?: number[] | undefined;
+  /** Instance name, required when several instances are configured */
+  instance?: string | undefined;
+  dryRun?: boolean;
+}
+
+interface ReviewItem {
+  movie: RadarrMovie;
+  grabbed: RadarrHistory | null;
+  movieFile: RadarrMovieFile | null;
+}
+
+const ACTION_PROMPT =
+  "Action? [s]kip, [m]ark-ok, [r]e-search, [b]locklist-and-re-search, [q]uit: ";
+
+const ACTION_SHORTCUTS: Record<string, ReviewAction | "quit"> = {
+  s: "skip",
+  m: "mark-ok",
+  r: "re-search",
+  b: "blocklist-and-re-search",
+  q: "quit",
+};
+
+/**
+ * Review the movies tagged with the mismatch tag (or a severity tag) or the
+ * downgrade tag, one at a time in a terminal, or with a single action for
+ * scripting (--action with --ids)
+ */
+export async function reviewCommand(
+  config: Config,
+  options: ReviewOptions = {}
+): Promise<void> {
+  const { dryRun = false } = options;
+
+  if (!config.radarr) {
+    throw new Error("Radarr is not configured");
+  }
+
+  const instance = selectInstance(config.radarr, "Radarr", options.instance);
+
+  if (options.action !== undefined && !options.ids?.length) {
+    throw new Error("--ids is required with --action");
+  }
+
+  const interactive = options.action === undefined;
+  if (interactive && !process.stdin.isTTY) {
+    throw new Error(
+      "review needs an interactive terminal (use --action with --ids for scripting)"
+    );
+  }
+
+  const radarr = new RadarrService(instance);
+  const labels = [
+    ...getMismatchTags(config.tag, config.severity),
+    config.tag.downgradeTag,
+  ];
+  const label = labels.join(" or ");
+  const wanted = new Set(labels.map((l) => l.toLowerCase()));
+  const reviewTagIds = (await radarr.getTags())
+    .filter((t) => wanted.has(t.label.toLowerCase()))
+    .map((t) => t.id);
+
+  if (reviewTagIds.length === 0) {
+    logger.info(`No movie tagged ${label}`);
+    return;
+  }
+
+  let movies = (await radarr.getMovies()).filter((m) =>
+    m.tags.some((id) => reviewTagIds.includes(id))
+  );
+
+  if (options.ids) {
+    const ids = options.ids;
+    for (const id of ids) {
+      if (!movies.some((m) => m.id === id)) {
+        logger.warn(`Movie #${id} is not tagged ${label}, skipping`);
+      }
+    }
+    movies = movies.filter((m) => ids.includes(m.id));
+  }
+
+  if (movies.length === 0) {
+    logger.info(`No movie tagged ${label} to review`);
+    return;
+  }
+
+  logger.info(`${movies.length} movie(s) tagged ${label}`);
+
+  const prompt = interactive
+    ? createInterface({ input: process.stdin, output: process.stdout })
+    : null;
+
+  try {
+    for (const [index, movie] of movies.entries()) {
+      const item = await loadReviewItem(radarr, movie);
+      logger.info("---");
+      logReviewItem(item, index + 1, movies.length);
+
+      const action = prompt ? await askAction(prompt) : options.action;
+      if (action === undefined || action === "quit") {
+        break;
+      }
+
+      try {
+        await applyReviewAction(radarr, item, action, {
+          reviewTagIds,
+          successTag: config.tag.successTag,
+          dryRun,
+        });
+      } catch (error) {
+        logger.error(
+          `${createLogContext(movie.title, movie.year)} ${action} failed: ${formatError(error)}`
+        );
+      }
+    }
+  } finally {
+    prompt?.close();
+  }
+}
+
+async function loadReviewItem(
+  radarr: RadarrService,
+  movie: RadarrMovie
+): Promise<ReviewItem> {
+  const [history, movieFile] = await Promise.all([
+    radarr.getHistory(movie.id),
+    radarr.getMovieFile(movie.id),
+  ]);
+  return { movie, grabbed: findHistoryEvents(history).grabbed, movieFile };
+}
+
+function logReviewItem(
+  item: ReviewItem,
+  position: number,
+  total: number
+): void {
+  const { movie, grabbed, movieFile } = item;
+  logger.info(
+    `[${position}/${total}] #${movie.id} ${movie.title} (${movie.year})`
+  );
+
+  if (!grabbed) {
+    logger.info("  No grabbed release in history");
+  } else {
+    const { indexer } = getGrabDetails(grabbed);
+    logger.info(`  Release: ${grabbed.sourceTitle}`);
+    logger.info(`  Indexer: ${indexer ?? "unknown"}`);
+    logger.info(`  Expected score: ${grabbed.customFormatScore}`);
+  }
+
+  if (!movieFile) {
+    logger.info("  No movie file");
+  } else {
+    logger.info(`  Actual score: ${movieFile.customFormatScore}`);
+    logger.info(`  Quality: ${movieFile.quality.quality.name}`);
+  }
+
+  if (grabbed && movieFile) {
+    const difference = movieFile.customFormatScore - grabbed.customFormatScore;
+    logger.info(`  Difference: ${difference}`);
+  }
+}
+
+async function askAction(prompt: Interface): Promise<ReviewAction | "quit"> {
+  for (;;) {
+    const answer = (await prompt.question(ACTION_PROMPT)).trim().toLowerCase();
+    const action =
+      ACTION_SHORTCUTS[answer] ??
+      REVIEW_ACTIONS.find((a) => a === answer) ??
+      (answer === "quit" ? "quit" : undefined);
+
+    if (action) {
+      return action;
+    }
+    logger.warn(`Unknown action: ${answer}`);
+  }
+}
+
+async function applyReviewAction(
+  radarr: RadarrService,
+  item: ReviewItem,
+  action: ReviewAction,
+  options: { reviewTagIds: number[]; successTag: string; dryRun: boolean }
+): Promise<void> {
+  const { movie, grabbed } = item;
+  const logContext = createLogContext(movie.title, movie.year);
+
+  if (action === "skip") {
+    logger.info(`${logContext} Skipped`);
+    return;
+  }
+
+  if (options.dryRun) {
+    logger.info(`[DRY-RUN] ${logContext} Would ${action}`);
+    return;
+  }
+
+  if (action === "mark-ok") {
+    const tag = await radarr.getOrCreateTag(options.successTag);
+    await radarr.replaceMovieTag(movie, options.reviewTagIds, tag.id);
+    logger.info(`${logContext} Marked as OK (${options.successTag})`);
+    return;
+  }
+
+  if (action === "blocklist-and-re-search") {
+    if (!grabbed) {
+      throw new Error("No grabbed release in history to blocklist");
+    }
+    await radarr.markHistoryFailed(grabbed.id);
+    logger.info(`${logContext} Blocklisted: ${grabbed.sourceTitle}`);
+
+    const command = await searchAfterBlocklist(radarr, movie.id);
+    logger.info(
+      command
+        ? `${logContext} Search started (ID: ${command.id})`
+        : `${logContext} Radarr searches again itself (Redownload Failed is on)`
+    );
+    return;
+  }
+
+  const command = await radarr.searchMovie(movie.id);
+  logger.info(`${logContext} Search started (ID: ${command.id})`);
+}
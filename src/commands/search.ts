@@ -1,21 +1,67 @@
-import type { Config } from "../types/index.js";
+import { randomUUID } from "node:crypto";
+import type {
+  Config,
+  IHistoryStore,
+  INotificationService,
+  RadarrConfig,
+} from "../types/index.js";
 import {
   RadarrService,
-  DiscordService,
+  SonarrService,
+  createNotificationService,
+  EpisodeProcessor,
   compareScores,
+  compareQuality,
+  detectProfileDrift,
+  diffCustomFormats,
+  formatCustomFormatDiff,
+  formatProfileDrift,
+  formatQualityDowngrade,
+  getToleranceTarget,
   handleScoreResult,
   logScoreComparison,
   logDryRunResult,
+  logPackDryRunResult,
+  openHistoryStore,
 } from "../services/index.js";
+import type { QueueItem } from "../services/index.js";
 import {
   logger,
+  createLogContext,
   findHistoryEvents,
+  formatEpisodeLabel,
+  formatError,
+  getGrabDetails,
+  selectInstance,
+  sleep,
   waitForHistoryEvent,
   HISTORY_EVENT_TYPES,
 } from "../utils/index.js";
 
 export interface SearchOptions {
   dryRun?: boolean;
+  /** Instance name, required when several instances are configured */
+  instance?: string | undefined;
+}
+
+/**
+ * Sonarr search target: a single episode, or a whole season when
+ * episodeNumber is omitted
+ */
+export interface EpisodeSearchTarget {
+  tvdbId: number;
+  seasonNumber: number;
+  episodeNumber?: number | undefined;
+}
+
+interface EpisodeSearchResult {
+  series: {
+    id: number;
+    title: string;
+    year: number;
+  };
+  episode: string;
+  mismatch: boolean;
 }
 
 interface SearchResult {
@@ -42,8 +88,9 @@ export async function searchCommand(
     throw new Error("Radarr is not configured");
   }
 
-  const radarr = new RadarrService(config.radarr);
-  const discord = new DiscordService(config.discord);
+  const instance = selectInstance(config.radarr, "Radarr", options.instance);
+  const radarr = new RadarrService(instance);
+  const notifications = createNotificationService(config);
 
   // Get movie details by TMDB ID
   logger.info(`Fetching movie details for TMDB ID: ${tmdbId}`);
@@ -59,7 +106,19 @@ export async function searchCommand(
     return handleDryRunMode(radarr, movie, config);
   }
 
-  return handleRealMode(radarr, discord, movie, config);
+  const historyStore = await openHistoryStore(config);
+  try {
+    return await handleRealMode(
+      radarr,
+      notifications,
+      movie,
+      config,
+      instance,
+      historyStore
+    );
+  } finally {
+    historyStore?.close();
+  }
 }
 
 async function handleDryRunMode(
@@ -69,6 +128,8 @@ async function handleDryRunMode(
     title: string;
     year: number;
     hasFile: boolean;
+    qualityProfileId?: number | undefined;
+    tags: number[];
     images?:
       | {
           coverType: string;
@@ -105,34 +166,63 @@ async function handleDryRunMode(
     return null;
   }
 
+  const toleranceTarget = await getToleranceTarget(
+    radarr,
+    movie,
+    config.quality
+  );
   const comparison = compareScores(
     grabbed.customFormatScore,
     movieFile.customFormatScore,
-    config.quality
+    config.quality,
+    toleranceTarget
   );
 
   logger.info(`[DRY-RUN] Grabbed score: ${comparison.expectedScore}`);
   logger.info(`[DRY-RUN] Current file score: ${comparison.actualScore}`);
   logScoreComparison(comparison, "[DRY-RUN]");
-  logDryRunResult(comparison, config.tag);
+  const customFormats = formatCustomFormatDiff(
+    diffCustomFormats(grabbed.customFormats, movieFile.customFormats)
+  );
+  if (customFormats) {
+    logger.info(`[DRY-RUN] Custom formats ${customFormats}`);
+  }
+  const qualityComparison = compareQuality(grabbed.quality, movieFile.quality);
+  const qualityDowngrade = formatQualityDowngrade(qualityComparison);
+  if (qualityDowngrade) {
+    logger.info(`[DRY-RUN] Quality downgrade ${qualityDowngrade}`);
+  }
+  const profileDrift = await detectProfileDrift(
+    radarr,
+    movie,
+    grabbed,
+    comparison,
+    config.quality,
+    toleranceTarget
+  );
+  if (profileDrift) {
+    logger.info(`[DRY-RUN] Profile drift: ${formatProfileDrift(profileDrift)}`);
+  }
+  logDryRunResult(comparison, config.tag, config.severity);
 
   return {
     movie: { id: movie.id, title: movie.title, year: movie.year },
     expectedScore: comparison.expectedScore,
     actualScore: comparison.actualScore,
     difference: comparison.difference,
-    isAcceptable: comparison.isAcceptable,
+    isAcceptable: comparison.isAcceptable && !qualityComparison.isDowngrade,
     tagApplied: null,
   };
 }
 
 async function handleRealMode(
   radarr: RadarrService,
-  discord: DiscordService,
+  notifications: INotificationService,
   movie: {
     id: number;
     title: string;
     year: number;
+    qualityProfileId?: number | undefined;
     tags: number[];
     images?:
       | {
@@ -142,8 +232,12 @@ async function handleRealMode(
         }[]
       | undefined;
   },
-  config: Config
+  config: Config,
+  instance: RadarrConfig,
+  historyStore: IHistoryStore | null
 ): Promise<SearchResult | null> {
+  const correlationId = randomUUID().slice(0, 8);
+
   // Trigger search
   logger.info("Triggering movie search...");
   const command = await radarr.searchMovie(movie.id);
@@ -201,19 +295,24 @@ async function handleRealMode(
       return null;
     }
 
+    const toleranceTarget = await getToleranceTarget(
+      radarr,
+      movie,
+      config.quality
+    );
     const comparison = compareScores(
       lastGrabbed.customFormatScore,
       movieFile.customFormatScore,
-      config.quality
+      config.quality,
+      toleranceTarget
     );
 
     logScoreComparison(comparison);
 
-    const lastIndexer =
-      typeof lastGrabbed.data["indexer"] === "string"
-        ? lastGrabbed.data["indexer"]
-        : undefined;
-
+    const qualityComparison = compareQuality(
+      lastGrabbed.quality,
+      movieFile.quality
+    );
     const resultOutput = await handleScoreResult(
       {
         movie: {
@@ -224,10 +323,36 @@ async function handleRealMode(
         },
         quality: movieFile.quality.quality.name,
         comparison,
-        indexer: lastIndexer,
+        ...getGrabDetails(lastGrabbed),
+        grabId: lastGrabbed.id,
+        customFormatDiff: diffCustomFormats(
+          lastGrabbed.customFormats,
+          movieFile.customFormats
+        ),
+        qualityComparison,
+        profileDrift: await detectProfileDrift(
+          radarr,
+          movie,
+          lastGrabbed,
+          comparison,
+          config.quality,
+          toleranceTarget
+        ),
+        correlationId,
       },
-      { tagConfig: config.tag, qualityConfig: config.quality },
-      { radarr, discord, radarrUrl: config.radarr?.url }
+      {
+        tagConfig: config.tag,
+        qualityConfig: config.quality,
+        onMismatch: config.onMismatch,
+        severity: config.severity,
+      },
+      {
+        radarr,
+        notifications,
+        radarrUrl: instance.url,
+        instanceName: instance.name,
+        history: historyStore ?? undefined,
+      }
     );
 
     return {
@@ -235,7 +360,7 @@ async function handleRealMode(
       expectedScore: comparison.expectedScore,
       actualScore: comparison.actualScore,
       difference: comparison.difference,
-      isAcceptable: comparison.isAcceptable,
+      isAcceptable: comparison.isAcceptable && !qualityComparison.isDowngrade,
       tagApplied: resultOutput.tagApplied,
     };
   }
@@ -266,20 +391,23 @@ async function handleRealMode(
   logger.info(`Current file score: ${movieFile.customFormatScore}`);
 
   // Calculate comparison using grabbed score vs current file score
+  const toleranceTarget = await getToleranceTarget(
+    radarr,
+    movie,
+    config.quality
+  );
   const comparison = compareScores(
     grabbed.customFormatScore,
     movieFile.customFormatScore,
-    config.quality
+    config.quality,
+    toleranceTarget
   );
 
   logScoreComparison(comparison);
 
-  // Handle result
-  const grabbedIndexer =
-    typeof grabbed.data["indexer"] === "string"
-      ? grabbed.data["indexer"]
-      : undefined;
+  const qualityComparison = compareQuality(grabbed.quality, movieFile.quality);
 
+  // Handle result
   const resultOutput = await handleScoreResult(
     {
       movie: {
@@ -290,10 +418,36 @@ async function handleRealMode(
       },
       quality: movieFile.quality.quality.name,
       comparison,
-      indexer: grabbedIndexer,
+      ...getGrabDetails(grabbed),
+      grabId: grabbed.id,
+      customFormatDiff: diffCustomFormats(
+        grabbed.customFormats,
+        movieFile.customFormats
+      ),
+      qualityComparison,
+      profileDrift: await detectProfileDrift(
+        radarr,
+        movie,
+        grabbed,
+        comparison,
+        config.quality,
+        toleranceTarget
+      ),
+      correlationId,
     },
-    { tagConfig: config.tag, qualityConfig: config.quality },
-    { radarr, discord, radarrUrl: config.radarr?.url }
+    {
+      tagConfig: config.tag,
+      qualityConfig: config.quality,
+      onMismatch: config.onMismatch,
+      severity: config.severity,
+    },
+    {
+      radarr,
+      notifications,
+      radarrUrl: instance.url,
+      instanceName: instance.name,
+      history: historyStore ?? undefined,
+    }
   );
 
   return {
@@ -301,7 +455,175 @@ async function handleRealMode(
     expectedScore: comparison.expectedScore,
     actualScore: comparison.actualScore,
     difference: comparison.difference,
-    isAcceptable: comparison.isAcceptable,
+    isAcceptable: comparison.isAcceptable && !qualityComparison.isDowngrade,
     tagApplied: resultOutput.tagApplied,
   };
 }
+
+export async function searchEpisodesCommand(
+  config: Config,
+  target: EpisodeSearchTarget,
+  options: SearchOptions = {}
+): Promise<EpisodeSearchResult | null> {
+  const { dryRun = false } = options;
+
+  if (!config.sonarr) {
+    throw new Error("Sonarr is not configured");
+  }
+
+  const instance = selectInstance(config.sonarr, "Sonarr", options.instance);
+  const sonarr = new SonarrService(instance);
+  const notifications = createNotificationService(config);
+
+  // Get series details by TVDB ID
+  logger.info(`Fetching series details for TVDB ID: ${target.tvdbId}`);
+  const series = await sonarr.getSeriesByTvdbId(target.tvdbId);
+
+  if (!series) {
+    throw new Error(`Series with TVDB ID ${target.tvdbId} not found in Sonarr`);
+  }
+
+  const label = formatEpisodeLabel(
+    target.seasonNumber,
+    target.episodeNumber === undefined ? [] : [target.episodeNumber]
+  );
+  const episodes = (
+    await sonarr.getEpisodes(series.id, target.seasonNumber)
+  ).filter(
+    (e) =>
+      target.episodeNumber === undefined ||
+      e.episodeNumber === target.episodeNumber
+  );
+
+  if (episodes.length === 0) {
+    throw new Error(`${label} of ${series.title} not found in Sonarr`);
+  }
+
+  logger.info(`Found series: ${series.title} (${series.year}) ${label}`);
+
+  const history = await sonarr.getHistory(series.id);
+  const item: QueueItem = {
+    id: series.id,
+    title: `${series.title} ${label}`,
+    year: series.year,
+    hasFile: episodes.every((e) => e.hasFile),
+    status: "pending",
+    episodes: {
+      seasonNumber: target.seasonNumber,
+      episodeIds: episodes.map((e) => e.id),
+      label,
+      wholeSeason: target.episodeNumber === undefined,
+    },
+    initialHistoryIds: new Set(history.map((h) => h.id)),
+    correlationId: randomUUID().slice(0, 8),
+  };
+
+  const result = {
+    series: { id: series.id, title: series.title, year: series.year },
+    episode: label,
+  };
+
+  if (dryRun) {
+    const processor = new EpisodeProcessor({
+      seriesService: sonarr,
+      notificationService: notifications,
+      config,
+      instance,
+    });
+    return handleEpisodeDryRunMode(processor, item, result, config);
+  }
+
+  const historyStore = await openHistoryStore(config);
+  try {
+    const processor = new EpisodeProcessor({
+      seriesService: sonarr,
+      notificationService: notifications,
+      config,
+      instance,
+      history: historyStore ?? undefined,
+    });
+    return await handleEpisodeRealMode(processor, item, result, config);
+  } finally {
+    historyStore?.close();
+  }
+}
+
+async function handleEpisodeDryRunMode(
+  processor: EpisodeProcessor,
+  item: QueueItem,
+  result: Omit<EpisodeSearchResult, "mismatch">,
+  config: Config
+): Promise<EpisodeSearchResult | null> {
+  logger.info(`[DRY-RUN] Would trigger search for ${result.episode}`);
+
+  if (!item.hasFile) {
+    logger.info("[DRY-RUN] Not every episode has a file yet");
+    logger.info("[DRY-RUN] In real mode, would search and wait for download");
+    return null;
+  }
+
+  let pack;
+  try {
+    pack = await processor.compareWithLastGrabs(item);
+  } catch (error) {
+    logger.info(`[DRY-RUN] ${formatError(error)}`);
+    return null;
+  }
+
+  if (!pack) {
+    logger.info("[DRY-RUN] No grabbed event found in history");
+    logger.info("[DRY-RUN] In real mode, would search and wait for download");
+    return null;
+  }
+
+  logPackDryRunResult(pack, config.tag, config.severity);
+
+  return { ...result, mismatch: !pack.isAcceptable };
+}
+
+async function handleEpisodeRealMode(
+  processor: EpisodeProcessor,
+  item: QueueItem,
+  result: Omit<EpisodeSearchResult, "mismatch">,
+  config: Config
+): Promise<EpisodeSearchResult | null> {
+  const logContext = createLogContext(
+    item.title,
+    item.year,
+    item.correlationId
+  );
+
+  // Trigger search and wait for grab
+  const { grabbed } = await processor.processSearch(item, logContext);
+
+  if (!grabbed) {
+    // No new grab - compare current files with last grabbed events
+    const { mismatch } = await processor.handleNoGrab(item, logContext);
+    return { ...result, mismatch };
+  }
+
+  logger.info(
+    `Grabbed: ${grabbed.sourceTitle} (score: ${grabbed.customFormatScore})`
+  );
+  item.grabbedEvent = grabbed;
+
+  // Wait for every grabbed episode to be imported
+  logger.info("Waiting for download and import...");
+  const timeoutMs = config.batch.downloadTimeoutMinutes * 60 * 1000;
+  const startTime = Date.now();
+
+  while (!(await processor.checkForImport(item))) {
+    if (Date.now() - startTime >= timeoutMs) {
+      logger.warn(`${logContext} Timed out waiting for import`);
+      return null;
+    }
+    await sleep(config.batch.historyPollIntervalMs);
+  }
+
+  const { mismatch } = await processor.processCompletedDownload(
+    item,
+    logContext
+  );
+
+  return { ...result, mismatch };
+}
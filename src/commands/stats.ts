@@ -0,0 +1,110 @@
+import type {
+  Config,
+  ReliabilityStats,
+  VerificationRecord,
+} from "../types/index.js";
+import {
+  openHistoryStore,
+  computeIndexerStats,
+  computeReleaseGroupStats,
+  computeSourceStats,
+} from "../services/index.js";
+import { logger } from "../utils/index.js";
+
+export interface StatsOptions {
+  /** Only include verifications made at or after this date */
+  since?: Date | undefined;
+  /** Only include verifications of this instance */
+  instance?: string | undefined;
+}
+
+export async function statsCommand(
+  config: Config,
+  options: StatsOptions = {}
+): Promise<void> {
+  const history = await openHistoryStore(config);
+  if (!history) {
+    throw new Error(
+      "Verification history is not available (check history.enabled and history.path)"
+    );
+  }
+
+  let records: VerificationRecord[];
+  try {
+    records = history.list({
+      since: options.since,
+      instance: options.instance,
+    });
+  } finally {
+    history.close();
+  }
+
+  const filters = [
+    options.since && `since ${options.since.toISOString().slice(0, 10)}`,
+    options.instance !== undefined && `on ${options.instance}`,
+  ].filter(Boolean);
+  const scope = filters.length > 0 ? ` (${filters.join(", ")})` : "";
+
+  logger.info(`Indexer reliability${scope}`);
+  logger.info("---");
+
+  if (records.length === 0) {
+    logger.info("No verifications recorded");
+    return;
+  }
+
+  const indexers = computeIndexerStats(records);
+
+  for (const indexer of indexers) {
+    logger.info(`[${indexer.name}] ${formatLieRate(indexer)}`);
+    logger.info(`  Score difference: ${formatDifferences(indexer)}`);
+
+    if (indexer.worstOffenders.length > 0) {
+      logger.info("  Worst offenders:");
+      for (const record of indexer.worstOffenders) {
+        logger.info(`    ${formatOffender(record)}`);
+      }
+    }
+  }
+
+  // A reliable indexer can still relay mislabeled releases of one group
+  logger.info("---");
+  logger.info("Release groups:");
+  for (const group of computeReleaseGroupStats(records)) {
+    logger.info(`  ${formatBreakdown(group)}`);
+  }
+
+  logger.info("Sources:");
+  for (const source of computeSourceStats(records)) {
+    logger.info(`  ${formatBreakdown(source)}`);
+  }
+
+  logger.info("---");
+  logger.info(
+    `${records.length} verification(s) across ${indexers.length} indexer(s)`
+  );
+}
+
+function formatLieRate(stats: ReliabilityStats): string {
+  return `Lie rate: ${stats.lieRate.toFixed(1)}% (${stats.mismatches}/${stats.sampleSize})`;
+}
+
+function formatDifferences(stats: ReliabilityStats): string {
+  return `mean ${formatDifference(stats.meanDifference)}, median ${formatDifference(stats.medianDifference)}`;
+}
+
+function formatBreakdown(stats: ReliabilityStats): string {
+  return `[${stats.name}] ${formatLieRate(stats)}, score difference ${formatDifferences(stats)}`;
+}
+
+function formatDifference(difference: number): string {
+  const rounded = Math.round(difference * 10) / 10;
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+function formatOffender(record: VerificationRecord): string {
+  const year = record.year ? ` (${record.year})` : "";
+  const episode = record.episode ? ` ${record.episode}` : "";
+  const release = record.releaseTitle ? ` - ${record.releaseTitle}` : "";
+  return `${record.title}${year}${episode}: ${formatDifference(record.difference)} (grabbed ${record.expectedScore}, got ${record.actualScore})${release}`;
+}
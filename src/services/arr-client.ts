@@ -0,0 +1,216 @@
+import type { z } from "zod/v4";
+import type { ApiConfig } from "../types/index.js";
+import { logger, sleep, formatError } from "../utils/index.js";
+
+class RetryableError extends Error {
+  constructor(
+    message: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+export interface ArrClientConfig {
+  url: string;
+  apiKey: string;
+  api: ApiConfig;
+}
+
+/**
+ * HTTP client shared by the *arr services (Radarr, Sonarr).
+ * Handles authentication, timeouts, retries with exponential backoff,
+ * rate limiting (429) and Zod validation of API responses.
+ */
+export abstract class ArrClient {
+  protected baseUrl: string;
+  private apiKey: string;
+  private apiConfig: ApiConfig;
+  private appName: string;
+
+  constructor(appName: string, config: ArrClientConfig) {
+    this.appName = appName;
+    this.baseUrl = config.url.replace(/\/$/, "");
+    this.apiKey = config.apiKey;
+    this.apiConfig = config.api;
+  }
+
+  protected async request<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<T> {
+    const url = `${this.baseUrl}/api/v3${endpoint}`;
+    const headers: Record<string, string> = {
+      "X-Api-Key": this.apiKey,
+      "Content-Type": "application/json",
+    };
+    if (
+      options.headers &&
+      typeof options.headers === "object" &&
+      !Array.isArray(options.headers)
+    ) {
+      Object.assign(headers, options.headers);
+    }
+
+    logger.debug(
+      `${this.appName} API request: ${options.method ?? "GET"} ${endpoint}`
+    );
+
+    return this.requestWithRetry<T>(url, { ...options, headers }, endpoint);
+  }
+
+  private async requestWithRetry<T>(
+    url: string,
+    options: RequestInit,
+    endpoint: string
+  ): Promise<T> {
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.apiConfig.retryAttempts; attempt++) {
+      if (attempt > 0) {
+        const delay = this.calculateRetryDelay(attempt);
+        logger.debug(
+          `Retry attempt ${attempt} after ${delay}ms for ${endpoint}`
+        );
+        await sleep(delay);
+      }
+
+      try {
+        return await this.executeRequest<T>(url, options, endpoint);
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (!this.isRetryableError(lastError)) {
+          throw lastError;
+        }
+
+        logger.debug(
+          `Request failed (attempt ${attempt + 1}): ${lastError.message}`
+        );
+      }
+    }
+
+    throw (
+      lastError ??
+      new Error(`Request failed after ${this.apiConfig.retryAttempts} retries`)
+    );
+  }
+
+  private async executeRequest<T>(
+    url: string,
+    options: RequestInit,
+    endpoint: string
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, this.apiConfig.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...options, signal: controller.signal });
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(
+          `${this.appName} API timeout after ${this.apiConfig.timeoutMs}ms (${endpoint})`
+        );
+      }
+      throw new Error(
+        `${this.appName} API connection failed (${endpoint}): ${formatError(error)}`
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.status === 429) {
+      const retryAfter = response.headers.get("Retry-After");
+      const delay = retryAfter
+        ? parseInt(retryAfter, 10) * 1000
+        : this.apiConfig.retryDelayMs;
+      throw new RetryableError(
+        `Rate limited (429), retry after ${delay}ms`,
+        delay
+      );
+    }
+
+    if (!response.ok) {
+      const isRetryable = response.status >= 500 || response.status === 408;
+      if (isRetryable) {
+        throw new RetryableError(
+          `${this.appName} API error: ${response.status} ${response.statusText} (${endpoint})`
+        );
+      }
+      throw new Error(
+        `${this.appName} API error: ${response.status} ${response.statusText} (${endpoint})`
+      );
+    }
+
+    // Some endpoints (e.g. DELETE) answer with an empty body
+    const body = await response.text();
+    return (body === "" ? undefined : JSON.parse(body)) as T;
+  }
+
+  protected validateResponse<T>(
+    data: unknown,
+    schema: z.ZodType<T>,
+    endpoint: string
+  ): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      logger.debug(`Validation error for ${endpoint}: ${result.error.message}`);
+      throw new Error(
+        `Invalid API response from ${endpoint}: ${result.error.message}`
+      );
+    }
+    return result.data;
+  }
+
+  protected validateArrayResponse<T>(
+    data: unknown,
+    schema: z.ZodType<T>,
+    endpoint: string
+  ): T[] {
+    if (!Array.isArray(data)) {
+      throw new Error(`Expected array response from ${endpoint}`);
+    }
+    return data.map((item, index) => {
+      const result = schema.safeParse(item);
+      if (!result.success) {
+        logger.debug(
+          `Validation error for ${endpoint}[${index}]: ${result.error.message}`
+        );
+        throw new Error(
+          `Invalid API response from ${endpoint}[${index}]: ${result.error.message}`
+        );
+      }
+      return result.data;
+    });
+  }
+
+  private calculateRetryDelay(attempt: number): number {
+    // Exponential backoff: delay * 2^(attempt-1)
+    return Math.min(
+      this.apiConfig.retryDelayMs * Math.pow(2, attempt - 1),
+      30000 // Max 30 seconds
+    );
+  }
+
+  private isRetryableError(error: Error): boolean {
+    return error instanceof RetryableError;
+  }
+
+  protected buildEndpoint(
+    path: string,
+    params?: Record<string, string | number | boolean>
+  ): string {
+    if (!params || Object.keys(params).length === 0) {
+      return path;
+    }
+    const searchParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      searchParams.append(key, String(value));
+    }
+    return `${path}?${searchParams.toString()}`;
+  }
+}
@@ -1,28 +1,28 @@
-import type { DiscordConfig, INotificationService } from "../types/index.js";
+import type {
+  BatchSummaryInfo,
+  DiscordConfig,
+  INotificationService,
+  ScoreMismatchInfo,
+  Severity,
+} from "../types/index.js";
 import { logger, getVersion } from "../utils/index.js";
-
-export interface ScoreMismatchInfo {
-  title: string;
-  year?: number | undefined;
-  expectedScore: number;
-  actualScore: number;
-  difference: number;
-  maxOverScore: number;
-  quality: string;
-  indexer?: string | undefined;
-  radarrUrl?: string | undefined;
-  movieId?: number | undefined;
-  posterUrl?: string | undefined;
-}
-
-export interface BatchSummaryInfo {
-  totalProcessed: number;
-  completed: number;
-  failed: number;
-  mismatches: number;
-  durationMs: number;
-  failedItems: { title: string; error: string }[];
-}
+import {
+  formatDuration,
+  formatFailedItems,
+  formatMediaTitle,
+  formatScoreDifference,
+  getBatchSummaryTitle,
+  getMediaLink,
+  getMismatchLevel,
+  getMismatchTitle,
+} from "./notification-format.js";
+
+const SEVERITY_COLORS: Record<Severity, number> = {
+  ok: 0x00ff00, // Green
+  minor: 0xffff00, // Yellow
+  major: 0xff8c00, // Orange
+  critical: 0xff0000, // Red
+};
 
 export class DiscordService implements INotificationService {
   private webhookUrl: string | undefined;
@@ -41,16 +41,14 @@ export class DiscordService implements INotificationService {
       return;
     }
 
-    const color = this.getColorForDifference(info.difference);
-    const title = info.year ? `${info.title} (${info.year})` : info.title;
+    const color = SEVERITY_COLORS[getMismatchLevel(info)];
+    const title = formatMediaTitle(info);
 
-    const description =
-      info.radarrUrl && info.movieId
-        ? `**[${title}](${info.radarrUrl}/movie/${info.movieId})**`
-        : `**${title}**`;
+    const link = getMediaLink(info);
+    const description = link ? `**[${title}](${link})**` : `**${title}**`;
 
     const embed: Record<string, unknown> = {
-      title: "Quality Score Mismatch",
+      title: getMismatchTitle(info),
       description,
       color,
       fields: [
@@ -66,7 +64,7 @@ export class DiscordService implements INotificationService {
         },
         {
           name: "Difference",
-          value: `${info.difference > 0 ? "+" : ""}${info.difference}`,
+          value: formatScoreDifference(info.difference),
           inline: true,
         },
         {
@@ -74,6 +72,15 @@ export class DiscordService implements INotificationService {
           value: info.quality,
           inline: true,
         },
+        ...(info.severity
+          ? [
+              {
+                name: "Severity",
+                value: info.severity,
+                inline: true,
+              },
+            ]
+          : []),
         ...(info.indexer
           ? [
               {
@@ -83,6 +90,42 @@ export class DiscordService implements INotificationService {
               },
             ]
           : []),
+        ...(info.instance
+          ? [
+              {
+                name: "Instance",
+                value: info.instance,
+                inline: true,
+              },
+            ]
+          : []),
+        ...(info.qualityDowngrade
+          ? [
+              {
+                name: "Quality Downgrade",
+                value: info.qualityDowngrade,
+                inline: false,
+              },
+            ]
+          : []),
+        ...(info.profileDrift
+          ? [
+              {
+                name: "Profile Drift",
+                value: info.profileDrift,
+                inline: false,
+              },
+            ]
+          : []),
+        ...(info.customFormats
+          ? [
+              {
+                name: "Custom Formats",
+                value: info.customFormats,
+                inline: false,
+              },
+            ]
+          : []),
       ],
       timestamp: new Date().toISOString(),
       footer: {
@@ -113,11 +156,6 @@ export class DiscordService implements INotificationService {
       return;
     }
 
-    const durationSeconds = Math.round(info.durationMs / 1000);
-    const minutes = Math.floor(durationSeconds / 60);
-    const seconds = durationSeconds % 60;
-    const durationStr = minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
-
     const color = info.failed > 0 ? 0xff8c00 : 0x00ff00;
 
     const fields = [
@@ -143,31 +181,21 @@ export class DiscordService implements INotificationService {
       },
       {
         name: "Duration",
-        value: durationStr,
+        value: formatDuration(info.durationMs),
         inline: true,
       },
     ];
 
     if (info.failedItems.length > 0) {
-      const maxDisplay = 5;
-      const failedList = info.failedItems
-        .slice(0, maxDisplay)
-        .map((item) => `- ${item.title}: ${item.error}`)
-        .join("\n");
-      const suffix =
-        info.failedItems.length > maxDisplay
-          ? `\n... and ${info.failedItems.length - maxDisplay} more`
-          : "";
-
       fields.push({
         name: "Failed Items",
-        value: failedList + suffix,
+        value: formatFailedItems(info).join("\n"),
         inline: false,
       });
     }
 
     const embed = {
-      title: "Batch Processing Summary",
+      title: getBatchSummaryTitle(info),
       color,
       fields,
       timestamp: new Date().toISOString(),
@@ -206,11 +234,4 @@ export class DiscordService implements INotificationService {
       );
     }
   }
-
-  private getColorForDifference(difference: number): number {
-    if (difference < -50) return 0xff0000; // Red - very bad
-    if (difference < -20) return 0xff8c00; // Orange - bad
-    if (difference < 0) return 0xffff00; // Yellow - slight mismatch
-    return 0x00ff00; // Green - better than expected
-  }
 }
@@ -1,6 +1,6 @@
 import type { BatchConfig } from "../types/index.js";
 import type { QueueItem } from "./queue.js";
-import type { ItemProcessor } from "./item-processor.js";
+import type { IItemProcessor } from "./item-processor.js";
 import { logger, sleep, formatError } from "../utils/index.js";
 
 export interface DownloadMonitorCallbacks {
@@ -11,7 +11,7 @@ export interface DownloadMonitorCallbacks {
 
 export class DownloadMonitor {
   private downloadQueue: QueueItem[];
-  private processor: ItemProcessor;
+  private processor: IItemProcessor;
   private batchConfig: BatchConfig;
   private callbacks: DownloadMonitorCallbacks;
   private _running = false;
@@ -19,7 +19,7 @@ export class DownloadMonitor {
 
   constructor(
     downloadQueue: QueueItem[],
-    processor: ItemProcessor,
+    processor: IItemProcessor,
     batchConfig: BatchConfig,
     callbacks: DownloadMonitorCallbacks,
     createLogContext: (item: QueueItem) => string
@@ -0,0 +1,101 @@
+import type { QualityConfig } from "../types/config.js";
+import type {
+  RadarrCustomFormat,
+  RadarrQualityProfile,
+} from "../types/radarr.js";
+import type {
+  ProfileDriftResult,
+  ScoreComparisonResult,
+  ToleranceTarget,
+} from "../types/score.js";
+import type { IMovieService } from "../types/services.js";
+import { logger, formatError } from "../utils/index.js";
+import { compareScores } from "./score.js";
+
+/**
+ * Score custom formats with the current quality profile. Formats are looked
+ * up by name first: tools syncing custom formats may recreate them with new
+ * IDs. Formats that no longer exist, or have no score in the profile, count
+ * for 0.
+ */
+export function rescoreCustomFormats(
+  matched: RadarrCustomFormat[],
+  customFormats: RadarrCustomFormat[],
+  profile: Pick<RadarrQualityProfile, "formatItems">
+): number {
+  const scores = new Map(
+    (profile.formatItems ?? []).map((item) => [item.format, item.score])
+  );
+
+  return matched.reduce((total, format) => {
+    const current =
+      customFormats.find((f) => f.name === format.name) ??
+      customFormats.find((f) => f.id === format.id);
+    return total + (current ? (scores.get(current.id) ?? 0) : 0);
+  }, 0);
+}
+
+/**
+ * Re-score the grabbed release against the current quality profile, to tell
+ * a release that lied about its custom formats from a profile whose scores
+ * changed since the grab.
+ *
+ * @returns Undefined when the scores match, the comparison is acceptable,
+ * or Radarr does not report what is needed (custom formats of the grab,
+ * quality profile of the movie)
+ */
+export async function detectProfileDrift(
+  radarr: Pick<IMovieService, "getCustomFormats" | "getQualityProfile">,
+  movie: { qualityProfileId?: number | undefined },
+  grabbed: {
+    customFormatScore: number;
+    customFormats?: RadarrCustomFormat[] | undefined;
+  },
+  comparison: ScoreComparisonResult,
+  qualityConfig: QualityConfig,
+  target?: ToleranceTarget
+): Promise<ProfileDriftResult | undefined> {
+  if (
+    comparison.isAcceptable ||
+    !grabbed.customFormats ||
+    movie.qualityProfileId === undefined
+  ) {
+    return undefined;
+  }
+
+  let currentScore: number;
+  try {
+    const [customFormats, profile] = await Promise.all([
+      radarr.getCustomFormats(),
+      radarr.getQualityProfile(movie.qualityProfileId),
+    ]);
+    if (!profile.formatItems) {
+      return undefined;
+    }
+    currentScore = rescoreCustomFormats(
+      grabbed.customFormats,
+      customFormats,
+      profile
+    );
+  } catch (error) {
+    logger.warn(`Could not check for profile drift: ${formatError(error)}`);
+    return undefined;
+  }
+
+  if (currentScore === grabbed.customFormatScore) {
+    return undefined;
+  }
+
+  const rescored = compareScores(
+    currentScore,
+    comparison.actualScore,
+    qualityConfig,
+    target
+  );
+
+  return {
+    historicScore: grabbed.customFormatScore,
+    currentScore,
+    isDriftOnly: rescored.isAcceptable,
+  };
+}
@@ -0,0 +1,75 @@
+import { createTransport, type Transporter } from "nodemailer";
+import type {
+  BatchSummaryInfo,
+  EmailChannelConfig,
+  INotificationService,
+  ScoreMismatchInfo,
+} from "../types/index.js";
+import { logger } from "../utils/index.js";
+import {
+  formatBatchSummaryHtml,
+  formatMediaTitle,
+  formatMismatchHtml,
+  getBatchSummaryTitle,
+  getMismatchTitle,
+} from "./notification-format.js";
+
+/**
+ * Sends notifications as HTML emails through an SMTP server
+ */
+export class EmailService implements INotificationService {
+  private transporter: Transporter;
+  private from: string;
+  private to: string[];
+
+  constructor(
+    config: Pick<
+      EmailChannelConfig,
+      "host" | "port" | "secure" | "user" | "password" | "from" | "to"
+    >
+  ) {
+    this.transporter = createTransport({
+      host: config.host,
+      ...(config.port !== undefined && { port: config.port }),
+      secure: config.secure,
+      ...(config.user && {
+        auth: { user: config.user, pass: config.password },
+      }),
+    });
+    this.from = config.from;
+    this.to = config.to;
+  }
+
+  async sendScoreMismatch(info: ScoreMismatchInfo): Promise<void> {
+    const title = formatMediaTitle(info);
+
+    await this.send(
+      `${getMismatchTitle(info)}: ${title}`,
+      formatMismatchHtml(info)
+    );
+
+    logger.info(`Email notification sent for ${title}`);
+  }
+
+  async sendBatchSummary(info: BatchSummaryInfo): Promise<void> {
+    await this.send(getBatchSummaryTitle(info), formatBatchSummaryHtml(info));
+
+    logger.info("Email batch summary sent");
+  }
+
+  private async send(subject: string, body: string): Promise<void> {
+    logger.debug("Sending email notification", {
+      from: this.from,
+      to: this.to,
+      subject,
+    });
+
+    // The formatters separate lines with newlines, which HTML collapses
+    await this.transporter.sendMail({
+      from: this.from,
+      to: this.to,
+      subject,
+      html: body.split("\n").join("<br>\n"),
+    });
+  }
+}
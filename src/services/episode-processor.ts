@@ -0,0 +1,322 @@
+import type { Config, SonarrConfig } from "../types/index.js";
+import type {
+  IHistoryStore,
+  ISeriesService,
+  INotificationService,
+} from "../types/services.js";
+import type { SonarrHistory } from "../types/sonarr.js";
+import type {
+  EpisodeFileComparison,
+  PackComparisonResult,
+} from "../types/score.js";
+import type { QueueItem, EpisodeTarget } from "./queue.js";
+import type { IItemProcessor } from "./item-processor.js";
+import {
+  compareScores,
+  handlePackScoreResult,
+  logPackSummary,
+} from "./score.js";
+import {
+  logger,
+  sleep,
+  formatEpisodeLabel,
+  getGrabDetails,
+  HISTORY_EVENT_TYPES,
+} from "../utils/index.js";
+
+export interface EpisodeProcessorDeps {
+  seriesService: ISeriesService;
+  notificationService: INotificationService;
+  config: Config;
+  /** Sonarr instance the series service talks to */
+  instance: SonarrConfig;
+  history?: IHistoryStore | undefined;
+}
+
+/**
+ * Batch processing of Sonarr queue items. An item covers one episode or a
+ * whole season of a series; tags are applied to the series. The success
+ * tag is left to the queue, which tags a series once every item of it passed.
+ */
+export class EpisodeProcessor implements IItemProcessor {
+  private seriesService: ISeriesService;
+  private notificationService: INotificationService;
+  private config: Config;
+  private instance: SonarrConfig;
+  private history: IHistoryStore | undefined;
+
+  constructor(deps: EpisodeProcessorDeps) {
+    this.seriesService = deps.seriesService;
+    this.notificationService = deps.notificationService;
+    this.config = deps.config;
+    this.instance = deps.instance;
+    this.history = deps.history;
+  }
+
+  async processSearch(
+    item: QueueItem,
+    logContext: string
+  ): Promise<{ grabbed: SonarrHistory | null }> {
+    const target = this.getTarget(item);
+    logger.info(`${logContext} Searching...`);
+    item.status = "searching";
+
+    const command = target.wholeSeason
+      ? await this.seriesService.searchSeason(item.id, target.seasonNumber)
+      : await this.seriesService.searchEpisodes(target.episodeIds);
+    await this.seriesService.waitForCommand(
+      command.id,
+      this.config.batch.commandTimeoutMs,
+      this.config.batch.commandPollIntervalMs
+    );
+
+    // Wait for the first grab of any episode of the item
+    const startTime = Date.now();
+    while (Date.now() - startTime < this.config.batch.grabWaitTimeoutMs) {
+      const history = await this.seriesService.getHistory(item.id);
+      const [grabbed] = this.findNewEvents(
+        item,
+        history,
+        HISTORY_EVENT_TYPES.GRABBED
+      );
+
+      if (grabbed) {
+        return { grabbed };
+      }
+
+      await sleep(this.config.batch.historyPollIntervalMs);
+    }
+
+    return { grabbed: null };
+  }
+
+  async handleNoGrab(
+    item: QueueItem,
+    logContext: string
+  ): Promise<{ mismatch: boolean }> {
+    logger.info(`${logContext} No new grab, checking against previous grab...`);
+
+    const history = await this.seriesService.getHistory(item.id);
+    const lastGrabs = this.findLastGrabs(item, history);
+
+    if (lastGrabs.size === 0) {
+      logger.info(`${logContext} No grab history, marking as OK`);
+      return { mismatch: false };
+    }
+
+    const pack = await this.compareWithGrabs(item, lastGrabs);
+    return this.applyPackResult(item, pack, lastGrabs, logContext);
+  }
+
+  async processCompletedDownload(
+    item: QueueItem,
+    logContext: string
+  ): Promise<{ mismatch: boolean }> {
+    logger.info(`${logContext} Download completed, checking scores...`);
+
+    if (!item.grabbedEvent) {
+      throw new Error("Missing grabbed event");
+    }
+
+    const history = await this.seriesService.getHistory(item.id);
+    const grabs = this.findNewEvents(
+      item,
+      history,
+      HISTORY_EVENT_TYPES.GRABBED
+    );
+    const grabsByEpisode = new Map(grabs.map((h) => [h.episodeId, h]));
+
+    const pack = await this.compareWithGrabs(item, grabsByEpisode);
+    return this.applyPackResult(item, pack, grabsByEpisode, logContext);
+  }
+
+  /**
+   * An item is imported once every episode grabbed since the search
+   * has a new import event (a season may be grabbed as several releases)
+   */
+  async checkForImport(item: QueueItem): Promise<boolean> {
+    const history = await this.seriesService.getHistory(item.id);
+    const grabbedIds = new Set(
+      this.findNewEvents(item, history, HISTORY_EVENT_TYPES.GRABBED).map(
+        (h) => h.episodeId
+      )
+    );
+    const importedIds = new Set(
+      this.findNewEvents(item, history, HISTORY_EVENT_TYPES.IMPORTED).map(
+        (h) => h.episodeId
+      )
+    );
+
+    return (
+      grabbedIds.size > 0 && [...grabbedIds].every((id) => importedIds.has(id))
+    );
+  }
+
+  /**
+   * Compare the current files of the item's episodes against the last
+   * grab of each episode, without tagging or notifying
+   */
+  async compareWithLastGrabs(
+    item: QueueItem
+  ): Promise<PackComparisonResult | null> {
+    const history = await this.seriesService.getHistory(item.id);
+    const lastGrabs = this.findLastGrabs(item, history);
+
+    if (lastGrabs.size === 0) {
+      return null;
+    }
+
+    return this.compareWithGrabs(item, lastGrabs);
+  }
+
+  /**
+   * Compare each episode file against the grab of the episodes it contains
+   */
+  private async compareWithGrabs(
+    item: QueueItem,
+    grabsByEpisode: Map<number, SonarrHistory>
+  ): Promise<PackComparisonResult> {
+    const target = this.getTarget(item);
+    const [episodes, files] = await Promise.all([
+      this.seriesService.getEpisodes(item.id, target.seasonNumber),
+      this.seriesService.getEpisodeFiles(item.id),
+    ]);
+    const filesById = new Map(files.map((f) => [f.id, f]));
+
+    const compared: EpisodeFileComparison[] = [];
+    let expectedScore: number | null = null;
+
+    for (const file of filesById.values()) {
+      const fileEpisodes = episodes.filter(
+        (e) => e.episodeFileId === file.id && grabsByEpisode.has(e.id)
+      );
+      const [firstEpisode] = fileEpisodes;
+      if (!firstEpisode) continue;
+
+      const grab = grabsByEpisode.get(firstEpisode.id);
+      if (!grab) continue;
+
+      expectedScore ??= grab.customFormatScore;
+      compared.push({
+        episodeFileId: file.id,
+        episode: formatEpisodeLabel(
+          file.seasonNumber,
+          fileEpisodes.map((e) => e.episodeNumber)
+        ),
+        quality: file.quality.quality.name,
+        comparison: compareScores(
+          grab.customFormatScore,
+          file.customFormatScore,
+          this.config.quality
+        ),
+      });
+    }
+
+    if (expectedScore === null) {
+      throw new Error(`No episode file found for ${target.label}`);
+    }
+
+    const deviating = compared.filter((f) => !f.comparison.isAcceptable);
+    return {
+      expectedScore,
+      files: compared,
+      deviating,
+      isAcceptable: deviating.length === 0,
+    };
+  }
+
+  private async applyPackResult(
+    item: QueueItem,
+    pack: PackComparisonResult,
+    grabsByEpisode: Map<number, SonarrHistory>,
+    logContext: string
+  ): Promise<{ mismatch: boolean }> {
+    const series = await this.seriesService.getSeriesById(item.id);
+    logPackSummary(series.title, pack);
+
+    const seriesInfo = {
+      id: series.id,
+      title: series.title,
+      year: series.year,
+      titleSlug: series.titleSlug,
+      images: series.images,
+    };
+    const [firstGrab] = grabsByEpisode.values();
+    const source = {
+      ...(firstGrab && getGrabDetails(firstGrab)),
+      correlationId: item.correlationId,
+    };
+
+    await handlePackScoreResult(
+      pack,
+      seriesInfo,
+      source,
+      {
+        tagConfig: this.config.tag,
+        qualityConfig: this.config.quality,
+        severity: this.config.severity,
+      },
+      {
+        sonarr: this.seriesService,
+        notifications: this.notificationService,
+        sonarrUrl: this.instance.url,
+        instanceName: this.instance.name,
+        history: this.history,
+      }
+    );
+
+    if (!pack.isAcceptable) {
+      logger.info(`${logContext} Score mismatch detected`);
+      return { mismatch: true };
+    }
+
+    return { mismatch: false };
+  }
+
+  /**
+   * Most recent grab of each episode of the item
+   */
+  private findLastGrabs(
+    item: QueueItem,
+    history: SonarrHistory[]
+  ): Map<number, SonarrHistory> {
+    const { episodeIds } = this.getTarget(item);
+    const lastGrabs = new Map<number, SonarrHistory>();
+
+    for (const event of history) {
+      if (
+        event.eventType === HISTORY_EVENT_TYPES.GRABBED &&
+        episodeIds.includes(event.episodeId) &&
+        !lastGrabs.has(event.episodeId)
+      ) {
+        lastGrabs.set(event.episodeId, event);
+      }
+    }
+
+    return lastGrabs;
+  }
+
+  /**
+   * Events of the item's episodes that appeared since it was queued
+   */
+  private findNewEvents(
+    item: QueueItem,
+    history: SonarrHistory[],
+    eventType: string
+  ): SonarrHistory[] {
+    const { episodeIds } = this.getTarget(item);
+    return history.filter(
+      (h) =>
+        h.eventType === eventType &&
+        episodeIds.includes(h.episodeId) &&
+        !item.initialHistoryIds.has(h.id)
+    );
+  }
+
+  private getTarget(item: QueueItem): EpisodeTarget {
+    if (!item.episodes) {
+      throw new Error(`Queue item ${item.title} has no episodes`);
+    }
+    return item.episodes;
+  }
+}
@@ -0,0 +1,99 @@
+import type { VerificationRecord } from "../types/index.js";
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Columns of the CSV export, in order */
+const CSV_COLUMNS: (keyof VerificationRecord)[] = [
+  "verifiedAt",
+  "mediaType",
+  "mediaId",
+  "title",
+  "year",
+  "episode",
+  "instance",
+  "releaseTitle",
+  "indexer",
+  "releaseGroup",
+  "releaseSource",
+  "customFormatsLost",
+  "customFormatsGained",
+  "qualityDowngrade",
+  "expectedScore",
+  "actualScore",
+  "difference",
+  "quality",
+  "isAcceptable",
+  "mismatchKind",
+  "severity",
+  "profileDrift",
+  "tagApplied",
+  "notificationSent",
+  "correlationId",
+];
+
+/**
+ * Serialize verifications in the given export format
+ */
+export function serializeVerifications(
+  records: VerificationRecord[],
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "csv":
+      return toCsv(records);
+    case "json":
+      return `${JSON.stringify(records.map(toJson), null, 2)}\n`;
+    case "ndjson":
+      return records.map((r) => `${JSON.stringify(toJson(r))}\n`).join("");
+  }
+}
+
+/**
+ * JSON representation of a verification: absent values are null, so every
+ * object has the same keys
+ */
+function toJson(record: VerificationRecord): Record<string, unknown> {
+  return Object.fromEntries(
+    CSV_COLUMNS.map((column) => {
+      const value = record[column];
+      return [column, Array.isArray(value) ? value : toValue(value)];
+    })
+  );
+}
+
+function toValue(
+  value: VerificationRecord[keyof VerificationRecord]
+): string | number | boolean | null {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+  return value ?? null;
+}
+
+function toCsv(records: VerificationRecord[]): string {
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...records.map((record) =>
+      CSV_COLUMNS.map((column) => toCsvField(toValue(record[column]))).join(",")
+    ),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+function toCsvField(value: string | number | boolean | null): string {
+  if (value === null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    return String(value);
+  }
+
+  // Keep spreadsheets from evaluating release titles as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,111 @@
+import type {
+  BatchSummaryInfo,
+  GotifyChannelConfig,
+  INotificationService,
+  ScoreMismatchInfo,
+  Severity,
+} from "../types/index.js";
+import { logger } from "../utils/index.js";
+import {
+  formatBatchSummaryMarkdown,
+  formatMediaTitle,
+  formatMismatchMarkdown,
+  getBatchSummaryTitle,
+  getMediaLink,
+  getMismatchLevel,
+  getMismatchTitle,
+} from "./notification-format.js";
+
+/** Gotify priorities, from 0 to 10; clients alert loudly from 8 */
+const SEVERITY_PRIORITIES: Record<Severity, number> = {
+  ok: 2,
+  minor: 4,
+  major: 6,
+  critical: 8,
+};
+
+interface GotifyErrorResponse {
+  errorDescription?: string;
+}
+
+/**
+ * Pushes notifications to a Gotify server, as Markdown messages
+ */
+export class GotifyService implements INotificationService {
+  private url: string;
+  private token: string;
+  private priority: number | undefined;
+
+  constructor(config: Pick<GotifyChannelConfig, "url" | "token" | "priority">) {
+    this.url = config.url.replace(/\/+$/, "");
+    this.token = config.token;
+    this.priority = config.priority;
+  }
+
+  async sendScoreMismatch(info: ScoreMismatchInfo): Promise<void> {
+    const title = formatMediaTitle(info);
+    const link = getMediaLink(info);
+
+    await this.push(
+      `${getMismatchTitle(info)}: ${title}`,
+      formatMismatchMarkdown(info),
+      this.priority ?? SEVERITY_PRIORITIES[getMismatchLevel(info)],
+      {
+        ...(link && { click: { url: link } }),
+        ...(info.posterUrl && { bigImageUrl: info.posterUrl }),
+      }
+    );
+
+    logger.info(`Gotify notification sent for ${title}`);
+  }
+
+  async sendBatchSummary(info: BatchSummaryInfo): Promise<void> {
+    await this.push(
+      getBatchSummaryTitle(info),
+      formatBatchSummaryMarkdown(info),
+      this.priority ?? (info.failed > 0 ? 6 : 4),
+      {}
+    );
+
+    logger.info("Gotify batch summary sent");
+  }
+
+  private async push(
+    title: string,
+    message: string,
+    priority: number,
+    notification: Record<string, unknown>
+  ): Promise<void> {
+    const payload = {
+      title,
+      message,
+      priority,
+      extras: {
+        "client::display": { contentType: "text/markdown" },
+        ...(Object.keys(notification).length > 0 && {
+          "client::notification": notification,
+        }),
+      },
+    };
+
+    logger.debug("Sending Gotify notification", payload);
+
+    const response = await fetch(`${this.url}/message`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Gotify-Key": this.token,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const body = (await response
+        .json()
+        .catch(() => ({}))) as GotifyErrorResponse;
+      throw new Error(
+        `Gotify error: ${response.status} ${body.errorDescription ?? response.statusText}`
+      );
+    }
+  }
+}
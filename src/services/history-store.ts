@@ -0,0 +1,342 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { DatabaseSync, StatementSync } from "node:sqlite";
+import {
+  MISMATCH_KINDS,
+  ON_MISMATCH_ACTIONS,
+  SEVERITIES,
+  type Config,
+  type IHistoryStore,
+  type VerificationFilter,
+  type VerificationRecord,
+} from "../types/index.js";
+import { logger, formatError } from "../utils/index.js";
+
+/**
+ * Schema migrations, applied in order and tracked with PRAGMA user_version.
+ * Never edit a released migration - append a new one instead.
+ */
+const MIGRATIONS = [
+  `CREATE TABLE verifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    media_type TEXT NOT NULL,
+    media_id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    year INTEGER,
+    episode TEXT,
+    instance TEXT,
+    release_title TEXT,
+    indexer TEXT,
+    release_group TEXT,
+    expected_score INTEGER NOT NULL,
+    actual_score INTEGER NOT NULL,
+    difference INTEGER NOT NULL,
+    quality TEXT NOT NULL,
+    is_acceptable INTEGER NOT NULL,
+    tag_applied TEXT,
+    notification_sent INTEGER NOT NULL,
+    correlation_id TEXT,
+    verified_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_verifications_media ON verifications (media_type, media_id);`,
+  `ALTER TABLE verifications ADD COLUMN release_source TEXT;`,
+  // JSON arrays of custom format names
+  `ALTER TABLE verifications ADD COLUMN custom_formats_lost TEXT;
+  ALTER TABLE verifications ADD COLUMN custom_formats_gained TEXT;`,
+  `ALTER TABLE verifications ADD COLUMN quality_downgrade TEXT;`,
+  `ALTER TABLE verifications ADD COLUMN severity TEXT;`,
+  `ALTER TABLE verifications ADD COLUMN profile_drift INTEGER;`,
+  `ALTER TABLE verifications ADD COLUMN mismatch_action TEXT;`,
+  `ALTER TABLE verifications ADD COLUMN mismatch_kind TEXT;`,
+];
+
+const INSERT_VERIFICATION = `INSERT INTO verifications (
+  media_type, media_id, title, year, episode, instance,
+  release_title, indexer, release_group, release_source,
+  custom_formats_lost, custom_formats_gained, quality_downgrade,
+  expected_score, actual_score, difference, quality, is_acceptable,
+  mismatch_kind, severity, profile_drift, tag_applied, notification_sent, mismatch_action,
+  correlation_id, verified_at
+) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+interface VerificationRow {
+  media_type: string;
+  media_id: number;
+  title: string;
+  year: number | null;
+  episode: string | null;
+  instance: string | null;
+  release_title: string | null;
+  indexer: string | null;
+  release_group: string | null;
+  release_source: string | null;
+  custom_formats_lost: string | null;
+  custom_formats_gained: string | null;
+  quality_downgrade: string | null;
+  expected_score: number;
+  actual_score: number;
+  difference: number;
+  quality: string;
+  is_acceptable: number;
+  mismatch_kind: string | null;
+  severity: string | null;
+  profile_drift: number | null;
+  tag_applied: string | null;
+  notification_sent: number;
+  mismatch_action: string | null;
+  correlation_id: string | null;
+  verified_at: string;
+}
+
+/**
+ * SQLite-backed store of every score verification.
+ * Uses the built-in node:sqlite module (Node.js 22.13+).
+ */
+export class HistoryStore implements IHistoryStore {
+  private insert: StatementSync;
+
+  private constructor(private db: DatabaseSync) {
+    this.insert = db.prepare(INSERT_VERIFICATION);
+  }
+
+  /**
+   * Open (or create) the database at the given path and apply migrations.
+   * node:sqlite is loaded lazily so older Node.js versions can still run
+   * every other command.
+   */
+  static async open(path: string): Promise<HistoryStore> {
+    const sqlite = await importSqlite();
+    if (!sqlite) {
+      throw new Error("SQLite history requires Node.js 22.13 or later");
+    }
+    const { DatabaseSync } = sqlite;
+
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    const db = new DatabaseSync(path);
+    try {
+      db.exec("PRAGMA journal_mode = WAL");
+      db.exec("PRAGMA busy_timeout = 5000");
+      migrate(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+
+    return new HistoryStore(db);
+  }
+
+  record(entry: VerificationRecord): void {
+    this.insert.run(
+      entry.mediaType,
+      entry.mediaId,
+      entry.title,
+      entry.year ?? null,
+      entry.episode ?? null,
+      entry.instance ?? null,
+      entry.releaseTitle ?? null,
+      entry.indexer ?? null,
+      entry.releaseGroup ?? null,
+      entry.releaseSource ?? null,
+      toJsonColumn(entry.customFormatsLost),
+      toJsonColumn(entry.customFormatsGained),
+      entry.qualityDowngrade ?? null,
+      entry.expectedScore,
+      entry.actualScore,
+      entry.difference,
+      entry.quality,
+      entry.isAcceptable ? 1 : 0,
+      entry.mismatchKind ?? null,
+      entry.severity ?? null,
+      entry.profileDrift === undefined ? null : entry.profileDrift ? 1 : 0,
+      entry.tagApplied,
+      entry.notificationSent ? 1 : 0,
+      entry.mismatchAction ?? null,
+      entry.correlationId ?? null,
+      entry.verifiedAt.toISOString()
+    );
+  }
+
+  list(filter: VerificationFilter = {}): VerificationRecord[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.media) {
+      conditions.push("media_type = ? AND media_id = ?");
+      params.push(filter.media.type, filter.media.id);
+    }
+    if (filter.since) {
+      conditions.push("verified_at >= ?");
+      params.push(filter.since.toISOString());
+    }
+    if (filter.until) {
+      conditions.push("verified_at < ?");
+      params.push(filter.until.toISOString());
+    }
+    if (filter.instance !== undefined) {
+      conditions.push("instance = ? COLLATE NOCASE");
+      params.push(filter.instance);
+    }
+    if (filter.indexer !== undefined) {
+      conditions.push("indexer = ? COLLATE NOCASE");
+      params.push(filter.indexer);
+    }
+    if (filter.status !== undefined) {
+      // A quality mismatch keeps an acceptable score
+      conditions.push(
+        filter.status === "ok"
+          ? "is_acceptable = 1 AND mismatch_kind IS NULL"
+          : "(is_acceptable = 0 OR mismatch_kind IS NOT NULL)"
+      );
+    }
+
+    const where =
+      conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM verifications${where} ORDER BY verified_at, id`)
+      .all(...params) as unknown as VerificationRow[];
+
+    return rows.map(toRecord);
+  }
+
+  close(): void {
+    if (this.db.isOpen) {
+      this.db.close();
+    }
+  }
+}
+
+function toRecord(row: VerificationRow): VerificationRecord {
+  return {
+    mediaType: row.media_type === "series" ? "series" : "movie",
+    mediaId: row.media_id,
+    title: row.title,
+    year: row.year ?? undefined,
+    episode: row.episode ?? undefined,
+    instance: row.instance ?? undefined,
+    releaseTitle: row.release_title ?? undefined,
+    indexer: row.indexer ?? undefined,
+    releaseGroup: row.release_group ?? undefined,
+    releaseSource: row.release_source ?? undefined,
+    customFormatsLost: fromJsonColumn(row.custom_formats_lost),
+    customFormatsGained: fromJsonColumn(row.custom_formats_gained),
+    qualityDowngrade: row.quality_downgrade ?? undefined,
+    expectedScore: row.expected_score,
+    actualScore: row.actual_score,
+    difference: row.difference,
+    quality: row.quality,
+    isAcceptable: row.is_acceptable === 1,
+    mismatchKind: MISMATCH_KINDS.find((k) => k === row.mismatch_kind),
+    severity: SEVERITIES.find((s) => s === row.severity),
+    profileDrift:
+      row.profile_drift === null ? undefined : row.profile_drift === 1,
+    tagApplied: row.tag_applied,
+    notificationSent: row.notification_sent === 1,
+    mismatchAction: ON_MISMATCH_ACTIONS.find((a) => a === row.mismatch_action),
+    correlationId: row.correlation_id ?? undefined,
+    verifiedAt: new Date(row.verified_at),
+  };
+}
+
+function toJsonColumn(values: string[] | undefined): string | null {
+  return values ? JSON.stringify(values) : null;
+}
+
+function fromJsonColumn(value: string | null): string[] | undefined {
+  return value === null ? undefined : (JSON.parse(value) as string[]);
+}
+
+function migrate(db: DatabaseSync): void {
+  const row = db.prepare("PRAGMA user_version").get() as
+    | { user_version: number }
+    | undefined;
+  const current = row?.user_version ?? 0;
+
+  for (let version = current; version < MIGRATIONS.length; version++) {
+    const migration = MIGRATIONS[version];
+    if (migration === undefined) {
+      break;
+    }
+
+    db.exec("BEGIN");
+    try {
+      db.exec(migration);
+      db.exec(`PRAGMA user_version = ${version + 1}`);
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
+
+/**
+ * Open the history store configured in `history`, or return null when it is
+ * disabled or cannot be opened. History is best-effort: a missing or broken
+ * database never blocks a verification.
+ *
+ * When `history.enabled` is not set, history is only kept where node:sqlite
+ * is available, without warning on older Node.js versions.
+ */
+export async function openHistoryStore(
+  config: Config
+): Promise<IHistoryStore | null> {
+  if (config.history.enabled === false) {
+    return null;
+  }
+
+  if (config.history.enabled === undefined && !(await importSqlite())) {
+    logger.debug(
+      "History store disabled: node:sqlite requires Node.js 22.13 or later"
+    );
+    return null;
+  }
+
+  try {
+    const store = await HistoryStore.open(config.history.path);
+    logger.debug(`History store opened: ${config.history.path}`);
+    return store;
+  } catch (error) {
+    logger.warn(
+      `History store unavailable (${config.history.path}): ${formatError(error)}`
+    );
+    return null;
+  }
+}
+
+let sqliteModule: Promise<typeof import("node:sqlite") | null> | undefined;
+
+/**
+ * Load node:sqlite once, or resolve to null on Node.js versions without it.
+ * Its ExperimentalWarning is kept off stderr, where it would show in every
+ * Radarr/Sonarr custom script run; other warnings go through.
+ */
+function importSqlite(): Promise<typeof import("node:sqlite") | null> {
+  sqliteModule ??= (async () => {
+    const emitWarning = process.emitWarning.bind(process);
+    process.emitWarning = ((warning: string | Error, ...args: unknown[]) => {
+      const type =
+        typeof args[0] === "string"
+          ? args[0]
+          : (args[0] as { type?: string } | undefined)?.type;
+      if (
+        type === "ExperimentalWarning" &&
+        String(warning).includes("SQLite")
+      ) {
+        return;
+      }
+      (emitWarning as (...params: unknown[]) => void)(warning, ...args);
+    }) as typeof process.emitWarning;
+
+    try {
+      return await import("node:sqlite");
+    } catch {
+      return null;
+    } finally {
+      process.emitWarning = emitWarning;
+    }
+  })();
+  return sqliteModule;
+}
@@ -1,6 +1,22 @@
+export * from "./arr-client.js";
 export * from "./radarr.js";
+export * from "./sonarr.js";
 export * from "./discord.js";
+export * from "./telegram.js";
+export * from "./slack.js";
+export * from "./ntfy.js";
+export * from "./gotify.js";
+export * from "./pushover.js";
+export * from "./email.js";
 export * from "./queue.js";
 export * from "./score.js";
 export * from "./item-processor.js";
+export * from "./episode-processor.js";
 export * from "./download-monitor.js";
+export * from "./tag-buffer.js";
+export * from "./history-store.js";
+export * from "./stats.js";
+export * from "./export.js";
+export * from "./drift.js";
+export * from "./remediation.js";
+export * from "./notifications.js";
@@ -1,25 +1,71 @@
-import type { Config } from "../types/index.js";
-import type { IMediaService, INotificationService } from "../types/services.js";
-import type { RadarrHistory } from "../types/radarr.js";
+import type { Config, RadarrConfig } from "../types/index.js";
+import type {
+  IHistoryStore,
+  IMovieService,
+  INotificationService,
+} from "../types/services.js";
+import type { ScoreResultServices } from "../types/score.js";
+import type { RadarrHistory, RadarrMovieFile } from "../types/radarr.js";
+import type { SonarrHistory } from "../types/sonarr.js";
 import type { QueueItem } from "./queue.js";
-import { compareScores, logScoreSummary, handleScoreResult } from "./score.js";
-import { logger, findHistoryEvents } from "../utils/index.js";
+import type { MovieTagBuffer } from "./tag-buffer.js";
+import {
+  compareScores,
+  getToleranceTarget,
+  compareQuality,
+  diffCustomFormats,
+  logScoreSummary,
+  handleScoreResult,
+} from "./score.js";
+import { detectProfileDrift } from "./drift.js";
+import { logger, findHistoryEvents, getGrabDetails } from "../utils/index.js";
+
+/**
+ * Per-item steps of the batch pipeline, driven by QueueManager (search)
+ * and DownloadMonitor (download/import)
+ */
+export interface IItemProcessor {
+  processSearch(
+    item: QueueItem,
+    logContext: string
+  ): Promise<{ grabbed: RadarrHistory | SonarrHistory | null }>;
+  handleNoGrab(
+    item: QueueItem,
+    logContext: string
+  ): Promise<{ mismatch: boolean }>;
+  processCompletedDownload(
+    item: QueueItem,
+    logContext: string
+  ): Promise<{ mismatch: boolean }>;
+  checkForImport(item: QueueItem): Promise<boolean>;
+}
 
 export interface ItemProcessorDeps {
-  mediaService: IMediaService;
+  mediaService: IMovieService;
   notificationService: INotificationService;
   config: Config;
+  /** Radarr instance the media service talks to */
+  instance: RadarrConfig;
+  history?: IHistoryStore | undefined;
+  /** Buffer tag changes are applied through; tags are applied right away when omitted */
+  tagBuffer?: MovieTagBuffer | undefined;
 }
 
-export class ItemProcessor {
-  private mediaService: IMediaService;
+export class ItemProcessor implements IItemProcessor {
+  private mediaService: IMovieService;
   private notificationService: INotificationService;
   private config: Config;
+  private instance: RadarrConfig;
+  private history: IHistoryStore | undefined;
+  private tagBuffer: MovieTagBuffer | undefined;
 
   constructor(deps: ItemProcessorDeps) {
     this.mediaService = deps.mediaService;
     this.notificationService = deps.notificationService;
     this.config = deps.config;
+    this.instance = deps.instance;
+    this.history = deps.history;
+    this.tagBuffer = deps.tagBuffer;
   }
 
   async processSearch(
@@ -66,8 +112,12 @@ export class ItemProcessor {
         const tag = await this.mediaService.getOrCreateTag(
           this.config.tag.successTag
         );
-        const movie = await this.mediaService.getMovie(item.id);
-        await this.mediaService.addTagToMovie(movie, tag.id);
+        if (this.tagBuffer) {
+          await this.tagBuffer.add(item.id, [tag.id]);
+        } else {
+          const movie = await this.mediaService.getMovie(item.id);
+          await this.mediaService.addTagToMovie(movie, tag.id);
+        }
         logger.info(
           `${logContext} Applied success tag: ${this.config.tag.successTag}`
         );
@@ -82,13 +132,7 @@ export class ItemProcessor {
       throw new Error("No movie file found");
     }
 
-    return this.applyScoreResult(
-      item,
-      lastGrabbed,
-      movieFile.customFormatScore,
-      movieFile.quality.quality.name,
-      logContext
-    );
+    return this.applyScoreResult(item, lastGrabbed, movieFile, logContext);
   }
 
   async processCompletedDownload(
@@ -110,8 +154,7 @@ export class ItemProcessor {
     return this.applyScoreResult(
       item,
       item.grabbedEvent,
-      movieFile.customFormatScore,
-      movieFile.quality.quality.name,
+      movieFile,
       logContext
     );
   }
@@ -128,36 +171,68 @@ export class ItemProcessor {
 
   private async applyScoreResult(
     item: QueueItem,
-    grabbedEvent: RadarrHistory,
-    actualScore: number,
-    qualityName: string,
+    grabbedEvent: RadarrHistory | SonarrHistory,
+    movieFile: RadarrMovieFile,
     logContext: string
   ): Promise<{ mismatch: boolean }> {
+    const toleranceTarget = await getToleranceTarget(
+      this.mediaService,
+      item,
+      this.config.quality
+    );
     const comparison = compareScores(
       grabbedEvent.customFormatScore,
-      actualScore,
-      this.config.quality
+      movieFile.customFormatScore,
+      this.config.quality,
+      toleranceTarget
     );
+    const grabbedFormats =
+      "customFormats" in grabbedEvent ? grabbedEvent.customFormats : undefined;
 
     logScoreSummary(item.title, comparison);
 
-    const indexer =
-      typeof grabbedEvent.data["indexer"] === "string"
-        ? grabbedEvent.data["indexer"]
-        : undefined;
+    const qualityComparison = compareQuality(
+      grabbedEvent.quality,
+      movieFile.quality
+    );
 
     await handleScoreResult(
       {
         movie: { id: item.id, title: item.title, year: item.year },
-        quality: qualityName,
+        quality: movieFile.quality.quality.name,
         comparison,
-        indexer,
+        ...getGrabDetails(grabbedEvent),
+        grabId: grabbedEvent.id,
+        customFormatDiff: diffCustomFormats(
+          grabbedFormats,
+          movieFile.customFormats
+        ),
+        qualityComparison,
+        profileDrift: await detectProfileDrift(
+          this.mediaService,
+          item,
+          {
+            customFormatScore: grabbedEvent.customFormatScore,
+            customFormats: grabbedFormats,
+          },
+          comparison,
+          this.config.quality,
+          toleranceTarget
+        ),
+        correlationId: item.correlationId,
+      },
+      {
+        tagConfig: this.config.tag,
+        qualityConfig: this.config.quality,
+        onMismatch: this.config.onMismatch,
+        severity: this.config.severity,
       },
-      { tagConfig: this.config.tag, qualityConfig: this.config.quality },
       {
-        radarr: this.mediaService,
-        discord: this.notificationService,
-        radarrUrl: this.config.radarr?.url,
+        radarr: this.getTaggingService(),
+        notifications: this.notificationService,
+        radarrUrl: this.instance.url,
+        instanceName: this.instance.name,
+        history: this.history,
       }
     );
 
@@ -166,9 +241,40 @@ export class ItemProcessor {
       return { mismatch: true };
     }
 
+    if (qualityComparison.isDowngrade) {
+      logger.info(`${logContext} Quality mismatch detected`);
+      return { mismatch: true };
+    }
+
     return { mismatch: false };
   }
 
+  /**
+   * Radarr service handleScoreResult tags through: tag changes go to the
+   * tag buffer when there is one
+   */
+  private getTaggingService(): NonNullable<ScoreResultServices["radarr"]> {
+    const tagBuffer = this.tagBuffer;
+    if (!tagBuffer) {
+      return this.mediaService;
+    }
+
+    const radarr = this.mediaService;
+    return {
+      getMovie: (id) => radarr.getMovie(id),
+      getTags: () => radarr.getTags(),
+      createTag: (label) => radarr.createTag(label),
+      replaceMovieTag: (movie, removeTagIds, tagId) =>
+        tagBuffer.replaceMovieTag(movie, removeTagIds, tagId),
+      getHistory: (movieId) => radarr.getHistory(movieId),
+      getMovieFile: (movieId) => radarr.getMovieFile(movieId),
+      deleteMovieFile: (movieFileId) => radarr.deleteMovieFile(movieFileId),
+      markHistoryFailed: (historyId) => radarr.markHistoryFailed(historyId),
+      getDownloadClientConfig: () => radarr.getDownloadClientConfig(),
+      searchMovie: (movieId) => radarr.searchMovie(movieId),
+    };
+  }
+
   private async waitForNewHistoryEvent(
     item: QueueItem,
     eventType: string,
@@ -0,0 +1,201 @@
+import type {
+  BatchSummaryInfo,
+  ScoreMismatchInfo,
+  Severity,
+} from "../types/index.js";
+
+/** Failed items listed in a batch summary, the rest are counted */
+export const MAX_FAILED_ITEMS = 5;
+
+/**
+ * Title of a mismatch notification
+ */
+export function getMismatchTitle(info: ScoreMismatchInfo): string {
+  return info.mismatchKind === "quality"
+    ? "Quality Mismatch"
+    : "Quality Score Mismatch";
+}
+
+/**
+ * How bad a mismatch is, to color or prioritize its notification: its
+ * severity, or bands on the score difference when it has none. A quality
+ * mismatch has an acceptable score, so it gets the default "minor" level.
+ */
+export function getMismatchLevel(
+  info: Pick<ScoreMismatchInfo, "severity" | "difference" | "mismatchKind">
+): Severity {
+  if (info.severity) return info.severity;
+  if (info.mismatchKind === "quality") return "minor";
+  if (info.difference < -50) return "critical"; // Very bad
+  if (info.difference < -20) return "major"; // Bad
+  if (info.difference < 0) return "minor"; // Slight mismatch
+  return "ok"; // Better than expected
+}
+
+/**
+ * Title of a batch summary notification
+ */
+export function getBatchSummaryTitle(info: BatchSummaryInfo): string {
+  return info.instance
+    ? `Batch Processing Summary (${info.instance})`
+    : "Batch Processing Summary";
+}
+
+/**
+ * e.g. "Movie (2024)" or "Series (2020) S01E02"
+ */
+export function formatMediaTitle(info: ScoreMismatchInfo): string {
+  const baseTitle = info.year ? `${info.title} (${info.year})` : info.title;
+  return info.episode ? `${baseTitle} ${info.episode}` : baseTitle;
+}
+
+/**
+ * Link to the movie in Radarr or the series in Sonarr, when known
+ */
+export function getMediaLink(info: ScoreMismatchInfo): string | null {
+  if (info.radarrUrl && info.movieId) {
+    return `${info.radarrUrl}/movie/${info.movieId}`;
+  }
+  if (info.sonarrUrl && info.seriesSlug) {
+    return `${info.sonarrUrl}/series/${info.seriesSlug}`;
+  }
+  return null;
+}
+
+export function formatScoreDifference(difference: number): string {
+  return `${difference > 0 ? "+" : ""}${difference}`;
+}
+
+/**
+ * e.g. "2m 5s" or "42s"
+ */
+export function formatDuration(durationMs: number): string {
+  const durationSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(durationSeconds / 60);
+  const seconds = durationSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * One line per failed item, the ones beyond MAX_FAILED_ITEMS counted
+ */
+export function formatFailedItems(info: BatchSummaryInfo): string[] {
+  const lines = info.failedItems
+    .slice(0, MAX_FAILED_ITEMS)
+    .map((item) => `- ${item.title}: ${item.error}`);
+  if (info.failedItems.length > MAX_FAILED_ITEMS) {
+    lines.push(`... and ${info.failedItems.length - MAX_FAILED_ITEMS} more`);
+  }
+  return lines;
+}
+
+/**
+ * Markdown body of a mismatch, for push services showing the title apart
+ */
+export function formatMismatchMarkdown(info: ScoreMismatchInfo): string {
+  const details: [string, string | undefined][] = [
+    ["Quality", info.quality],
+    ["Severity", info.severity],
+    ["Indexer", info.indexer],
+    ["Instance", info.instance],
+    ["Quality downgrade", info.qualityDowngrade],
+    ["Profile drift", info.profileDrift],
+    ["Custom formats", info.customFormats],
+  ];
+
+  return [
+    `**${escapeMarkdown(formatMediaTitle(info))}**`,
+    "",
+    `**Expected score:** ${info.expectedScore}`,
+    `**Actual score:** ${info.actualScore} (${formatScoreDifference(info.difference)})`,
+    ...details.flatMap(([name, value]) =>
+      value ? [`**${name}:** ${escapeMarkdown(value)}`] : []
+    ),
+  ].join("\n");
+}
+
+/**
+ * Markdown body of a batch summary, for push services showing the title
+ * apart
+ */
+export function formatBatchSummaryMarkdown(info: BatchSummaryInfo): string {
+  const lines = [
+    `**Total processed:** ${info.totalProcessed}`,
+    `**Completed:** ${info.completed}`,
+    `**Failed:** ${info.failed}`,
+    `**Mismatches:** ${info.mismatches}`,
+    `**Duration:** ${formatDuration(info.durationMs)}`,
+  ];
+
+  if (info.failedItems.length > 0) {
+    lines.push("", "**Failed items**");
+    lines.push(...formatFailedItems(info).map(escapeMarkdown));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * HTML body of a mismatch, linking the title to Radarr or Sonarr. Uses only
+ * the tags both Telegram and Pushover render.
+ */
+export function formatMismatchHtml(info: ScoreMismatchInfo): string {
+  const title = escapeHtml(formatMediaTitle(info));
+  const link = getMediaLink(info);
+
+  const details: [string, string | undefined][] = [
+    ["Quality", info.quality],
+    ["Severity", info.severity],
+    ["Indexer", info.indexer],
+    ["Instance", info.instance],
+    ["Quality downgrade", info.qualityDowngrade],
+    ["Profile drift", info.profileDrift],
+    ["Custom formats", info.customFormats],
+  ];
+
+  return [
+    link ? `<a href="${escapeHtml(link)}">${title}</a>` : title,
+    "",
+    `Expected score: <b>${info.expectedScore}</b>`,
+    `Actual score: <b>${info.actualScore}</b> (${formatScoreDifference(info.difference)})`,
+    ...details.flatMap(([name, value]) =>
+      value ? [`${name}: ${escapeHtml(value)}`] : []
+    ),
+  ].join("\n");
+}
+
+/**
+ * HTML body of a batch summary
+ */
+export function formatBatchSummaryHtml(info: BatchSummaryInfo): string {
+  const lines = [
+    `Total processed: ${info.totalProcessed}`,
+    `Completed: ${info.completed}`,
+    `Failed: ${info.failed}`,
+    `Mismatches: ${info.mismatches}`,
+    `Duration: ${formatDuration(info.durationMs)}`,
+  ];
+
+  if (info.failedItems.length > 0) {
+    lines.push("", "<b>Failed items</b>");
+    lines.push(...formatFailedItems(info).map(escapeHtml));
+  }
+
+  return lines.join("\n");
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Keep release names (dots, underscores, brackets) from being read as
+ * Markdown
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]]/g, "\\$&");
+}
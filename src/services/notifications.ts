@@ -0,0 +1,219 @@
+import type {
+  BatchSummaryInfo,
+  Config,
+  INotificationService,
+  NotificationChannelConfig,
+  NotificationChannelType,
+  ScoreMismatchInfo,
+} from "../types/index.js";
+import { DiscordService } from "./discord.js";
+import { TelegramService } from "./telegram.js";
+import { SlackService } from "./slack.js";
+import { NtfyService } from "./ntfy.js";
+import { GotifyService } from "./gotify.js";
+import { PushoverService } from "./pushover.js";
+import { EmailService } from "./email.js";
+import { logger, formatError } from "../utils/index.js";
+
+/**
+ * How to build and describe the notifier of a channel type
+ */
+interface Notifier<T extends NotificationChannelConfig> {
+  /** Channel name when the config does not set one */
+  label: string;
+  create(config: T): INotificationService;
+  /** Where notifications go, with secrets masked */
+  describe(config: T): string;
+}
+
+type NotifierRegistry = {
+  [K in NotificationChannelType]: Notifier<
+    Extract<NotificationChannelConfig, { type: K }>
+  >;
+};
+
+/**
+ * Notifiers by channel type: a new channel only needs an entry here (and
+ * its config schema)
+ */
+const NOTIFIERS: NotifierRegistry = {
+  discord: {
+    label: "Discord",
+    create: (config) =>
+      new DiscordService({ enabled: true, webhookUrl: config.webhookUrl }),
+    describe: (config) => `Webhook: ${maskWebhookUrl(config.webhookUrl)}`,
+  },
+  telegram: {
+    label: "Telegram",
+    create: (config) => new TelegramService(config),
+    describe: (config) =>
+      `Chat: ${config.chatId}${config.threadId === undefined ? "" : `, thread ${config.threadId}`}`,
+  },
+  slack: {
+    label: "Slack",
+    create: (config) => new SlackService(config),
+    describe: (config) => `Webhook: ${maskWebhookUrl(config.webhookUrl)}`,
+  },
+  ntfy: {
+    label: "ntfy",
+    create: (config) => new NtfyService(config),
+    describe: (config) => `Topic: ${config.url}`,
+  },
+  gotify: {
+    label: "Gotify",
+    create: (config) => new GotifyService(config),
+    describe: (config) => `Server: ${config.url}`,
+  },
+  pushover: {
+    label: "Pushover",
+    create: (config) => new PushoverService(config),
+    describe: (config) =>
+      `User: ${maskToken(config.userKey)}${config.device ? `, device ${config.device}` : ""}`,
+  },
+  email: {
+    label: "Email",
+    create: (config) => new EmailService(config),
+    describe: (config) =>
+      `SMTP: ${config.host}${config.port === undefined ? "" : `:${config.port}`}, to ${config.to.join(", ")}`,
+  },
+};
+
+/**
+ * An enabled notification channel
+ */
+export interface NotificationChannel {
+  /** Configured name, or the channel type label (e.g. "Discord") */
+  name: string;
+  type: NotificationChannelType;
+  /** Where notifications go, with secrets masked */
+  target: string;
+  service: INotificationService;
+}
+
+/**
+ * Build the enabled channels of the `notifications` list, with the
+ * top-level `discord` webhook first when it is enabled
+ */
+export function createNotificationChannels(
+  config: Pick<Config, "discord" | "notifications">
+): NotificationChannel[] {
+  const configs: NotificationChannelConfig[] = [
+    ...(config.discord.enabled && config.discord.webhookUrl
+      ? [
+          {
+            type: "discord" as const,
+            enabled: true,
+            webhookUrl: config.discord.webhookUrl,
+          },
+        ]
+      : []),
+    ...config.notifications.filter((channel) => channel.enabled),
+  ];
+
+  return configs.map((channel) => {
+    const notifier = getNotifier(channel);
+    return {
+      name: channel.name ?? notifier.label,
+      type: channel.type,
+      target: notifier.describe(channel),
+      service: notifier.create(channel),
+    };
+  });
+}
+
+/**
+ * Notification service sending to every enabled channel
+ */
+export function createNotificationService(
+  config: Pick<Config, "discord" | "notifications">
+): CompositeNotificationService {
+  return new CompositeNotificationService(createNotificationChannels(config));
+}
+
+/**
+ * Sends each notification to several channels at once. A failing channel
+ * is logged and does not keep the others from being notified; sending only
+ * fails when every channel failed.
+ */
+export class CompositeNotificationService implements INotificationService {
+  private channels: NotificationChannel[];
+
+  constructor(channels: NotificationChannel[]) {
+    this.channels = channels;
+  }
+
+  async sendScoreMismatch(info: ScoreMismatchInfo): Promise<void> {
+    await this.broadcast("notification", (service) =>
+      service.sendScoreMismatch(info)
+    );
+  }
+
+  async sendBatchSummary(info: BatchSummaryInfo): Promise<void> {
+    await this.broadcast("batch summary", (service) =>
+      service.sendBatchSummary(info)
+    );
+  }
+
+  private async broadcast(
+    what: string,
+    send: (service: INotificationService) => Promise<void>
+  ): Promise<void> {
+    if (this.channels.length === 0) {
+      logger.debug(`No notification channel enabled, skipping ${what}`);
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      this.channels.map((channel) => send(channel.service))
+    );
+
+    let failures = 0;
+    for (const [index, result] of results.entries()) {
+      if (result.status === "rejected") {
+        failures++;
+        logger.error(
+          `[${this.channels[index]?.name ?? "unknown"}] Failed to send ${what}: ${formatError(result.reason)}`
+        );
+      }
+    }
+
+    if (failures === this.channels.length) {
+      throw new Error(`Failed to send ${what} on every channel`);
+    }
+  }
+}
+
+function getNotifier<T extends NotificationChannelConfig>(
+  config: T
+): Notifier<T> {
+  // The registry is keyed by type, TypeScript cannot correlate the two
+  return NOTIFIERS[config.type] as unknown as Notifier<T>;
+}
+
+/**
+ * Mask the token at the end of a webhook URL, e.g.
+ * /api/webhooks/{id}/{token} for Discord or /services/{team}/{bot}/{token}
+ * for Slack
+ */
+function maskWebhookUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const parts = parsed.pathname.split("/");
+    const token = parts[parts.length - 1];
+    if (token && token.length > 8) {
+      parts[parts.length - 1] = maskToken(token);
+      parsed.pathname = parts.join("/");
+      return parsed.toString();
+    }
+    return url;
+  } catch {
+    return "***";
+  }
+}
+
+/**
+ * Keep the first and last 4 characters of a token, e.g. "abcd...wxyz"
+ */
+function maskToken(token: string): string {
+  return token.length > 8 ? `${token.slice(0, 4)}...${token.slice(-4)}` : "***";
+}
@@ -0,0 +1,113 @@
+import type {
+  BatchSummaryInfo,
+  INotificationService,
+  NtfyChannelConfig,
+  ScoreMismatchInfo,
+  Severity,
+} from "../types/index.js";
+import { logger } from "../utils/index.js";
+import {
+  formatBatchSummaryMarkdown,
+  formatMediaTitle,
+  formatMismatchMarkdown,
+  getBatchSummaryTitle,
+  getMediaLink,
+  getMismatchLevel,
+  getMismatchTitle,
+} from "./notification-format.js";
+
+/** ntfy priorities, from 1 (min) to 5 (max) */
+const SEVERITY_PRIORITIES: Record<Severity, number> = {
+  ok: 2, // Low
+  minor: 3, // Default
+  major: 4, // High
+  critical: 5, // Max
+};
+
+interface NtfyErrorResponse {
+  error?: string;
+}
+
+/**
+ * Publishes notifications to an ntfy topic
+ */
+export class NtfyService implements INotificationService {
+  private serverUrl: string;
+  private topic: string;
+  private token: string | undefined;
+  private priority: number | undefined;
+  private tags: string[];
+  private clickUrl: string | undefined;
+
+  constructor(
+    config: Pick<
+      NtfyChannelConfig,
+      "url" | "token" | "priority" | "tags" | "clickUrl"
+    >
+  ) {
+    // JSON messages are published to the server root, with the topic in
+    // the body, so titles are not limited to ASCII as headers would be
+    const url = new URL(config.url);
+    const path = url.pathname.replace(/\/+$/, "");
+    this.topic = path.slice(path.lastIndexOf("/") + 1);
+    this.serverUrl = `${url.origin}${path.slice(0, path.lastIndexOf("/"))}`;
+    this.token = config.token;
+    this.priority = config.priority;
+    this.tags = config.tags;
+    this.clickUrl = config.clickUrl;
+  }
+
+  async sendScoreMismatch(info: ScoreMismatchInfo): Promise<void> {
+    const title = formatMediaTitle(info);
+    const click = this.clickUrl ?? getMediaLink(info);
+
+    await this.publish({
+      title: `${getMismatchTitle(info)}: ${title}`,
+      message: formatMismatchMarkdown(info),
+      priority: this.priority ?? SEVERITY_PRIORITIES[getMismatchLevel(info)],
+      ...(click && { click }),
+    });
+
+    logger.info(`ntfy notification sent for ${title}`);
+  }
+
+  async sendBatchSummary(info: BatchSummaryInfo): Promise<void> {
+    await this.publish({
+      title: getBatchSummaryTitle(info),
+      message: formatBatchSummaryMarkdown(info),
+      priority: this.priority ?? (info.failed > 0 ? 4 : 3),
+      ...(this.clickUrl && { click: this.clickUrl }),
+    });
+
+    logger.info("ntfy batch summary sent");
+  }
+
+  private async publish(message: Record<string, unknown>): Promise<void> {
+    const payload = {
+      topic: this.topic,
+      markdown: true,
+      ...(this.tags.length > 0 && { tags: this.tags }),
+      ...message,
+    };
+
+    logger.debug("Sending ntfy notification", payload);
+
+    const response = await fetch(this.serverUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const body = (await response
+        .json()
+        .catch(() => ({}))) as NtfyErrorResponse;
+      throw new Error(
+        `ntfy error: ${response.status} ${body.error ?? response.statusText}`
+      );
+    }
+  }
+}
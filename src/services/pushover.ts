@@ -0,0 +1,113 @@
+import type {
+  BatchSummaryInfo,
+  INotificationService,
+  PushoverChannelConfig,
+  ScoreMismatchInfo,
+  Severity,
+} from "../types/index.js";
+import { logger } from "../utils/index.js";
+import {
+  formatBatchSummaryHtml,
+  formatMediaTitle,
+  formatMismatchHtml,
+  getBatchSummaryTitle,
+  getMediaLink,
+  getMismatchLevel,
+  getMismatchTitle,
+} from "./notification-format.js";
+
+const PUSHOVER_API_URL = "https://api.pushover.net/1/messages.json";
+
+/** Pushover priorities: -1 is quiet, 1 bypasses the user's quiet hours */
+const SEVERITY_PRIORITIES: Record<Severity, number> = {
+  ok: -1,
+  minor: 0,
+  major: 1,
+  critical: 1,
+};
+
+interface PushoverResponse {
+  errors?: string[];
+}
+
+/**
+ * Pushes notifications through the Pushover API, as HTML messages
+ */
+export class PushoverService implements INotificationService {
+  private userKey: string;
+  private appToken: string;
+  private device: string | undefined;
+  private priority: number | undefined;
+
+  constructor(
+    config: Pick<
+      PushoverChannelConfig,
+      "userKey" | "appToken" | "device" | "priority"
+    >
+  ) {
+    this.userKey = config.userKey;
+    this.appToken = config.appToken;
+    this.device = config.device;
+    this.priority = config.priority;
+  }
+
+  async sendScoreMismatch(info: ScoreMismatchInfo): Promise<void> {
+    const title = formatMediaTitle(info);
+    const link = getMediaLink(info);
+
+    await this.push({
+      title: `${getMismatchTitle(info)}: ${title}`,
+      message: formatMismatchHtml(info),
+      priority: this.priority ?? SEVERITY_PRIORITIES[getMismatchLevel(info)],
+      ...(link && {
+        url: link,
+        url_title: info.movieId ? "Open in Radarr" : "Open in Sonarr",
+      }),
+    });
+
+    logger.info(`Pushover notification sent for ${title}`);
+  }
+
+  async sendBatchSummary(info: BatchSummaryInfo): Promise<void> {
+    await this.push({
+      title: getBatchSummaryTitle(info),
+      message: formatBatchSummaryHtml(info),
+      priority: this.priority ?? 0,
+    });
+
+    logger.info("Pushover batch summary sent");
+  }
+
+  private async push(message: Record<string, unknown>): Promise<void> {
+    const payload = {
+      token: this.appToken,
+      user: this.userKey,
+      ...(this.device && { device: this.device }),
+      html: 1,
+      ...message,
+    };
+
+    logger.debug("Sending Pushover notification", {
+      ...payload,
+      token: "***",
+      user: "***",
+    });
+
+    const response = await fetch(PUSHOVER_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const body = (await response
+        .json()
+        .catch(() => ({}))) as PushoverResponse;
+      throw new Error(
+        `Pushover API error: ${response.status} ${body.errors?.join(", ") ?? response.statusText}`
+      );
+    }
+  }
+}
@@ -1,30 +1,75 @@
 import { randomUUID } from "node:crypto";
-import type { Config, BatchConfig } from "../types/index.js";
-import type { RadarrMovie } from "../types/radarr.js";
+import type {
+  Config,
+  BatchConfig,
+  IHistoryStore,
+  INotificationService,
+  RadarrConfig,
+  SonarrConfig,
+} from "../types/index.js";
+import type { RadarrMovie, RadarrHistory } from "../types/radarr.js";
+import type { SonarrEpisode, SonarrHistory } from "../types/sonarr.js";
 import { RadarrService } from "./radarr.js";
-import { DiscordService } from "./discord.js";
+import { SonarrService } from "./sonarr.js";
+import { createNotificationService } from "./notifications.js";
 import { ItemProcessor } from "./item-processor.js";
+import type { IItemProcessor } from "./item-processor.js";
+import { EpisodeProcessor } from "./episode-processor.js";
 import { DownloadMonitor } from "./download-monitor.js";
-import { compareScores, logDryRunResult } from "./score.js";
+import { MovieTagBuffer } from "./tag-buffer.js";
+import {
+  applySeriesSuccessTag,
+  compareScores,
+  getMismatchTags,
+  getToleranceTarget,
+  logDryRunResult,
+  logPackDryRunResult,
+} from "./score.js";
 import {
   logger,
   createLogContext,
   findHistoryEvents,
+  formatEpisodeLabel,
+  formatInstanceLabel,
+  selectInstance,
   sleep,
   formatError,
 } from "../utils/index.js";
 
+export type BatchTarget = "radarr" | "sonarr";
+
 export interface QueueManagerOptions {
   dryRun?: boolean;
+  target?: BatchTarget;
+  /** Instance name, required when several instances are configured */
+  instance?: string | undefined;
+  /** Store every verification is recorded in */
+  history?: IHistoryStore | undefined;
+}
+
+/**
+ * Episodes of a series covered by a Sonarr queue item
+ */
+export interface EpisodeTarget {
+  seasonNumber: number;
+  episodeIds: number[];
+  label: string;
+  wholeSeason: boolean;
 }
 
 export interface QueueItem {
+  /** Radarr movie ID, or Sonarr series ID */
   id: number;
   title: string;
   year: number;
   hasFile: boolean;
+  /** Radarr quality profile and tag IDs, to resolve tolerance overrides */
+  qualityProfileId?: number | undefined;
+  tags?: number[] | undefined;
   status: "pending" | "searching" | "downloading" | "completed" | "failed";
-  grabbedEvent?: import("../types/radarr.js").RadarrHistory;
+  grabbedEvent?: RadarrHistory | SonarrHistory;
+  episodes?: EpisodeTarget;
+  mismatch?: boolean;
   initialHistoryIds: Set<number>;
   error?: string;
   startedAt?: Date;
@@ -37,44 +82,66 @@ export class QueueManager {
   private completedItems: QueueItem[] = [];
   private config: Config;
   private batchConfig: BatchConfig;
-  private radarr: RadarrService;
-  private discord: DiscordService;
+  private target: BatchTarget;
+  private instance: RadarrConfig | SonarrConfig;
+  private radarr: RadarrService | null = null;
+  private sonarr: SonarrService | null = null;
+  private notifications: INotificationService;
   private isRunning = false;
   private dryRun: boolean;
+  private history: IHistoryStore | undefined;
+  /** Pending movie tag changes, applied in groups during a Radarr run */
+  private tagBuffer: MovieTagBuffer | null = null;
+  /** Number of eligible items per series, including those cut by --limit */
+  private seriesItemCounts = new Map<number, number>();
   private abortController: AbortController | null = null;
   private batchStartTime = 0;
   private mismatchCount = 0;
 
   constructor(config: Config, options: QueueManagerOptions = {}) {
-    if (!config.radarr) {
-      throw new Error("Radarr configuration is required");
+    this.target = options.target ?? "radarr";
+
+    if (this.target === "sonarr") {
+      if (!config.sonarr) {
+        throw new Error("Sonarr configuration is required");
+      }
+      const instance = selectInstance(
+        config.sonarr,
+        "Sonarr",
+        options.instance
+      );
+      this.instance = instance;
+      this.sonarr = new SonarrService(instance);
+    } else {
+      if (!config.radarr) {
+        throw new Error("Radarr configuration is required");
+      }
+      const instance = selectInstance(
+        config.radarr,
+        "Radarr",
+        options.instance
+      );
+      this.instance = instance;
+      this.radarr = new RadarrService(instance);
     }
 
     this.config = config;
     this.batchConfig = config.batch;
-    this.radarr = new RadarrService(config.radarr);
-    this.discord = new DiscordService(config.discord);
+    this.notifications = createNotificationService(config);
     this.dryRun = options.dryRun ?? false;
+    this.history = options.history;
   }
 
   async loadMoviesWithoutTag(limit?: number): Promise<number> {
+    const radarr = this.getRadarr();
     logger.info("Loading movies without success tag...");
 
     const [movies, tags] = await Promise.all([
-      this.radarr.getMovies(),
-      this.radarr.getTags(),
+      radarr.getMovies(),
+      radarr.getTags(),
     ]);
 
-    const successTag = tags.find(
-      (t) => t.label.toLowerCase() === this.config.tag.successTag.toLowerCase()
-    );
-    const mismatchTag = tags.find(
-      (t) => t.label.toLowerCase() === this.config.tag.mismatchTag.toLowerCase()
-    );
-
-    const excludeTagIds = [successTag?.id, mismatchTag?.id].filter(
-      (id): id is number => id !== undefined
-    );
+    const excludeTagIds = this.findExcludedTagIds(tags);
 
     let eligibleMovies = movies.filter(
       (m) =>
@@ -97,8 +164,133 @@ export class QueueManager {
     return eligibleMovies.length;
   }
 
+  /**
+   * Queue aired, monitored episodes of monitored series without
+   * success/mismatch tag, one item per episode or per season
+   * depending on batch.sonarr.searchMode
+   */
+  async loadEpisodesWithoutTag(limit?: number): Promise<number> {
+    const sonarr = this.getSonarr();
+    logger.info("Loading series without success tag...");
+
+    const [series, tags] = await Promise.all([
+      sonarr.getSeries(),
+      sonarr.getTags(),
+    ]);
+
+    const excludeTagIds = this.findExcludedTagIds(tags);
+
+    const eligibleSeries = series.filter(
+      (s) =>
+        s.monitored && !s.tags.some((tagId) => excludeTagIds.includes(tagId))
+    );
+
+    const hasLimit = limit !== undefined && limit > 0;
+    if (hasLimit) {
+      logger.info(
+        `Limiting to ${limit} items (${eligibleSeries.length} eligible series)`
+      );
+    }
+
+    const now = Date.now();
+    let count = 0;
+
+    for (const s of eligibleSeries) {
+      if (hasLimit && count >= limit) break;
+
+      const [episodes, history] = await Promise.all([
+        sonarr.getEpisodes(s.id),
+        sonarr.getHistory(s.id),
+      ]);
+
+      const monitoredSeasons = new Set(
+        s.seasons
+          .filter((season) => season.monitored)
+          .map((x) => x.seasonNumber)
+      );
+      const eligibleEpisodes = episodes.filter(
+        (e) =>
+          e.monitored &&
+          monitoredSeasons.has(e.seasonNumber) &&
+          e.airDateUtc !== undefined &&
+          Date.parse(e.airDateUtc) <= now
+      );
+
+      const targets = this.buildEpisodeTargets(eligibleEpisodes);
+      this.seriesItemCounts.set(s.id, targets.length);
+
+      for (const target of targets) {
+        if (hasLimit && count >= limit) break;
+
+        this.searchQueue.push({
+          id: s.id,
+          title: `${s.title} ${target.label}`,
+          year: s.year,
+          hasFile: eligibleEpisodes
+            .filter((e) => target.episodeIds.includes(e.id))
+            .every((e) => e.hasFile),
+          status: "pending",
+          episodes: target,
+          initialHistoryIds: new Set(history.map((h) => h.id)),
+          correlationId: randomUUID().slice(0, 8),
+        });
+        count++;
+        logger.debug(`Added ${s.title} ${target.label} to search queue`);
+      }
+    }
+
+    logger.info(`Processing ${count} items`);
+
+    return count;
+  }
+
+  private buildEpisodeTargets(episodes: SonarrEpisode[]): EpisodeTarget[] {
+    const sorted = [...episodes].sort(
+      (a, b) =>
+        a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber
+    );
+
+    if (this.batchConfig.sonarr.searchMode === "episode") {
+      return sorted.map((e) => ({
+        seasonNumber: e.seasonNumber,
+        episodeIds: [e.id],
+        label: formatEpisodeLabel(e.seasonNumber, [e.episodeNumber]),
+        wholeSeason: false,
+      }));
+    }
+
+    const seasons = new Map<number, SonarrEpisode[]>();
+    for (const episode of sorted) {
+      const seasonEpisodes = seasons.get(episode.seasonNumber) ?? [];
+      seasonEpisodes.push(episode);
+      seasons.set(episode.seasonNumber, seasonEpisodes);
+    }
+
+    return [...seasons].map(([seasonNumber, seasonEpisodes]) => ({
+      seasonNumber,
+      episodeIds: seasonEpisodes.map((e) => e.id),
+      label: formatEpisodeLabel(seasonNumber, []),
+      wholeSeason: true,
+    }));
+  }
+
+  private findExcludedTagIds(tags: { id: number; label: string }[]): number[] {
+    const { successTag, downgradeTag } = this.config.tag;
+    const labels = new Set(
+      [
+        successTag,
+        downgradeTag,
+        ...getMismatchTags(this.config.tag, this.config.severity),
+      ].map((l) => l.toLowerCase())
+    );
+
+    return tags
+      .filter((t) => labels.has(t.label.toLowerCase()))
+      .map((t) => t.id);
+  }
+
   private async addToSearchQueue(movie: RadarrMovie): Promise<void> {
-    const history = await this.radarr.getHistory(movie.id);
+    const history = await this.getRadarr().getHistory(movie.id);
     const initialHistoryIds = new Set(history.map((h) => h.id));
 
     const item: QueueItem = {
@@ -106,6 +298,8 @@ export class QueueManager {
       title: movie.title,
       year: movie.year,
       hasFile: movie.hasFile,
+      qualityProfileId: movie.qualityProfileId,
+      tags: movie.tags,
       status: "pending",
       initialHistoryIds,
       correlationId: randomUUID().slice(0, 8),
@@ -125,17 +319,36 @@ export class QueueManager {
     this.abortController = new AbortController();
     this.batchStartTime = Date.now();
     this.mismatchCount = 0;
-    logger.info("Starting queue manager...");
+    logger.info(
+      `Starting queue manager for ${formatInstanceLabel(this.target === "sonarr" ? "Sonarr" : "Radarr", this.instance)}...`
+    );
 
     try {
       if (this.dryRun) {
-        await this.runDryMode();
+        if (this.target === "sonarr") {
+          await this.runSonarrDryMode(this.createEpisodeProcessor());
+        } else {
+          await this.runDryMode();
+        }
       } else {
-        const processor = new ItemProcessor({
-          mediaService: this.radarr,
-          notificationService: this.discord,
-          config: this.config,
-        });
+        if (this.target === "radarr") {
+          this.tagBuffer = new MovieTagBuffer(
+            this.getRadarr(),
+            this.batchConfig.tagBatchSize
+          );
+        }
+
+        const processor: IItemProcessor =
+          this.target === "sonarr"
+            ? this.createEpisodeProcessor()
+            : new ItemProcessor({
+                mediaService: this.getRadarr(),
+                notificationService: this.notifications,
+                config: this.config,
+                instance: this.instance,
+                history: this.history,
+                tagBuffer: this.tagBuffer ?? undefined,
+              });
 
         const monitor = new DownloadMonitor(
           this.downloadQueue,
@@ -143,6 +356,7 @@ export class QueueManager {
           this.batchConfig,
           {
             onCompleted: (item, mismatch) => {
+              item.mismatch = mismatch;
               if (mismatch) this.mismatchCount++;
               this.completeItem(item);
             },
@@ -162,25 +376,59 @@ export class QueueManager {
 
         monitor.stop();
         await monitorPromise;
+
+        await this.flushTags();
+
+        if (this.target === "sonarr") {
+          await this.tagPassedSeries();
+        }
       }
 
       logger.info("Queue manager finished");
       this.printSummary();
       await this.sendBatchSummaryNotification();
     } finally {
+      // Tags of the movies verified before a failure are still applied
+      await this.flushTags();
+      this.tagBuffer = null;
       this.isRunning = false;
       this.abortController = null;
       this.completedItems = [];
     }
   }
 
+  private async flushTags(): Promise<void> {
+    if (!this.tagBuffer || this.tagBuffer.size === 0) {
+      return;
+    }
+
+    const count = this.tagBuffer.size;
+    try {
+      await this.tagBuffer.flush();
+      logger.info(`Applied pending tags to ${count} movie(s)`);
+    } catch (error) {
+      logger.error(`Failed to apply pending tags: ${formatError(error)}`);
+    }
+  }
+
+  private createEpisodeProcessor(): EpisodeProcessor {
+    return new EpisodeProcessor({
+      seriesService: this.getSonarr(),
+      notificationService: this.notifications,
+      config: this.config,
+      instance: this.instance,
+      history: this.history,
+    });
+  }
+
   private async runDryMode(): Promise<void> {
     logger.info("[DRY-RUN] Analyzing movies from search queue...");
+    const radarr = this.getRadarr();
 
     for (const item of this.searchQueue) {
       logger.info(`[DRY-RUN] Processing: ${item.title} (${item.year})`);
 
-      const history = await this.radarr.getHistory(item.id);
+      const history = await radarr.getHistory(item.id);
       const { grabbed } = findHistoryEvents(history);
 
       if (!grabbed) {
@@ -197,7 +445,7 @@ export class QueueManager {
         continue;
       }
 
-      const movieFile = await this.radarr.getMovieFile(item.id);
+      const movieFile = await radarr.getMovieFile(item.id);
 
       if (!movieFile) {
         logger.info(`[DRY-RUN]   Could not get movie file info`);
@@ -208,14 +456,52 @@ export class QueueManager {
       const comparison = compareScores(
         grabbed.customFormatScore,
         movieFile.customFormatScore,
-        this.config.quality
+        this.config.quality,
+        await getToleranceTarget(radarr, item, this.config.quality)
       );
 
       logger.info(`[DRY-RUN]   Grabbed score: ${comparison.expectedScore}`);
       logger.info(`[DRY-RUN]   Current file score: ${comparison.actualScore}`);
       logger.info(`[DRY-RUN]   Difference: ${comparison.difference}`);
 
-      logDryRunResult(comparison, this.config.tag);
+      logDryRunResult(comparison, this.config.tag, this.config.severity);
+
+      this.completeItem(item);
+    }
+
+    this.searchQueue = [];
+  }
+
+  private async runSonarrDryMode(processor: EpisodeProcessor): Promise<void> {
+    logger.info("[DRY-RUN] Analyzing episodes from search queue...");
+
+    for (const item of this.searchQueue) {
+      logger.info(`[DRY-RUN] Processing: ${item.title} (${item.year})`);
+
+      if (!item.hasFile) {
+        logger.info(`[DRY-RUN]   Not every episode has a file yet`);
+        logger.info(`[DRY-RUN]   Would trigger search and wait for download`);
+        this.completeItem(item);
+        continue;
+      }
+
+      let pack;
+      try {
+        pack = await processor.compareWithLastGrabs(item);
+      } catch (error) {
+        logger.info(`[DRY-RUN]   ${formatError(error)}`);
+        this.completeItem(item);
+        continue;
+      }
+
+      if (!pack) {
+        logger.info(`[DRY-RUN]   No grabbed event found in history`);
+        logger.info(`[DRY-RUN]   Would trigger search and wait for download`);
+        this.completeItem(item);
+        continue;
+      }
+
+      logPackDryRunResult(pack, this.config.tag, this.config.severity);
 
       this.completeItem(item);
     }
@@ -223,7 +509,43 @@ export class QueueManager {
     this.searchQueue = [];
   }
 
-  private async processSearchQueue(processor: ItemProcessor): Promise<void> {
+  /**
+   * Tag series whose every eligible item was processed without mismatch.
+   * A series left partly unprocessed (by --limit, a timeout or a shutdown)
+   * stays untagged, so the next run queues it again.
+   */
+  private async tagPassedSeries(): Promise<void> {
+    if (!this.config.tag.enabled) {
+      return;
+    }
+
+    const sonarr = this.getSonarr();
+    const itemsBySeries = new Map<number, QueueItem[]>();
+    for (const item of this.completedItems) {
+      const items = itemsBySeries.get(item.id) ?? [];
+      items.push(item);
+      itemsBySeries.set(item.id, items);
+    }
+
+    for (const [seriesId, items] of itemsBySeries) {
+      const allPassed =
+        items.length === this.seriesItemCounts.get(seriesId) &&
+        items.every((i) => i.status === "completed" && i.mismatch !== true);
+      if (!allPassed) continue;
+
+      try {
+        await applySeriesSuccessTag(
+          seriesId,
+          { tagConfig: this.config.tag, severity: this.config.severity },
+          sonarr
+        );
+      } catch (error) {
+        logger.error(`Failed to tag series ${seriesId}: ${formatError(error)}`);
+      }
+    }
+  }
+
+  private async processSearchQueue(processor: IItemProcessor): Promise<void> {
     while (
       this.searchQueue.length > 0 &&
       this.isRunning &&
@@ -255,6 +577,7 @@ export class QueueManager {
           // No new grab - compare with existing history
           try {
             const { mismatch } = await processor.handleNoGrab(item, logContext);
+            item.mismatch = mismatch;
             if (mismatch) this.mismatchCount++;
           } catch (error) {
             const errorMsg = formatError(error);
@@ -335,13 +658,14 @@ export class QueueManager {
       .map((i) => ({ title: i.title, error: i.error ?? "Unknown error" }));
 
     try {
-      await this.discord.sendBatchSummary({
+      await this.notifications.sendBatchSummary({
         totalProcessed: this.completedItems.length,
         completed,
         failed,
         mismatches: this.mismatchCount,
         durationMs: Date.now() - this.batchStartTime,
         failedItems,
+        instance: this.instance.name,
       });
     } catch (error) {
       logger.error(
@@ -361,6 +685,20 @@ export class QueueManager {
     this.completedItems.push(item);
   }
 
+  private getRadarr(): RadarrService {
+    if (!this.radarr) {
+      throw new Error("Radarr configuration is required");
+    }
+    return this.radarr;
+  }
+
+  private getSonarr(): SonarrService {
+    if (!this.sonarr) {
+      throw new Error("Sonarr configuration is required");
+    }
+    return this.sonarr;
+  }
+
   private isShuttingDown(): boolean {
     return this.abortController?.signal.aborted ?? false;
   }
@@ -1,16 +1,18 @@
-import type { z } from "zod/v4";
 import type {
   RadarrConfig,
-  ApiConfig,
   RadarrMovie,
   RadarrMovieFile,
   RadarrQueueItem,
   RadarrRelease,
   RadarrHistory,
   RadarrTag,
+  RadarrQualityProfile,
+  RadarrCustomFormat,
   RadarrCommand,
   RadarrSystemStatus,
-  IMediaService,
+  RadarrDownloadClientConfig,
+  IMovieService,
+  TagApplyMode,
 } from "../types/index.js";
 import {
   radarrMovieSchema,
@@ -19,204 +21,18 @@ import {
   radarrReleaseSchema,
   radarrHistorySchema,
   radarrTagSchema,
+  radarrQualityProfileSchema,
+  radarrCustomFormatSchema,
   radarrCommandSchema,
   radarrSystemStatusSchema,
+  radarrDownloadClientConfigSchema,
 } from "../types/radarr.js";
-import { logger, sleep, formatError } from "../utils/index.js";
-
-class RetryableError extends Error {
-  constructor(
-    message: string,
-    public retryAfterMs?: number
-  ) {
-    super(message);
-    this.name = "RetryableError";
-  }
-}
-
-export class RadarrService implements IMediaService {
-  private baseUrl: string;
-  private apiKey: string;
-  private apiConfig: ApiConfig;
+import { ArrClient } from "./arr-client.js";
+import { logger, sleep } from "../utils/index.js";
 
+export class RadarrService extends ArrClient implements IMovieService {
   constructor(config: RadarrConfig) {
-    this.baseUrl = config.url.replace(/\/$/, "");
-    this.apiKey = config.apiKey;
-    this.apiConfig = config.api;
-  }
-
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.baseUrl}/api/v3${endpoint}`;
-    const headers: Record<string, string> = {
-      "X-Api-Key": this.apiKey,
-      "Content-Type": "application/json",
-    };
-    if (
-      options.headers &&
-      typeof options.headers === "object" &&
-      !Array.isArray(options.headers)
-    ) {
-      Object.assign(headers, options.headers);
-    }
-
-    logger.debug(`Radarr API request: ${options.method ?? "GET"} ${endpoint}`);
-
-    return this.requestWithRetry<T>(url, { ...options, headers }, endpoint);
-  }
-
-  private async requestWithRetry<T>(
-    url: string,
-    options: RequestInit,
-    endpoint: string
-  ): Promise<T> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= this.apiConfig.retryAttempts; attempt++) {
-      if (attempt > 0) {
-        const delay = this.calculateRetryDelay(attempt);
-        logger.debug(
-          `Retry attempt ${attempt} after ${delay}ms for ${endpoint}`
-        );
-        await sleep(delay);
-      }
-
-      try {
-        return await this.executeRequest<T>(url, options, endpoint);
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-
-        if (!this.isRetryableError(lastError)) {
-          throw lastError;
-        }
-
-        logger.debug(
-          `Request failed (attempt ${attempt + 1}): ${lastError.message}`
-        );
-      }
-    }
-
-    throw (
-      lastError ??
-      new Error(`Request failed after ${this.apiConfig.retryAttempts} retries`)
-    );
-  }
-
-  private async executeRequest<T>(
-    url: string,
-    options: RequestInit,
-    endpoint: string
-  ): Promise<T> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, this.apiConfig.timeoutMs);
-
-    let response: Response;
-    try {
-      response = await fetch(url, { ...options, signal: controller.signal });
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(
-          `Radarr API timeout after ${this.apiConfig.timeoutMs}ms (${endpoint})`
-        );
-      }
-      throw new Error(
-        `Radarr API connection failed (${endpoint}): ${formatError(error)}`
-      );
-    } finally {
-      clearTimeout(timeoutId);
-    }
-
-    if (response.status === 429) {
-      const retryAfter = response.headers.get("Retry-After");
-      const delay = retryAfter
-        ? parseInt(retryAfter, 10) * 1000
-        : this.apiConfig.retryDelayMs;
-      throw new RetryableError(
-        `Rate limited (429), retry after ${delay}ms`,
-        delay
-      );
-    }
-
-    if (!response.ok) {
-      const isRetryable = response.status >= 500 || response.status === 408;
-      if (isRetryable) {
-        throw new RetryableError(
-          `Radarr API error: ${response.status} ${response.statusText} (${endpoint})`
-        );
-      }
-      throw new Error(
-        `Radarr API error: ${response.status} ${response.statusText} (${endpoint})`
-      );
-    }
-
-    return response.json() as Promise<T>;
-  }
-
-  private validateResponse<T>(
-    data: unknown,
-    schema: z.ZodType<T>,
-    endpoint: string
-  ): T {
-    const result = schema.safeParse(data);
-    if (!result.success) {
-      logger.debug(`Validation error for ${endpoint}: ${result.error.message}`);
-      throw new Error(
-        `Invalid API response from ${endpoint}: ${result.error.message}`
-      );
-    }
-    return result.data;
-  }
-
-  private validateArrayResponse<T>(
-    data: unknown,
-    schema: z.ZodType<T>,
-    endpoint: string
-  ): T[] {
-    if (!Array.isArray(data)) {
-      throw new Error(`Expected array response from ${endpoint}`);
-    }
-    return data.map((item, index) => {
-      const result = schema.safeParse(item);
-      if (!result.success) {
-        logger.debug(
-          `Validation error for ${endpoint}[${index}]: ${result.error.message}`
-        );
-        throw new Error(
-          `Invalid API response from ${endpoint}[${index}]: ${result.error.message}`
-        );
-      }
-      return result.data;
-    });
-  }
-
-  private calculateRetryDelay(attempt: number): number {
-    // Exponential backoff: delay * 2^(attempt-1)
-    return Math.min(
-      this.apiConfig.retryDelayMs * Math.pow(2, attempt - 1),
-      30000 // Max 30 seconds
-    );
-  }
-
-  private isRetryableError(error: Error): boolean {
-    return error instanceof RetryableError;
-  }
-
-  private buildEndpoint(
-    path: string,
-    params?: Record<string, string | number | boolean>
-  ): string {
-    if (!params || Object.keys(params).length === 0) {
-      return path;
-    }
-    const searchParams = new URLSearchParams();
-    for (const [key, value] of Object.entries(params)) {
-      searchParams.append(key, String(value));
-    }
-    return `${path}?${searchParams.toString()}`;
+    super("Radarr", config);
   }
 
   async getSystemStatus(): Promise<RadarrSystemStatus> {
@@ -313,6 +129,30 @@ export class RadarrService implements IMediaService {
     return this.validateArrayResponse(data, radarrTagSchema, "/tag");
   }
 
+  async getQualityProfiles(): Promise<RadarrQualityProfile[]> {
+    const data = await this.request<unknown>("/qualityprofile");
+    return this.validateArrayResponse(
+      data,
+      radarrQualityProfileSchema,
+      "/qualityprofile"
+    );
+  }
+
+  async getQualityProfile(id: number): Promise<RadarrQualityProfile> {
+    const endpoint = `/qualityprofile/${id}`;
+    const data = await this.request<unknown>(endpoint);
+    return this.validateResponse(data, radarrQualityProfileSchema, endpoint);
+  }
+
+  async getCustomFormats(): Promise<RadarrCustomFormat[]> {
+    const data = await this.request<unknown>("/customformat");
+    return this.validateArrayResponse(
+      data,
+      radarrCustomFormatSchema,
+      "/customformat"
+    );
+  }
+
   async createTag(label: string): Promise<RadarrTag> {
     const data = await this.request<unknown>("/tag", {
       method: "POST",
@@ -338,6 +178,79 @@ export class RadarrService implements IMediaService {
     return this.validateResponse(data, radarrMovieSchema, endpoint);
   }
 
+  /**
+   * Swap tags in a single editor update: remove `removeTagIds` and add
+   * `tagId`, so the movie never carries both
+   */
+  async replaceMovieTag(
+    movie: RadarrMovie,
+    removeTagIds: number[],
+    tagId: number
+  ): Promise<RadarrMovie> {
+    const tags = [
+      ...movie.tags.filter((t) => t !== tagId && !removeTagIds.includes(t)),
+      tagId,
+    ];
+
+    if (movie.tags.includes(tagId) && tags.length === movie.tags.length) {
+      logger.debug(`Movie ${movie.title} already has only tag ${tagId}`);
+      return movie;
+    }
+
+    // Through the editor: a full movie update would send back only the
+    // fields the schema models, dropping the others
+    await this.editMovieTags([movie.id], tags, "replace");
+    return { ...movie, tags };
+  }
+
+  /**
+   * Add, remove or replace tags of several movies in one request through
+   * the movie editor, instead of a full movie update per movie
+   */
+  async editMovieTags(
+    movieIds: number[],
+    tagIds: number[],
+    applyTags: TagApplyMode
+  ): Promise<void> {
+    if (movieIds.length === 0) {
+      return;
+    }
+
+    await this.request<unknown>("/movie/editor", {
+      method: "PUT",
+      body: JSON.stringify({ movieIds, tags: tagIds, applyTags }),
+    });
+  }
+
+  async deleteMovieFile(movieFileId: number): Promise<void> {
+    await this.request<unknown>(`/moviefile/${movieFileId}`, {
+      method: "DELETE",
+    });
+  }
+
+  /**
+   * Mark a grabbed release as failed, which blocklists it
+   */
+  async markHistoryFailed(historyId: number): Promise<void> {
+    await this.request<unknown>(`/history/failed/${historyId}`, {
+      method: "POST",
+    });
+  }
+
+  /**
+   * Download client settings, including whether Radarr searches again by
+   * itself when a release is marked as failed ("Redownload Failed")
+   */
+  async getDownloadClientConfig(): Promise<RadarrDownloadClientConfig> {
+    const endpoint = "/config/downloadclient";
+    const data = await this.request<unknown>(endpoint);
+    return this.validateResponse(
+      data,
+      radarrDownloadClientConfigSchema,
+      endpoint
+    );
+  }
+
   async getOrCreateTag(label: string): Promise<RadarrTag> {
     const tags = await this.getTags();
     const existing = tags.find(
@@ -0,0 +1,114 @@
+import type { OnMismatchAction, OnMismatchConfig } from "../types/config.js";
+import type { MovieInfo, ScoreResultServices } from "../types/score.js";
+import { logger, HISTORY_EVENT_TYPES } from "../utils/index.js";
+
+type RemediationServices = Pick<
+  ScoreResultServices,
+  "history" | "instanceName"
+> & {
+  radarr: NonNullable<ScoreResultServices["radarr"]>;
+};
+
+/**
+ * Apply the onMismatch action to a mismatched movie: mark the grab as
+ * failed (which blocklists the release), optionally delete the file, and
+ * search the movie again.
+ *
+ * Marking a grab as failed already makes Radarr search again when its
+ * "Redownload Failed" setting is on, so the search is only started here
+ * when that setting is off (see searchAfterBlocklist).
+ *
+ * @returns The action actually taken: "tag-only" when the attempts are
+ * exhausted or the grab is unknown
+ */
+export async function applyMismatchAction(
+  movie: MovieInfo,
+  grabId: number | undefined,
+  config: OnMismatchConfig,
+  services: RemediationServices
+): Promise<OnMismatchAction> {
+  if (config.action === "tag-only") {
+    return "tag-only";
+  }
+
+  if (grabId === undefined) {
+    logger.warn("Grabbed release is unknown, cannot blocklist it");
+    return "tag-only";
+  }
+
+  const { radarr } = services;
+  const attempts = await countAttempts(movie, services);
+
+  if (attempts >= config.maxAttempts) {
+    logger.warn(
+      `Reached ${config.maxAttempts} attempt(s) for ${movie.title}, leaving the mismatch for review`
+    );
+    return "tag-only";
+  }
+
+  await radarr.markHistoryFailed(grabId);
+  logger.info(
+    `Blocklisted grabbed release (attempt ${attempts + 1}/${config.maxAttempts})`
+  );
+
+  if (config.action === "delete-and-research") {
+    const movieFile = await radarr.getMovieFile(movie.id);
+    if (movieFile) {
+      await radarr.deleteMovieFile(movieFile.id);
+      logger.info(`Deleted movie file ${movieFile.id}`);
+    }
+  }
+
+  const command = await searchAfterBlocklist(radarr, movie.id);
+  logger.info(
+    command
+      ? `Search started (ID: ${command.id})`
+      : "Radarr searches again itself (Redownload Failed is on)"
+  );
+
+  return config.action;
+}
+
+/**
+ * Search a movie again after blocklisting its release, unless Radarr's
+ * "Redownload Failed" setting already made Radarr search it
+ *
+ * @returns The search command, or null when Radarr searches itself
+ */
+export async function searchAfterBlocklist(
+  radarr: Pick<
+    RemediationServices["radarr"],
+    "getDownloadClientConfig" | "searchMovie"
+  >,
+  movieId: number
+): Promise<{ id: number } | null> {
+  const { autoRedownloadFailed } = await radarr.getDownloadClientConfig();
+  return autoRedownloadFailed ? null : radarr.searchMovie(movieId);
+}
+
+/**
+ * Count the releases qualitarr already blocklisted for the movie.
+ *
+ * The verification history records every action taken, so only qualitarr's
+ * own attempts count. Without it, every "downloadFailed" event in the
+ * movie's Radarr history counts, including genuine download failures and
+ * manual blocklisting: attempts may run out early, but never loop forever.
+ */
+async function countAttempts(
+  movie: MovieInfo,
+  services: RemediationServices
+): Promise<number> {
+  if (services.history) {
+    return services.history
+      .list({
+        media: { type: "movie", id: movie.id },
+        instance: services.instanceName,
+      })
+      .filter((v) => v.mismatchAction && v.mismatchAction !== "tag-only")
+      .length;
+  }
+
+  const history = await services.radarr.getHistory(movie.id);
+  return history.filter((h) => h.eventType === HISTORY_EVENT_TYPES.FAILED)
+    .length;
+}
@@ -1,11 +1,35 @@
-import type { TagConfig, QualityConfig } from "../types/config.js";
 import type {
+  TagConfig,
+  QualityConfig,
+  ToleranceOverride,
+  ToleranceSettings,
+  ToleranceTier,
+  OnMismatchAction,
+  OnMismatchConfig,
+  Severity,
+  SeverityConfig,
+  SeverityPolicy,
+} from "../types/config.js";
+import type { RadarrQuality } from "../types/radarr.js";
+import type { IMovieService } from "../types/services.js";
+import type {
+  CustomFormatDiff,
+  MismatchKind,
+  QualityAspect,
+  QualityComparisonResult,
   ScoreComparisonInput,
   ScoreComparisonResult,
   ScoreResultContext,
   ScoreResultServices,
+  SeriesInfo,
+  ToleranceTarget,
+  VerificationSource,
+  EpisodeFileComparison,
+  PackComparisonResult,
+  ProfileDriftResult,
 } from "../types/score.js";
 import { logger, formatError } from "../utils/index.js";
+import { applyMismatchAction } from "./remediation.js";
 
 /**
  * Calculate score comparison between expected (grabbed) and actual (current file) scores
@@ -41,6 +65,10 @@ export function calculateScoreComparison(
 export interface HandleScoreResultConfig {
   tagConfig: TagConfig;
   qualityConfig: QualityConfig;
+  /** Action on a mismatched movie; only tag and notify when omitted */
+  onMismatch?: OnMismatchConfig | undefined;
+  /** Tag, notification and action per severity; every mismatch is handled alike when omitted */
+  severity?: SeverityConfig | undefined;
 }
 
 /**
@@ -49,95 +77,855 @@ export interface HandleScoreResultConfig {
 export interface HandleScoreResultOutput {
   tagApplied: string | null;
   notificationSent: boolean;
+  /** Action taken on a mismatched movie, when onMismatch is configured */
+  mismatchAction?: OnMismatchAction | undefined;
+  /** Kind of mismatch, absent when the verification passed */
+  mismatchKind?: MismatchKind | undefined;
+  /** Severity of the score deviation, when severities are configured; absent on a quality mismatch */
+  severity?: Severity | undefined;
+}
+
+/**
+ * Apply a tag to the media item the result belongs to (the movie in Radarr,
+ * or the series in Sonarr), replacing the `replaced` tags in the same update.
+ * The tag and the replaced ones are resolved from a single tag list.
+ */
+async function applyTag(
+  context: ScoreResultContext,
+  services: ScoreResultServices,
+  label: string,
+  replaced: string[]
+): Promise<void> {
+  if (context.series) {
+    if (!services.sonarr) {
+      throw new Error("Sonarr service is required to tag a series");
+    }
+    const tags = await services.sonarr.getTags();
+    const tagId = await resolveTagId(tags, label, services.sonarr);
+    const fullSeries = await services.sonarr.getSeriesById(context.series.id);
+    await services.sonarr.replaceSeriesTag(
+      fullSeries,
+      findTagIds(tags, replaced),
+      tagId
+    );
+    return;
+  }
+
+  if (!context.movie || !services.radarr) {
+    throw new Error("Radarr service and movie are required to tag a movie");
+  }
+  const tags = await services.radarr.getTags();
+  const tagId = await resolveTagId(tags, label, services.radarr);
+  const fullMovie = await services.radarr.getMovie(context.movie.id);
+  await services.radarr.replaceMovieTag(
+    fullMovie,
+    findTagIds(tags, replaced),
+    tagId
+  );
+}
+
+/**
+ * Apply the success tag to a series whose every episode passed, removing
+ * its mismatch and downgrade tags
+ */
+export async function applySeriesSuccessTag(
+  seriesId: number,
+  config: Pick<HandleScoreResultConfig, "tagConfig" | "severity">,
+  sonarr: NonNullable<ScoreResultServices["sonarr"]>
+): Promise<void> {
+  const { tagConfig } = config;
+  const tags = await sonarr.getTags();
+  const tagId = await resolveTagId(tags, tagConfig.successTag, sonarr);
+  const series = await sonarr.getSeriesById(seriesId);
+  await sonarr.replaceSeriesTag(
+    series,
+    findTagIds(tags, [
+      ...getMismatchTags(tagConfig, config.severity),
+      tagConfig.downgradeTag,
+    ]),
+    tagId
+  );
+  logger.info(
+    `[${series.title}] All episodes passed, applied success tag: ${tagConfig.successTag}`
+  );
+}
+
+/**
+ * ID of the tag `label` among `tags`, created when missing
+ */
+async function resolveTagId(
+  tags: { id: number; label: string }[],
+  label: string,
+  service: { createTag(label: string): Promise<{ id: number }> }
+): Promise<number> {
+  const [existing] = findTagIds(tags, [label]);
+  if (existing !== undefined) {
+    return existing;
+  }
+  logger.info(`Creating tag: ${label}`);
+  return (await service.createTag(label)).id;
+}
+
+/**
+ * IDs of the existing tags matching `labels` (case-insensitive, like the
+ * *arr APIs). Missing tags are not created: there is nothing to remove.
+ */
+function findTagIds(
+  tags: { id: number; label: string }[],
+  labels: string[]
+): number[] {
+  const wanted = new Set(labels.map((l) => l.toLowerCase()));
+  return tags.filter((t) => wanted.has(t.label.toLowerCase())).map((t) => t.id);
 }
 
 /**
  * Handle the result of a score comparison:
- * - Apply appropriate tag (success or mismatch)
- * - Send Discord notification for mismatches
+ * - Apply appropriate tag (success, mismatch or downgrade) to the movie or
+ *   series, removing the others. A series only gets its success tag from
+ *   batch, once every episode of it passed (see applySeriesSuccessTag)
+ * - Send a notification for mismatches
+ * - Apply the onMismatch action to mismatched movies
+ *
+ * The severity of a score mismatch can swap its tag, silence its notification
+ * or change its action. A score mismatch takes precedence: a quality downgrade is only reported on
+ * its own when the score is acceptable, and is then only tagged and notified.
  */
 export async function handleScoreResult(
   context: ScoreResultContext,
   config: HandleScoreResultConfig,
   services: ScoreResultServices
 ): Promise<HandleScoreResultOutput> {
-  const { movie, quality, comparison } = context;
-  const { tagConfig, qualityConfig } = config;
-  const { radarr, discord } = services;
+  const { movie, series, comparison } = context;
+  const { tagConfig } = config;
+  const onInstance = services.instanceName
+    ? ` on ${services.instanceName}`
+    : "";
+
+  const media = series ?? movie;
+  if (!media) {
+    throw new Error("Score result context requires a movie or a series");
+  }
 
   const output: HandleScoreResultOutput = {
     tagApplied: null,
     notificationSent: false,
   };
 
-  // Fetch full movie object for tagging
-  const fullMovie = await radarr.getMovie(movie.id);
+  const qualityDowngrade = formatQualityDowngrade(context.qualityComparison);
+  const mismatchKind: MismatchKind | null = !comparison.isAcceptable
+    ? "score"
+    : qualityDowngrade
+      ? "quality"
+      : null;
+  output.mismatchKind = mismatchKind ?? undefined;
 
-  if (comparison.isAcceptable) {
+  // Severities grade the score deviation: a quality mismatch has none
+  const severity =
+    config.severity && mismatchKind !== "quality"
+      ? classifySeverity(comparison, config.severity)
+      : undefined;
+  output.severity = severity;
+  const policy = getSeverityPolicy(severity, config.severity);
+  const mismatchTags = getMismatchTags(tagConfig, config.severity);
+
+  if (mismatchKind === null) {
     // Score is acceptable - apply success tag
     logger.info("Score is acceptable");
-    if (tagConfig.enabled) {
-      const tag = await radarr.getOrCreateTag(tagConfig.successTag);
-      await radarr.addTagToMovie(fullMovie, tag.id);
+    if (tagConfig.enabled && series) {
+      // Another episode of the series may still mismatch: batch tags the
+      // series once every episode of it passes
+      logger.info("Series success tag left to batch");
+    } else if (tagConfig.enabled) {
+      await applyTag(context, services, tagConfig.successTag, [
+        ...mismatchTags,
+        tagConfig.downgradeTag,
+      ]);
       output.tagApplied = tagConfig.successTag;
-      logger.info(`Applied success tag: ${tagConfig.successTag}`);
+      logger.info(`Applied success tag: ${tagConfig.successTag}${onInstance}`);
     }
   } else {
-    // Mismatch - apply mismatch tag and notify
-    logger.warn("Score mismatch detected");
+    // Mismatch - apply mismatch (or downgrade) tag and notify
+    logger.warn(
+      mismatchKind === "score"
+        ? `Score mismatch detected${severity ? ` (${severity})` : ""}`
+        : "Quality mismatch detected"
+    );
+    if (qualityDowngrade) {
+      logger.info(`Quality downgrade ${qualityDowngrade}`);
+    }
+    const customFormats = formatCustomFormatDiff(context.customFormatDiff);
+    if (customFormats) {
+      logger.info(`Custom formats ${customFormats}`);
+    }
+    const profileDrift = formatProfileDrift(context.profileDrift);
+    const isDriftOnly = context.profileDrift?.isDriftOnly === true;
+    if (isDriftOnly) {
+      logger.warn(
+        `Mismatch comes from quality profile changes, not the release: ${profileDrift}`
+      );
+    } else if (profileDrift) {
+      logger.info(`Profile drift: ${profileDrift}`);
+    }
     if (tagConfig.enabled) {
-      const tag = await radarr.getOrCreateTag(tagConfig.mismatchTag);
-      await radarr.addTagToMovie(fullMovie, tag.id);
-      output.tagApplied = tagConfig.mismatchTag;
-      logger.info(`Applied mismatch tag: ${tagConfig.mismatchTag}`);
+      const label =
+        mismatchKind === "score"
+          ? (policy?.tag ?? tagConfig.mismatchTag)
+          : tagConfig.downgradeTag;
+      // A series keeps the tags of its other episodes
+      const replaced = series
+        ? [tagConfig.successTag]
+        : [
+            tagConfig.successTag,
+            tagConfig.downgradeTag,
+            ...mismatchTags,
+          ].filter((l) => l !== label);
+      await applyTag(context, services, label, replaced);
+      output.tagApplied = label;
+      logger.info(
+        `Applied ${mismatchKind === "score" ? "mismatch" : "downgrade"} tag: ${label}${onInstance}`
+      );
     }
 
-    try {
-      const posterImage = movie.images?.find(
-        (img) => img.coverType === "poster"
-      );
-      const posterUrl = posterImage?.remoteUrl ?? posterImage?.url;
-
-      await discord.sendScoreMismatch({
-        title: movie.title,
-        year: movie.year,
-        expectedScore: comparison.expectedScore,
-        actualScore: comparison.actualScore,
-        difference: comparison.difference,
-        maxOverScore: qualityConfig.maxOverScore,
-        quality,
-        indexer: context.indexer,
-        radarrUrl: services.radarrUrl,
-        movieId: movie.id,
-        posterUrl,
+    if (policy?.notify === false) {
+      logger.info(`Not notifying a ${severity} mismatch`);
+    } else {
+      output.notificationSent = await notifyMismatch(context, services, {
+        mismatchKind,
+        qualityDowngrade,
+        customFormats,
+        severity,
+        profileDrift,
       });
-      output.notificationSent = true;
-    } catch (error) {
-      // Discord notification failure should not fail the entire operation
-      logger.error(
-        `Failed to send Discord notification for ${movie.title}: ${formatError(error)}`
+    }
+
+    const onMismatch = config.onMismatch && {
+      ...config.onMismatch,
+      action: policy?.action ?? config.onMismatch.action,
+    };
+    if (onMismatch && isDriftOnly && onMismatch.action !== "tag-only") {
+      // The release matches what the current profile expects, a new grab
+      // would not do better
+      logger.info(`Not running ${onMismatch.action}: only the profile changed`);
+    } else if (
+      onMismatch &&
+      mismatchKind === "quality" &&
+      onMismatch.action !== "tag-only"
+    ) {
+      // Actions follow the score severity, which a quality mismatch lacks
+      logger.info(
+        `Not running ${onMismatch.action}: only the quality mismatches`
       );
+    } else if (movie && services.radarr && onMismatch) {
+      try {
+        output.mismatchAction = await applyMismatchAction(
+          movie,
+          context.grabId,
+          onMismatch,
+          { ...services, radarr: services.radarr }
+        );
+      } catch (error) {
+        logger.error(
+          `Failed to ${onMismatch.action} ${media.title}: ${formatError(error)}`
+        );
+      }
     }
   }
 
+  recordVerification(context, output, services);
+
   return output;
 }
 
+/**
+ * Send the mismatch notification. A failure is logged and never fails the
+ * verification.
+ */
+async function notifyMismatch(
+  context: ScoreResultContext,
+  services: ScoreResultServices,
+  details: {
+    mismatchKind: MismatchKind;
+    qualityDowngrade: string | undefined;
+    customFormats: string | undefined;
+    severity: Severity | undefined;
+    profileDrift: string | undefined;
+  }
+): Promise<boolean> {
+  const { movie, series, quality, comparison } = context;
+  const media = series ?? movie;
+  if (!media) {
+    return false;
+  }
+
+  try {
+    const posterImage = media.images?.find((img) => img.coverType === "poster");
+    const posterUrl = posterImage?.remoteUrl ?? posterImage?.url;
+
+    await services.notifications.sendScoreMismatch({
+      title: media.title,
+      year: media.year,
+      expectedScore: comparison.expectedScore,
+      actualScore: comparison.actualScore,
+      difference: comparison.difference,
+      // The thresholds may come from a tolerance override
+      maxOverScore: comparison.maxAllowedScore - comparison.expectedScore,
+      quality,
+      indexer: context.indexer,
+      radarrUrl: services.radarrUrl,
+      movieId: movie?.id,
+      posterUrl,
+      instance: services.instanceName,
+      ...details,
+      ...(series && {
+        sonarrUrl: services.sonarrUrl,
+        seriesSlug: series.titleSlug,
+        episode: series.episode,
+      }),
+    });
+    return true;
+  } catch (error) {
+    // A notification failure should not fail the entire operation
+    logger.error(
+      `Failed to send notification for ${media.title}: ${formatError(error)}`
+    );
+    return false;
+  }
+}
+
+/**
+ * Classify a score comparison by how far the score falls short of the
+ * grab. A file scoring better than the grab is always a minor mismatch.
+ */
+export function classifySeverity(
+  comparison: ScoreComparisonResult,
+  severityConfig: Pick<SeverityConfig, "majorDifference" | "criticalDifference">
+): Severity {
+  if (comparison.isAcceptable) {
+    return "ok";
+  }
+
+  if (comparison.difference > 0) {
+    return "minor";
+  }
+
+  const difference = -comparison.difference;
+  if (difference >= severityConfig.criticalDifference) {
+    return "critical";
+  }
+  return difference >= severityConfig.majorDifference ? "major" : "minor";
+}
+
+function getSeverityPolicy(
+  severity: Severity | undefined,
+  severityConfig: SeverityConfig | undefined
+): SeverityPolicy | undefined {
+  if (!severity || severity === "ok") {
+    return undefined;
+  }
+  return severityConfig?.[severity];
+}
+
+/**
+ * Labels of every tag a score mismatch can get: the mismatch tag and the
+ * tags of the severities
+ */
+export function getMismatchTags(
+  tagConfig: Pick<TagConfig, "mismatchTag">,
+  severityConfig?: SeverityConfig
+): string[] {
+  const labels = [tagConfig.mismatchTag];
+  if (severityConfig) {
+    for (const severity of ["minor", "major", "critical"] as const) {
+      const { tag } = severityConfig[severity];
+      if (tag !== undefined) {
+        labels.push(tag);
+      }
+    }
+  }
+  return [...new Set(labels)];
+}
+
+/**
+ * Persist a verification in the history store, when one is configured.
+ * History is best-effort and never fails the verification.
+ */
+export function recordVerification(
+  context: ScoreResultContext,
+  output: HandleScoreResultOutput,
+  services: Pick<ScoreResultServices, "history" | "instanceName">
+): void {
+  const { movie, series, quality, comparison } = context;
+  const media = series ?? movie;
+  if (!services.history || !media) {
+    return;
+  }
+
+  try {
+    services.history.record({
+      mediaType: series ? "series" : "movie",
+      mediaId: media.id,
+      title: media.title,
+      year: media.year,
+      episode: series?.episode,
+      instance: services.instanceName,
+      releaseTitle: context.releaseTitle,
+      indexer: context.indexer,
+      releaseGroup: context.releaseGroup,
+      releaseSource: context.releaseSource,
+      customFormatsLost: context.customFormatDiff?.lost,
+      customFormatsGained: context.customFormatDiff?.gained,
+      qualityDowngrade: formatQualityDowngrade(context.qualityComparison),
+      expectedScore: comparison.expectedScore,
+      actualScore: comparison.actualScore,
+      difference: comparison.difference,
+      quality,
+      isAcceptable: comparison.isAcceptable,
+      mismatchKind: output.mismatchKind,
+      severity: output.severity,
+      profileDrift: context.profileDrift?.isDriftOnly,
+      tagApplied: output.tagApplied,
+      notificationSent: output.notificationSent,
+      mismatchAction: output.mismatchAction,
+      correlationId: context.correlationId,
+      verifiedAt: new Date(),
+    });
+  } catch (error) {
+    logger.error(
+      `Failed to record verification history for ${media.title}: ${formatError(error)}`
+    );
+  }
+}
+
 /**
  * Compare scores using quality config thresholds.
- * Convenience wrapper around calculateScoreComparison that extracts thresholds from config.
+ * Convenience wrapper around calculateScoreComparison that extracts thresholds
+ * from config, using the override matching `target` when there is one.
  */
 export function compareScores(
   expectedScore: number,
   actualScore: number,
-  qualityConfig: QualityConfig
+  qualityConfig: QualityConfig,
+  target?: ToleranceTarget
 ): ScoreComparisonResult {
-  return calculateScoreComparison({
+  const { settings, override } = resolveTolerance(qualityConfig, target);
+  const { maxOverScore, maxUnderScore, rule } = computeThresholds(
+    settings,
+    expectedScore
+  );
+
+  return {
+    ...calculateScoreComparison({
+      expectedScore,
+      actualScore,
+      maxOverScore,
+      maxUnderScore,
+    }),
+    rule: override ? `${rule} (override: ${describeOverride(override)})` : rule,
+  };
+}
+
+/**
+ * Tolerance settings of the first override matching the quality profile and
+ * tags of `target`, merged over the global settings
+ */
+export function resolveTolerance(
+  qualityConfig: QualityConfig,
+  target?: ToleranceTarget
+): { settings: ToleranceSettings; override: ToleranceOverride | undefined } {
+  const { overrides, ...global } = qualityConfig;
+  const override = target
+    ? overrides.find((o) => matchesOverride(o, target))
+    : undefined;
+
+  if (!override) {
+    return { settings: global, override: undefined };
+  }
+
+  return {
+    settings: {
+      mode: override.mode ?? global.mode,
+      maxOverScore: override.maxOverScore ?? global.maxOverScore,
+      maxUnderScore: override.maxUnderScore ?? global.maxUnderScore,
+      maxOverPercent: override.maxOverPercent ?? global.maxOverPercent,
+      maxUnderPercent: override.maxUnderPercent ?? global.maxUnderPercent,
+      tiers: override.tiers ?? global.tiers,
+    },
+    override,
+  };
+}
+
+/**
+ * Points allowed above and below `expectedScore` by the tolerance settings,
+ * with a description of the rule they come from. Percentages are of the
+ * absolute expected score, rounded to the nearest point.
+ */
+export function computeThresholds(
+  settings: ToleranceSettings,
+  expectedScore: number
+): { maxOverScore: number; maxUnderScore: number; rule: string } {
+  const percentOf = (percent: number): number =>
+    Math.round((Math.abs(expectedScore) * percent) / 100);
+
+  if (settings.mode === "percentage") {
+    return {
+      maxOverScore: percentOf(settings.maxOverPercent),
+      maxUnderScore: percentOf(settings.maxUnderPercent),
+      rule: `percentage +${settings.maxOverPercent}%/-${settings.maxUnderPercent}%`,
+    };
+  }
+
+  const absolute = {
+    maxOverScore: settings.maxOverScore,
+    maxUnderScore: settings.maxUnderScore,
+    rule: `absolute +${settings.maxOverScore}/-${settings.maxUnderScore}`,
+  };
+
+  if (settings.mode === "absolute") {
+    return absolute;
+  }
+
+  const tier = settings.tiers.find(
+    (t) =>
+      t.minExpectedScore === undefined || expectedScore >= t.minExpectedScore
+  );
+  if (!tier) {
+    return { ...absolute, rule: `${absolute.rule} (no tier matched)` };
+  }
+
+  return {
+    maxOverScore:
+      tier.maxOverPercent !== undefined
+        ? percentOf(tier.maxOverPercent)
+        : (tier.maxOverScore ?? 0),
+    maxUnderScore:
+      tier.maxUnderPercent !== undefined
+        ? percentOf(tier.maxUnderPercent)
+        : (tier.maxUnderScore ?? 0),
+    rule: describeTier(tier),
+  };
+}
+
+/**
+ * Describe a tolerance tier, e.g. "tier >= 1000 +5%/-5%"
+ */
+export function describeTier(tier: ToleranceTier): string {
+  const scope =
+    tier.minExpectedScore === undefined
+      ? "tier"
+      : `tier >= ${tier.minExpectedScore}`;
+  const over =
+    tier.maxOverPercent !== undefined
+      ? `${tier.maxOverPercent}%`
+      : `${tier.maxOverScore ?? 0}`;
+  const under =
+    tier.maxUnderPercent !== undefined
+      ? `${tier.maxUnderPercent}%`
+      : `${tier.maxUnderScore ?? 0}`;
+  return `${scope} +${over}/-${under}`;
+}
+
+/**
+ * Describe what an override matches, e.g. "profile Ultra-HD, tag anime"
+ */
+export function describeOverride(override: ToleranceOverride): string {
+  return [
+    override.profile !== undefined && `profile ${override.profile}`,
+    override.tag !== undefined && `tag ${override.tag}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function matchesOverride(
+  override: ToleranceOverride,
+  target: ToleranceTarget
+): boolean {
+  const { profile, tag } = override;
+  const { qualityProfile } = target;
+
+  if (profile !== undefined) {
+    const matches =
+      typeof profile === "number"
+        ? qualityProfile?.id === profile
+        : qualityProfile?.name?.toLowerCase() === profile.toLowerCase();
+    if (!matches) {
+      return false;
+    }
+  }
+
+  return (
+    tag === undefined ||
+    target.tags.some((t) => t.toLowerCase() === tag.toLowerCase())
+  );
+}
+
+/**
+ * Load the quality profile and tag labels of a movie from Radarr, to resolve
+ * its tolerance. Skips the requests when no override is configured.
+ */
+export async function getToleranceTarget(
+  radarr: Pick<IMovieService, "getQualityProfiles" | "getTags">,
+  movie: { qualityProfileId?: number | undefined; tags?: number[] | undefined },
+  qualityConfig: QualityConfig
+): Promise<ToleranceTarget | undefined> {
+  if (qualityConfig.overrides.length === 0) {
+    return undefined;
+  }
+
+  const [profiles, tags] = await Promise.all([
+    radarr.getQualityProfiles(),
+    radarr.getTags(),
+  ]);
+  const tagIds = new Set(movie.tags);
+  const profile = profiles.find((p) => p.id === movie.qualityProfileId);
+
+  return {
+    qualityProfile:
+      movie.qualityProfileId === undefined
+        ? undefined
+        : { id: movie.qualityProfileId, name: profile?.name },
+    tags: tags.filter((t) => tagIds.has(t.id)).map((t) => t.label),
+  };
+}
+
+/**
+ * Custom formats lost and gained between the grabbed release and the file.
+ * Undefined when either side is unknown (Radarr versions without custom
+ * formats in history or movie files).
+ */
+export function diffCustomFormats(
+  grabbed: { name: string }[] | undefined,
+  current: { name: string }[] | undefined
+): CustomFormatDiff | undefined {
+  if (!grabbed || !current) {
+    return undefined;
+  }
+
+  const grabbedNames = new Set(grabbed.map((f) => f.name));
+  const currentNames = new Set(current.map((f) => f.name));
+
+  return {
+    lost: [...grabbedNames].filter((name) => !currentNames.has(name)),
+    gained: [...currentNames].filter((name) => !grabbedNames.has(name)),
+  };
+}
+
+/**
+ * Describe a custom format diff, e.g. "lost: DV, Atmos; gained: x265".
+ * Undefined when no format changed.
+ */
+export function formatCustomFormatDiff(
+  diff: CustomFormatDiff | undefined
+): string | undefined {
+  if (!diff) {
+    return undefined;
+  }
+
+  const parts = [
+    diff.lost.length > 0 && `lost: ${diff.lost.join(", ")}`,
+    diff.gained.length > 0 && `gained: ${diff.gained.join(", ")}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join("; ") : undefined;
+}
+
+/**
+ * Rank of Radarr quality sources, from worst to best. Web releases share a
+ * rank: a WEBRip is not a downgrade of a WEBDL.
+ */
+const SOURCE_RANKS: Record<string, number> = {
+  cam: 1,
+  telesync: 2,
+  telecine: 3,
+  workprint: 4,
+  dvd: 5,
+  tv: 6,
+  webrip: 7,
+  webdl: 7,
+  bluray: 8,
+};
+
+/**
+ * Compare the quality of the file with the quality of the grabbed release.
+ * The file is a downgrade when its resolution, source or revision
+ * (proper/repack, then real) is lower. Unknown sources and resolutions are
+ * not compared.
+ */
+export function compareQuality(
+  grabbed: RadarrQuality,
+  actual: RadarrQuality
+): QualityComparisonResult {
+  const downgrades: QualityAspect[] = [];
+
+  const grabbedResolution = grabbed.quality.resolution;
+  const actualResolution = actual.quality.resolution;
+  if (
+    grabbedResolution > 0 &&
+    actualResolution > 0 &&
+    actualResolution < grabbedResolution
+  ) {
+    downgrades.push("resolution");
+  }
+
+  const grabbedSource = SOURCE_RANKS[grabbed.quality.source.toLowerCase()];
+  const actualSource = SOURCE_RANKS[actual.quality.source.toLowerCase()];
+  if (
+    grabbedSource !== undefined &&
+    actualSource !== undefined &&
+    actualSource < grabbedSource
+  ) {
+    downgrades.push("source");
+  }
+
+  const revisionDowngrade =
+    actual.revision.real !== grabbed.revision.real
+      ? actual.revision.real < grabbed.revision.real
+      : actual.revision.version < grabbed.revision.version;
+  if (revisionDowngrade) {
+    downgrades.push("revision");
+  }
+
+  return {
+    grabbedQuality: formatQuality(grabbed, revisionDowngrade),
+    actualQuality: formatQuality(actual, revisionDowngrade),
+    downgrades,
+    isDowngrade: downgrades.length > 0,
+  };
+}
+
+function formatQuality(quality: RadarrQuality, withRevision: boolean): string {
+  const { name } = quality.quality;
+  if (!withRevision) {
+    return name;
+  }
+  const real = quality.revision.real > 0 ? " REAL" : "";
+  return `${name} v${quality.revision.version}${real}`;
+}
+
+/**
+ * Describe a quality downgrade, e.g.
+ * "Bluray-2160p -> WEBDL-1080p (resolution, source)".
+ * Undefined when the file is not a downgrade.
+ */
+export function formatQualityDowngrade(
+  comparison: QualityComparisonResult | undefined
+): string | undefined {
+  if (!comparison?.isDowngrade) {
+    return undefined;
+  }
+  return `${comparison.grabbedQuality} -> ${comparison.actualQuality} (${comparison.downgrades.join(", ")})`;
+}
+
+/**
+ * Describe a profile drift, e.g.
+ * "grabbed release scores 120 today (80 at grab time)".
+ * Undefined when the profile did not change the score.
+ */
+export function formatProfileDrift(
+  drift: ProfileDriftResult | undefined
+): string | undefined {
+  if (!drift) {
+    return undefined;
+  }
+  return `grabbed release scores ${drift.currentScore} today (${drift.historicScore} at grab time)`;
+}
+
+/**
+ * Compare every file of a download (e.g. a season pack) against the score
+ * of the grabbed release, and collect the episodes that deviate
+ */
+export function comparePackScores(
+  expectedScore: number,
+  files: {
+    episodeFileId: number;
+    episode: string;
+    quality: string;
+    actualScore: number;
+  }[],
+  qualityConfig: QualityConfig
+): PackComparisonResult {
+  const compared: EpisodeFileComparison[] = files.map((file) => ({
+    episodeFileId: file.episodeFileId,
+    episode: file.episode,
+    quality: file.quality,
+    comparison: compareScores(expectedScore, file.actualScore, qualityConfig),
+  }));
+  const deviating = compared.filter((f) => !f.comparison.isAcceptable);
+
+  return {
     expectedScore,
-    actualScore,
-    maxOverScore: qualityConfig.maxOverScore,
-    maxUnderScore: qualityConfig.maxUnderScore,
-  });
+    files: compared,
+    deviating,
+    isAcceptable: deviating.length === 0,
+  };
+}
+
+/**
+ * Build the score result context of a pack comparison: the reported
+ * episodes are every deviating file (or every file when the pack passes),
+ * with the file of the largest score difference as representative
+ */
+export function buildPackScoreContext(
+  pack: PackComparisonResult,
+  series: Omit<SeriesInfo, "episode">,
+  source: VerificationSource
+): ScoreResultContext {
+  const reported = pack.isAcceptable ? pack.files : pack.deviating;
+  const representative = [...reported].sort(
+    (a, b) =>
+      Math.abs(b.comparison.difference) - Math.abs(a.comparison.difference)
+  )[0];
+
+  if (!representative) {
+    throw new Error(`No episode files to report for ${series.title}`);
+  }
+
+  return {
+    series: {
+      ...series,
+      episode: reported.map((f) => f.episode).join(", "),
+    },
+    quality: representative.quality,
+    comparison: representative.comparison,
+    ...source,
+  };
+}
+
+/**
+ * Handle the result of a pack comparison: the series is tagged once, and a
+ * single notification lists every deviating episode, reporting the file
+ * with the largest score difference
+ */
+export async function handlePackScoreResult(
+  pack: PackComparisonResult,
+  series: Omit<SeriesInfo, "episode">,
+  source: VerificationSource,
+  config: HandleScoreResultConfig,
+  services: ScoreResultServices
+): Promise<HandleScoreResultOutput> {
+  return handleScoreResult(
+    buildPackScoreContext(pack, series, source),
+    config,
+    services
+  );
+}
+
+/**
+ * Log a score summary line per file of a pack and the deviating episodes
+ */
+export function logPackSummary(
+  title: string,
+  pack: PackComparisonResult
+): void {
+  for (const file of pack.files) {
+    logScoreSummary(`${title} ${file.episode}`, file.comparison);
+  }
+
+  if (!pack.isAcceptable) {
+    logger.warn(
+      `${title}: ${pack.deviating.length}/${pack.files.length} episode(s) deviate from grabbed score ${pack.expectedScore}: ${pack.deviating.map((f) => f.episode).join(", ")}`
+    );
+  }
 }
 
 /**
@@ -163,8 +951,9 @@ export function logScoreComparison(
   logger.info(`${p}Expected score: ${comparison.expectedScore}`);
   logger.info(`${p}Actual score: ${comparison.actualScore}`);
   logger.info(`${p}Difference: ${comparison.difference}`);
+  const rule = comparison.rule ? ` (${comparison.rule})` : "";
   logger.info(
-    `${p}Allowed range: [${comparison.minAllowedScore}, ${comparison.maxAllowedScore}]`
+    `${p}Allowed range: [${comparison.minAllowedScore}, ${comparison.maxAllowedScore}]${rule}`
   );
 }
 
@@ -173,12 +962,42 @@ export function logScoreComparison(
  */
 export function logDryRunResult(
   comparison: ScoreComparisonResult,
-  tagConfig: TagConfig
+  tagConfig: TagConfig,
+  severityConfig?: SeverityConfig
 ): void {
   if (comparison.isAcceptable) {
     logger.info(`[DRY-RUN] Would apply success tag: ${tagConfig.successTag}`);
-  } else {
-    logger.info(`[DRY-RUN] Would apply mismatch tag: ${tagConfig.mismatchTag}`);
-    logger.info("[DRY-RUN] Would send Discord notification");
+    return;
+  }
+
+  const severity = severityConfig
+    ? classifySeverity(comparison, severityConfig)
+    : undefined;
+  const policy = getSeverityPolicy(severity, severityConfig);
+  const label = policy?.tag ?? tagConfig.mismatchTag;
+
+  logger.info(
+    `[DRY-RUN] Would apply mismatch tag: ${label}${severity ? ` (${severity})` : ""}`
+  );
+  if (policy?.notify !== false) {
+    logger.info("[DRY-RUN] Would send notification");
+  }
+}
+
+/**
+ * Log the per-file scores of a pack and what would happen in dry-run mode
+ */
+export function logPackDryRunResult(
+  pack: PackComparisonResult,
+  tagConfig: TagConfig,
+  severityConfig?: SeverityConfig
+): void {
+  for (const file of pack.files) {
+    logScoreSummary(`[DRY-RUN]   ${file.episode}`, file.comparison);
+  }
+
+  const [first] = pack.isAcceptable ? pack.files : pack.deviating;
+  if (first) {
+    logDryRunResult(first.comparison, tagConfig, severityConfig);
   }
 }
@@ -0,0 +1,191 @@
+import type {
+  BatchSummaryInfo,
+  INotificationService,
+  ScoreMismatchInfo,
+  SlackChannelConfig,
+} from "../types/index.js";
+import { logger, getVersion } from "../utils/index.js";
+import {
+  formatDuration,
+  formatFailedItems,
+  formatMediaTitle,
+  formatScoreDifference,
+  getBatchSummaryTitle,
+  getMediaLink,
+  getMismatchTitle,
+} from "./notification-format.js";
+
+type SlackBlock = Record<string, unknown>;
+
+/**
+ * Sends notifications to a Slack incoming webhook as Block Kit messages
+ */
+export class SlackService implements INotificationService {
+  private webhookUrl: string;
+
+  constructor(config: Pick<SlackChannelConfig, "webhookUrl">) {
+    this.webhookUrl = config.webhookUrl;
+  }
+
+  async sendScoreMismatch(info: ScoreMismatchInfo): Promise<void> {
+    const title = formatMediaTitle(info);
+    const heading = getMismatchTitle(info);
+    const link = getMediaLink(info);
+
+    const blocks: SlackBlock[] = [
+      header(heading),
+      {
+        type: "section",
+        text: mrkdwn(
+          link
+            ? `*<${link}|${escapeMrkdwn(title)}>*`
+            : `*${escapeMrkdwn(title)}*`
+        ),
+        ...(info.posterUrl && {
+          accessory: {
+            type: "image",
+            image_url: info.posterUrl,
+            alt_text: title,
+          },
+        }),
+      },
+      {
+        type: "section",
+        fields: [
+          field("Expected Score", String(info.expectedScore)),
+          field("Actual Score", String(info.actualScore)),
+          field("Difference", formatScoreDifference(info.difference)),
+          field("Quality", info.quality),
+          ...(info.severity ? [field("Severity", info.severity)] : []),
+          ...(info.indexer ? [field("Indexer", info.indexer)] : []),
+          ...(info.instance ? [field("Instance", info.instance)] : []),
+        ],
+      },
+    ];
+
+    const details: [string, string | undefined][] = [
+      ["Quality Downgrade", info.qualityDowngrade],
+      ["Profile Drift", info.profileDrift],
+      ["Custom Formats", info.customFormats],
+    ];
+    const lines = details.flatMap(([name, value]) =>
+      value ? [`*${name}*: ${escapeMrkdwn(value)}`] : []
+    );
+    if (lines.length > 0) {
+      blocks.push({ type: "section", text: mrkdwn(lines.join("\n")) });
+    }
+
+    if (link) {
+      blocks.push({
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: {
+              type: "plain_text",
+              text: info.movieId ? "Open in Radarr" : "Open in Sonarr",
+            },
+            url: link,
+          },
+        ],
+      });
+    }
+
+    blocks.push(footer());
+
+    await this.sendWebhook({
+      // Shown in notifications, where blocks are not rendered
+      text: escapeMrkdwn(
+        `${heading}: ${title} (${info.expectedScore} -> ${info.actualScore})`
+      ),
+      blocks,
+    });
+
+    logger.info(`Slack notification sent for ${title}`);
+  }
+
+  async sendBatchSummary(info: BatchSummaryInfo): Promise<void> {
+    const heading = getBatchSummaryTitle(info);
+
+    const blocks: SlackBlock[] = [
+      header(heading),
+      {
+        type: "section",
+        fields: [
+          field("Total Processed", String(info.totalProcessed)),
+          field("Completed", String(info.completed)),
+          field("Failed", String(info.failed)),
+          field("Mismatches", String(info.mismatches)),
+          field("Duration", formatDuration(info.durationMs)),
+        ],
+      },
+    ];
+
+    if (info.failedItems.length > 0) {
+      blocks.push({
+        type: "section",
+        text: mrkdwn(
+          `*Failed Items*\n${formatFailedItems(info).map(escapeMrkdwn).join("\n")}`
+        ),
+      });
+    }
+
+    blocks.push(footer());
+
+    await this.sendWebhook({
+      text: `${heading}: ${info.completed} completed, ${info.failed} failed, ${info.mismatches} mismatch(es)`,
+      blocks,
+    });
+
+    logger.info("Slack batch summary sent");
+  }
+
+  private async sendWebhook(payload: Record<string, unknown>): Promise<void> {
+    logger.debug("Sending Slack notification", payload);
+
+    const response = await fetch(this.webhookUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      // Slack explains the error in the body, e.g. "invalid_blocks"
+      const reason = await response.text().catch(() => "");
+      throw new Error(
+        `Slack webhook error: ${response.status} ${reason || response.statusText}`
+      );
+    }
+  }
+}
+
+function header(text: string): SlackBlock {
+  return { type: "header", text: { type: "plain_text", text } };
+}
+
+function footer(): SlackBlock {
+  return {
+    type: "context",
+    elements: [mrkdwn(`Qualitarr v${getVersion()}`)],
+  };
+}
+
+function mrkdwn(text: string): { type: "mrkdwn"; text: string } {
+  return { type: "mrkdwn", text };
+}
+
+function field(name: string, value: string): { type: "mrkdwn"; text: string } {
+  return mrkdwn(`*${name}*\n${escapeMrkdwn(value)}`);
+}
+
+/**
+ * Escape the characters Slack uses for links and mentions
+ */
+function escapeMrkdwn(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,286 @@
+import type {
+  SonarrConfig,
+  SonarrSeries,
+  SonarrEpisode,
+  SonarrEpisodeFile,
+  SonarrHistory,
+  SonarrTag,
+  SonarrCommand,
+  SonarrSystemStatus,
+  ISeriesService,
+} from "../types/index.js";
+import {
+  sonarrSeriesSchema,
+  sonarrEpisodeSchema,
+  sonarrEpisodeFileSchema,
+  sonarrHistorySchema,
+  sonarrTagSchema,
+  sonarrCommandSchema,
+  sonarrSystemStatusSchema,
+} from "../types/sonarr.js";
+import { ArrClient } from "./arr-client.js";
+import { logger, sleep } from "../utils/index.js";
+
+export class SonarrService extends ArrClient implements ISeriesService {
+  constructor(config: SonarrConfig) {
+    super("Sonarr", config);
+  }
+
+  async getSystemStatus(): Promise<SonarrSystemStatus> {
+    const endpoint = "/system/status";
+    const data = await this.request<unknown>(endpoint);
+    return this.validateResponse(data, sonarrSystemStatusSchema, endpoint);
+  }
+
+  async getSeries(): Promise<SonarrSeries[]> {
+    const data = await this.request<unknown>("/series");
+    return this.validateArrayResponse(data, sonarrSeriesSchema, "/series");
+  }
+
+  async getSeriesById(id: number): Promise<SonarrSeries> {
+    const endpoint = `/series/${id}`;
+    const data = await this.request<unknown>(endpoint);
+    return this.validateResponse(data, sonarrSeriesSchema, endpoint);
+  }
+
+  async getSeriesByTvdbId(tvdbId: number): Promise<SonarrSeries | null> {
+    const endpoint = this.buildEndpoint("/series", { tvdbId });
+    const data = await this.request<unknown>(endpoint);
+    const series = this.validateArrayResponse(
+      data,
+      sonarrSeriesSchema,
+      endpoint
+    );
+    return series[0] ?? null;
+  }
+
+  async getEpisodes(
+    seriesId: number,
+    seasonNumber?: number
+  ): Promise<SonarrEpisode[]> {
+    const endpoint = this.buildEndpoint("/episode", {
+      seriesId,
+      ...(seasonNumber !== undefined && { seasonNumber }),
+    });
+    const data = await this.request<unknown>(endpoint);
+    return this.validateArrayResponse(data, sonarrEpisodeSchema, endpoint);
+  }
+
+  async getEpisode(id: number): Promise<SonarrEpisode> {
+    const endpoint = `/episode/${id}`;
+    const data = await this.request<unknown>(endpoint);
+    return this.validateResponse(data, sonarrEpisodeSchema, endpoint);
+  }
+
+  async getEpisodeFiles(seriesId: number): Promise<SonarrEpisodeFile[]> {
+    const endpoint = this.buildEndpoint("/episodefile", { seriesId });
+    const data = await this.request<unknown>(endpoint);
+    return this.validateArrayResponse(data, sonarrEpisodeFileSchema, endpoint);
+  }
+
+  async getEpisodeFile(id: number): Promise<SonarrEpisodeFile> {
+    const endpoint = `/episodefile/${id}`;
+    const data = await this.request<unknown>(endpoint);
+    return this.validateResponse(data, sonarrEpisodeFileSchema, endpoint);
+  }
+
+  async getHistory(
+    seriesId: number,
+    episodeId?: number
+  ): Promise<SonarrHistory[]> {
+    const endpoint = this.buildEndpoint("/history/series", { seriesId });
+    const data = await this.request<{ records?: unknown[] } | unknown[]>(
+      endpoint
+    );
+    // API can return { records: [...] } or directly [...]
+    const records = Array.isArray(data) ? data : (data.records ?? []);
+    const history = this.validateArrayResponse(
+      records,
+      sonarrHistorySchema,
+      endpoint
+    );
+    return episodeId === undefined
+      ? history
+      : history.filter((h) => h.episodeId === episodeId);
+  }
+
+  async searchEpisodes(episodeIds: number[]): Promise<SonarrCommand> {
+    const data = await this.request<unknown>("/command", {
+      method: "POST",
+      body: JSON.stringify({
+        name: "EpisodeSearch",
+        episodeIds,
+      }),
+    });
+    return this.validateResponse(data, sonarrCommandSchema, "/command");
+  }
+
+  async searchSeason(
+    seriesId: number,
+    seasonNumber: number
+  ): Promise<SonarrCommand> {
+    const data = await this.request<unknown>("/command", {
+      method: "POST",
+      body: JSON.stringify({
+        name: "SeasonSearch",
+        seriesId,
+        seasonNumber,
+      }),
+    });
+    return this.validateResponse(data, sonarrCommandSchema, "/command");
+  }
+
+  async getTags(): Promise<SonarrTag[]> {
+    const data = await this.request<unknown>("/tag");
+    return this.validateArrayResponse(data, sonarrTagSchema, "/tag");
+  }
+
+  async createTag(label: string): Promise<SonarrTag> {
+    const data = await this.request<unknown>("/tag", {
+      method: "POST",
+      body: JSON.stringify({ label }),
+    });
+    return this.validateResponse(data, sonarrTagSchema, "/tag");
+  }
+
+  /**
+   * Add a tag to a series through the series editor endpoint, so fields
+   * not covered by our schema are left untouched.
+   */
+  async addTagToSeries(
+    series: SonarrSeries,
+    tagId: number
+  ): Promise<SonarrSeries> {
+    if (series.tags.includes(tagId)) {
+      logger.debug(`Series ${series.title} already has tag ${tagId}`);
+      return series;
+    }
+
+    const endpoint = "/series/editor";
+    const data = await this.request<unknown>(endpoint, {
+      method: "PUT",
+      body: JSON.stringify({
+        seriesIds: [series.id],
+        tags: [tagId],
+        applyTags: "add",
+      }),
+    });
+    const updated = this.validateArrayResponse(
+      data,
+      sonarrSeriesSchema,
+      endpoint
+    );
+    return updated[0] ?? { ...series, tags: [...series.tags, tagId] };
+  }
+
+  /**
+   * Remove a tag from a series through the series editor endpoint
+   */
+  async removeTagFromSeries(
+    series: SonarrSeries,
+    tagId: number
+  ): Promise<SonarrSeries> {
+    if (!series.tags.includes(tagId)) {
+      logger.debug(`Series ${series.title} does not have tag ${tagId}`);
+      return series;
+    }
+
+    const endpoint = "/series/editor";
+    const data = await this.request<unknown>(endpoint, {
+      method: "PUT",
+      body: JSON.stringify({
+        seriesIds: [series.id],
+        tags: [tagId],
+        applyTags: "remove",
+      }),
+    });
+    const updated = this.validateArrayResponse(
+      data,
+      sonarrSeriesSchema,
+      endpoint
+    );
+    return (
+      updated[0] ?? { ...series, tags: series.tags.filter((t) => t !== tagId) }
+    );
+  }
+
+  /**
+   * Swap tags in a single editor update: remove `removeTagIds` and add
+   * `tagId`, so the series never carries both
+   */
+  async replaceSeriesTag(
+    series: SonarrSeries,
+    removeTagIds: number[],
+    tagId: number
+  ): Promise<SonarrSeries> {
+    const tags = [
+      ...series.tags.filter((t) => t !== tagId && !removeTagIds.includes(t)),
+      tagId,
+    ];
+
+    if (series.tags.includes(tagId) && tags.length === series.tags.length) {
+      logger.debug(`Series ${series.title} already has only tag ${tagId}`);
+      return series;
+    }
+
+    const endpoint = "/series/editor";
+    const data = await this.request<unknown>(endpoint, {
+      method: "PUT",
+      body: JSON.stringify({
+        seriesIds: [series.id],
+        tags,
+        applyTags: "replace",
+      }),
+    });
+    const updated = this.validateArrayResponse(
+      data,
+      sonarrSeriesSchema,
+      endpoint
+    );
+    return updated[0] ?? { ...series, tags };
+  }
+
+  async getOrCreateTag(label: string): Promise<SonarrTag> {
+    const tags = await this.getTags();
+    const existing = tags.find(
+      (t) => t.label.toLowerCase() === label.toLowerCase()
+    );
+
+    if (existing) {
+      return existing;
+    }
+
+    logger.info(`Creating tag: ${label}`);
+    return this.createTag(label);
+  }
+
+  async getCommand(commandId: number): Promise<SonarrCommand> {
+    const endpoint = `/command/${commandId}`;
+    const data = await this.request<unknown>(endpoint);
+    return this.validateResponse(data, sonarrCommandSchema, endpoint);
+  }
+
+  async waitForCommand(
+    commandId: number,
+    timeoutMs = 300000,
+    pollIntervalMs = 2000
+  ): Promise<SonarrCommand> {
+    const startTime = Date.now();
+
+    while (Date.now() - startTime < timeoutMs) {
+      const command = await this.getCommand(commandId);
+
+      if (command.status === "completed") {
+        return command;
+      }
+
+      if (command.status === "failed") {
+        throw new Error(`Command ${commandId} failed`);
+      }
+
+      await sleep(pollIntervalMs);
+    }
+
+    throw new Error(`Command ${commandId} timed out after ${timeoutMs}ms`);
+  }
+}
@@ -0,0 +1,113 @@
+import type { ReliabilityStats, VerificationRecord } from "../types/index.js";
+
+/** Label of verifications whose indexer, group or source is unknown */
+export const UNKNOWN_STATS_KEY = "Unknown";
+
+/**
+ * Compute reliability statistics per indexer
+ */
+export function computeIndexerStats(
+  records: VerificationRecord[],
+  worstOffenderCount = 3
+): ReliabilityStats[] {
+  return computeReliabilityStats(records, (r) => r.indexer, worstOffenderCount);
+}
+
+/**
+ * Compute reliability statistics per release group (uploader)
+ */
+export function computeReleaseGroupStats(
+  records: VerificationRecord[],
+  worstOffenderCount = 3
+): ReliabilityStats[] {
+  return computeReliabilityStats(
+    records,
+    (r) => r.releaseGroup,
+    worstOffenderCount
+  );
+}
+
+/**
+ * Compute reliability statistics per release source (WEB-DL, Bluray, ...)
+ */
+export function computeSourceStats(
+  records: VerificationRecord[],
+  worstOffenderCount = 3
+): ReliabilityStats[] {
+  return computeReliabilityStats(
+    records,
+    (r) => r.releaseSource,
+    worstOffenderCount
+  );
+}
+
+/**
+ * Group verifications by key and compute the reliability of each group.
+ * Groups are sorted by lie rate (worst first), then by sample size.
+ */
+function computeReliabilityStats(
+  records: VerificationRecord[],
+  keyOf: (record: VerificationRecord) => string | undefined,
+  worstOffenderCount: number
+): ReliabilityStats[] {
+  const groups = new Map<string, VerificationRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record) ?? UNKNOWN_STATS_KEY;
+    const group = groups.get(key) ?? [];
+    group.push(record);
+    groups.set(key, group);
+  }
+
+  const stats = [...groups].map(([name, group]): ReliabilityStats => {
+    const differences = group.map((r) => r.difference);
+    // A profile change since the grab is not the indexer's fault
+    const mismatches = group.filter(
+      (r) => isMismatch(r) && r.profileDrift !== true
+    );
+
+    return {
+      name,
+      sampleSize: group.length,
+      mismatches: mismatches.length,
+      lieRate: (mismatches.length / group.length) * 100,
+      meanDifference: mean(differences),
+      medianDifference: median(differences),
+      worstOffenders: [...mismatches]
+        .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference))
+        .slice(0, worstOffenderCount),
+    };
+  });
+
+  return stats.sort(
+    (a, b) => b.lieRate - a.lieRate || b.sampleSize - a.sampleSize
+  );
+}
+
+/**
+ * A quality mismatch keeps an acceptable score, so only its kind tells it
+ * apart from a passing verification
+ */
+function isMismatch(record: VerificationRecord): boolean {
+  return !record.isAcceptable || record.mismatchKind !== undefined;
+}
+
+function mean(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const upper = sorted[middle];
+
+  if (upper === undefined) {
+    return 0;
+  }
+  if (sorted.length % 2 === 1) {
+    return upper;
+  }
+  return ((sorted[middle - 1] ?? upper) + upper) / 2;
+}
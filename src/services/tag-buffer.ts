@@ -0,0 +1,132 @@
+import type { IMovieService, TagApplyMode } from "../types/index.js";
+import { logger } from "../utils/index.js";
+
+/**
+ * Movies waiting for the same tag change
+ */
+interface TagGroup {
+  applyTags: TagApplyMode;
+  tagIds: number[];
+  movieIds: Set<number>;
+}
+
+/**
+ * Buffers movie tag changes and applies them in groups through Radarr's
+ * movie editor: one request per group of movies instead of a full movie
+ * update per movie.
+ *
+ * Removals are flushed before additions, so a movie whose tag is replaced
+ * never carries the old and the new tag at the same time. A movie replaced
+ * again before the flush only keeps its latest replacement.
+ */
+export class MovieTagBuffer {
+  private editor: Pick<IMovieService, "editMovieTags">;
+  private batchSize: number;
+  private groups = new Map<string, TagGroup>();
+
+  constructor(editor: Pick<IMovieService, "editMovieTags">, batchSize: number) {
+    this.editor = editor;
+    this.batchSize = batchSize;
+  }
+
+  /** Number of movies with a pending tag change */
+  get size(): number {
+    const movieIds = new Set<number>();
+    for (const group of this.groups.values()) {
+      for (const id of group.movieIds) {
+        movieIds.add(id);
+      }
+    }
+    return movieIds.size;
+  }
+
+  async add(movieId: number, tagIds: number[]): Promise<void> {
+    await this.queue("add", movieId, tagIds);
+  }
+
+  async remove(movieId: number, tagIds: number[]): Promise<void> {
+    await this.queue("remove", movieId, tagIds);
+  }
+
+  /**
+   * Swap `removeTagIds` for `tagId`, with the same signature as
+   * RadarrService.replaceMovieTag so the buffer can stand in for it
+   */
+  async replaceMovieTag(
+    movie: { id: number },
+    removeTagIds: number[],
+    tagId: number
+  ): Promise<void> {
+    // Removals go first at flush: an earlier replacement still pending
+    // would add its tag back after this one removed it
+    this.discard(movie.id);
+    const removed = removeTagIds.filter((id) => id !== tagId);
+    if (removed.length > 0) {
+      this.enqueue("remove", movie.id, removed);
+    }
+    await this.add(movie.id, [tagId]);
+  }
+
+  /**
+   * Apply every pending tag change
+   */
+  async flush(): Promise<void> {
+    const groups = [...this.groups.values()].sort(
+      (a, b) => flushOrder(a.applyTags) - flushOrder(b.applyTags)
+    );
+    this.groups.clear();
+
+    for (const group of groups) {
+      const movieIds = [...group.movieIds];
+      for (let i = 0; i < movieIds.length; i += this.batchSize) {
+        const chunk = movieIds.slice(i, i + this.batchSize);
+        await this.editor.editMovieTags(chunk, group.tagIds, group.applyTags);
+        logger.debug(
+          `Tags ${group.tagIds.join(", ")} (${group.applyTags}) applied to ${chunk.length} movie(s)`
+        );
+      }
+    }
+  }
+
+  private async queue(
+    applyTags: TagApplyMode,
+    movieId: number,
+    tagIds: number[]
+  ): Promise<void> {
+    this.enqueue(applyTags, movieId, tagIds);
+    if (this.size >= this.batchSize) {
+      await this.flush();
+    }
+  }
+
+  private enqueue(
+    applyTags: TagApplyMode,
+    movieId: number,
+    tagIds: number[]
+  ): void {
+    const key = `${applyTags}:${[...tagIds].sort((a, b) => a - b).join(",")}`;
+    const group = this.groups.get(key) ?? {
+      applyTags,
+      tagIds,
+      movieIds: new Set<number>(),
+    };
+    group.movieIds.add(movieId);
+    this.groups.set(key, group);
+  }
+
+  /**
+   * Drop the pending tag changes of a movie
+   */
+  private discard(movieId: number): void {
+    for (const [key, group] of this.groups) {
+      group.movieIds.delete(movieId);
+      if (group.movieIds.size === 0) {
+        this.groups.delete(key);
+      }
+    }
+  }
+}
+
+function flushOrder(applyTags: TagApplyMode): number {
+  return applyTags === "remove" ? 0 : 1;
+}
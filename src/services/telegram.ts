@@ -0,0 +1,125 @@
+import type {
+  BatchSummaryInfo,
+  INotificationService,
+  ScoreMismatchInfo,
+  TelegramChannelConfig,
+} from "../types/index.js";
+import { logger, formatError } from "../utils/index.js";
+import {
+  escapeHtml,
+  formatBatchSummaryHtml,
+  formatMediaTitle,
+  formatMismatchHtml,
+  getBatchSummaryTitle,
+  getMismatchTitle,
+} from "./notification-format.js";
+
+const TELEGRAM_API_URL = "https://api.telegram.org";
+
+/** Longest photo caption Telegram accepts */
+const MAX_CAPTION_LENGTH = 1024;
+
+interface TelegramResponse {
+  ok?: boolean;
+  description?: string;
+}
+
+/**
+ * Sends notifications through the Telegram Bot API: mismatches as the
+ * poster with an HTML caption, batch summaries as an HTML message
+ */
+export class TelegramService implements INotificationService {
+  private botToken: string;
+  private chatId: string | number;
+  private threadId: number | undefined;
+
+  constructor(
+    config: Pick<TelegramChannelConfig, "botToken" | "chatId" | "threadId">
+  ) {
+    this.botToken = config.botToken;
+    this.chatId = config.chatId;
+    this.threadId = config.threadId;
+  }
+
+  async sendScoreMismatch(info: ScoreMismatchInfo): Promise<void> {
+    const title = formatMediaTitle(info);
+    const text = [
+      `<b>${escapeHtml(getMismatchTitle(info))}</b>`,
+      formatMismatchHtml(info),
+    ].join("\n");
+
+    if (info.posterUrl && text.length <= MAX_CAPTION_LENGTH) {
+      try {
+        await this.call("sendPhoto", {
+          photo: info.posterUrl,
+          caption: text,
+          parse_mode: "HTML",
+        });
+        logger.info(`Telegram notification sent for ${title}`);
+        return;
+      } catch (error) {
+        // Telegram downloads the poster itself and rejects unreachable URLs
+        logger.warn(
+          `Telegram could not send the poster of ${title}, sending text only: ${formatError(error)}`
+        );
+      }
+    }
+
+    await this.sendMessage(text);
+    logger.info(`Telegram notification sent for ${title}`);
+  }
+
+  async sendBatchSummary(info: BatchSummaryInfo): Promise<void> {
+    await this.sendMessage(
+      [
+        `<b>${escapeHtml(getBatchSummaryTitle(info))}</b>`,
+        "",
+        formatBatchSummaryHtml(info),
+      ].join("\n")
+    );
+    logger.info("Telegram batch summary sent");
+  }
+
+  private async sendMessage(text: string): Promise<void> {
+    await this.call("sendMessage", {
+      text,
+      parse_mode: "HTML",
+      link_preview_options: { is_disabled: true },
+    });
+  }
+
+  private async call(
+    method: string,
+    params: Record<string, unknown>
+  ): Promise<void> {
+    const payload = {
+      chat_id: this.chatId,
+      ...(this.threadId !== undefined && {
+        message_thread_id: this.threadId,
+      }),
+      ...params,
+    };
+
+    logger.debug(`Sending Telegram ${method}`, payload);
+
+    const response = await fetch(
+      `${TELEGRAM_API_URL}/bot${this.botToken}/${method}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      }
+    );
+
+    // The error description is in the body, even on HTTP errors
+    const body = (await response.json().catch(() => ({}))) as TelegramResponse;
+
+    if (!response.ok || !body.ok) {
+      throw new Error(
+        `Telegram API error: ${response.status} ${body.description ?? response.statusText}`
+      );
+    }
+  }
+}
@@ -0,0 +1,331 @@
+import type { z } from "zod/v4";
+import type { notificationChannelSchema } from "./config.js";
+
+/**
+ * Channel config an Apprise URL stands for, validated by the channel
+ * schema afterwards
+ */
+export type AppriseChannelInput = z.input<typeof notificationChannelSchema>;
+
+/**
+ * Apprise URL split into its parts. Not parsed with URL: Telegram bot
+ * tokens ("123456:ABC...") are not valid hosts.
+ */
+interface AppriseUrlParts {
+  scheme: string;
+  user: string | undefined;
+  password: string | undefined;
+  host: string;
+  path: string[];
+  params: URLSearchParams;
+}
+
+type AppriseParser = (parts: AppriseUrlParts) => AppriseChannelInput;
+
+/** Priority names of the ntfy URLs, from min to max */
+const NTFY_PRIORITIES: Record<string, number> = {
+  min: 1,
+  low: 2,
+  default: 3,
+  high: 4,
+  max: 5,
+  urgent: 5,
+};
+
+/** Priority names of the Gotify URLs */
+const GOTIFY_PRIORITIES: Record<string, number> = {
+  low: 0,
+  moderate: 3,
+  normal: 5,
+  high: 8,
+  emergency: 10,
+};
+
+/** Priority names of the Pushover URLs */
+const PUSHOVER_PRIORITIES: Record<string, number> = {
+  low: -2,
+  moderate: -1,
+  normal: 0,
+  high: 1,
+  emergency: 2,
+};
+
+/**
+ * Parsers by URL scheme, each building the config of an existing channel
+ * type. Follows the Apprise URL formats: https://github.com/caronc/apprise/wiki
+ */
+const APPRISE_PARSERS: Record<string, AppriseParser> = {
+  // discord://{webhook_id}/{webhook_token}
+  discord: ({ host, path }) => {
+    const [token] = path;
+    if (!host || !token || path.length > 1) {
+      throw new Error(
+        "Expected discord://{webhook_id}/{webhook_token} in Discord URL"
+      );
+    }
+    return {
+      type: "discord",
+      webhookUrl: `https://discord.com/api/webhooks/${host}/${token}`,
+    };
+  },
+
+  // tgram://{bot_token}/{chat_id}, or {chat_id}:{topic_id} in a forum
+  tgram: ({ host, path, params }) => {
+    const [chat] = path;
+    if (!host || !chat) {
+      throw new Error("Expected tgram://{bot_token}/{chat_id} in Telegram URL");
+    }
+    if (path.length > 1) {
+      throw new Error(
+        "Telegram URL has several chats, use one URL per chat instead"
+      );
+    }
+
+    const [chatId = "", topic = params.get("topic")] = chat.split(":");
+    return {
+      type: "telegram",
+      botToken: host.replace(/^bot(?=\d)/, ""),
+      chatId: /^-?\d+$/.test(chatId)
+        ? Number(chatId)
+        : chatId.startsWith("@")
+          ? chatId
+          : `@${chatId}`,
+      ...(topic && { threadId: parseInteger(topic, "Telegram topic") }),
+    };
+  },
+
+  // slack://{token_a}/{token_b}/{token_c}, the incoming webhook tokens
+  slack: ({ host, path }) => {
+    if (!host || path.length !== 2) {
+      throw new Error(
+        "Expected slack://{token_a}/{token_b}/{token_c} in Slack URL (an incoming webhook, which posts to its own channel)"
+      );
+    }
+    return {
+      type: "slack",
+      webhookUrl: `https://hooks.slack.com/services/${host}/${path.join("/")}`,
+    };
+  },
+
+  // ntfy://{topic} on ntfy.sh, or ntfy://{token}@{host}/{topic}
+  ntfy: (parts) => parseNtfyUrl(parts, "http"),
+  ntfys: (parts) => parseNtfyUrl(parts, "https"),
+
+  // gotify://{host}/{token}
+  gotify: (parts) => parseGotifyUrl(parts, "http"),
+  gotifys: (parts) => parseGotifyUrl(parts, "https"),
+
+  // pover://{user_key}@{app_token}, or .../{device}
+  pover: ({ user, host, path, params }) => {
+    if (!user || !host) {
+      throw new Error(
+        "Expected pover://{user_key}@{app_token} in Pushover URL"
+      );
+    }
+    const priority = params.get("priority");
+    return {
+      type: "pushover",
+      userKey: user,
+      appToken: host,
+      // The API takes several devices separated by commas
+      ...(path.length > 0 && { device: path.join(",") }),
+      ...(priority && {
+        priority: parsePriority(priority, PUSHOVER_PRIORITIES, "Pushover"),
+      }),
+    };
+  },
+
+  // mailto://{user}:{password}@{domain}[:{port}]?to={email}, or mailtos://
+  // over TLS from the start; smtp= when the SMTP server is another host
+  mailto: (parts) => parseEmailUrl(parts, false),
+  mailtos: (parts) => parseEmailUrl(parts, true),
+};
+
+/**
+ * Read an Apprise URL (e.g. "tgram://123456:ABC/-1001234567890") as the
+ * config of the channel it describes
+ *
+ * @throws Error when the scheme has no notifier or the URL is malformed
+ */
+export function parseAppriseUrl(url: string): AppriseChannelInput {
+  const parts = splitAppriseUrl(url);
+
+  const parser = APPRISE_PARSERS[parts.scheme];
+  if (!parser) {
+    throw new Error(
+      `Unsupported Apprise URL ${parts.scheme}://, expected one of: ${Object.keys(
+        APPRISE_PARSERS
+      )
+        .map((scheme) => `${scheme}://`)
+        .join(", ")}`
+    );
+  }
+
+  return parser(parts);
+}
+
+function splitAppriseUrl(url: string): AppriseUrlParts {
+  const match = /^([a-z][a-z0-9+.-]*):\/\/([^?]*)(?:\?(.*))?$/i.exec(
+    url.trim()
+  );
+  if (!match) {
+    throw new Error(`Invalid Apprise URL "${url}", expected scheme://...`);
+  }
+  const [, scheme = "", rest = "", query = ""] = match;
+
+  // No fragment: "#" starts Slack channel names in Apprise URLs. User info
+  // is only looked for before the path, tokens may contain "@"
+  const slash = rest.indexOf("/");
+  const authority = slash === -1 ? rest : rest.slice(0, slash);
+  const at = authority.lastIndexOf("@");
+  const userInfo = at === -1 ? undefined : authority.slice(0, at);
+  const colon = userInfo?.indexOf(":") ?? -1;
+
+  try {
+    return {
+      scheme: scheme.toLowerCase(),
+      user:
+        userInfo === undefined
+          ? undefined
+          : decodeURIComponent(
+              colon === -1 ? userInfo : userInfo.slice(0, colon)
+            ),
+      password:
+        userInfo === undefined || colon === -1
+          ? undefined
+          : decodeURIComponent(userInfo.slice(colon + 1)),
+      host: decodeURIComponent(authority.slice(at + 1)),
+      path:
+        slash === -1
+          ? []
+          : rest
+              .slice(slash + 1)
+              .split("/")
+              .filter((segment) => segment.length > 0)
+              .map(decodeURIComponent),
+      params: new URLSearchParams(query),
+    };
+  } catch {
+    throw new Error(`Invalid Apprise URL "${url}": malformed escape sequence`);
+  }
+}
+
+function parseNtfyUrl(
+  { user, password, host, path, params }: AppriseUrlParts,
+  protocol: "http" | "https"
+): AppriseChannelInput {
+  if (!host) {
+    throw new Error("Expected ntfy://{host}/{topic} in ntfy URL");
+  }
+  if (password !== undefined) {
+    throw new Error(
+      "ntfy logins are not supported, use an access token: ntfys://{token}@{host}/{topic}"
+    );
+  }
+
+  // A lone topic is published to ntfy.sh
+  const topicUrl =
+    path.length === 0
+      ? `https://ntfy.sh/${host}`
+      : `${protocol}://${host}/${path.join("/")}`;
+  const token = params.get("token") ?? user;
+  const priority = params.get("priority");
+  const tags = params.get("tags");
+  const click = params.get("click");
+
+  return {
+    type: "ntfy",
+    url: topicUrl,
+    ...(token && { token }),
+    ...(priority && {
+      priority: parsePriority(priority, NTFY_PRIORITIES, "ntfy"),
+    }),
+    tags: tags ? tags.split(",").map((tag) => tag.trim()) : [],
+    ...(click && { clickUrl: click }),
+  };
+}
+
+function parseGotifyUrl(
+  { host, path, params }: AppriseUrlParts,
+  protocol: "http" | "https"
+): AppriseChannelInput {
+  const token = path[path.length - 1];
+  if (!host || !token) {
+    throw new Error("Expected gotify://{host}/{token} in Gotify URL");
+  }
+
+  const priority = params.get("priority");
+  return {
+    type: "gotify",
+    url: `${protocol}://${[host, ...path.slice(0, -1)].join("/")}`,
+    token,
+    ...(priority && {
+      priority: parsePriority(priority, GOTIFY_PRIORITIES, "Gotify"),
+    }),
+  };
+}
+
+function parseEmailUrl(
+  { user, password, host, path, params }: AppriseUrlParts,
+  secure: boolean
+): AppriseChannelInput {
+  // The URL host is the mail domain, which is also the SMTP server
+  // unless smtp= names another one
+  const [server = "", port = params.get("port")] = host.split(":");
+  if (!server) {
+    throw new Error(
+      "Expected mailto://{user}:{password}@{domain}?to={email} in email URL"
+    );
+  }
+  const smtpHost = params.get("smtp") ?? server;
+
+  // A user name without domain is taken on the mail domain
+  const from =
+    params.get("from") ??
+    (user && (user.includes("@") ? user : `${user}@${server}`));
+  if (!from) {
+    throw new Error("Email URL needs a user or a from= sender address");
+  }
+
+  // Recipients in the path or in to=, separated by commas; the sender
+  // itself when there are none
+  const to = [...path, ...(params.get("to")?.split(",") ?? [])]
+    .map((address) => address.trim())
+    .filter((address) => address.length > 0);
+
+  const mode = params.get("mode")?.toLowerCase();
+  if (mode !== undefined && mode !== "ssl" && mode !== "starttls") {
+    throw new Error(`Invalid email mode "${mode}", expected ssl or starttls`);
+  }
+
+  return {
+    type: "email",
+    host: smtpHost,
+    ...(port && { port: parseInteger(port, "SMTP port") }),
+    secure: mode === undefined ? secure : mode === "ssl",
+    ...(user && { user }),
+    ...(password && { password }),
+    from,
+    to: to.length > 0 ? to : [from],
+  };
+}
+
+/**
+ * A priority given by name or number; the channel schema checks its range
+ */
+function parsePriority(
+  value: string,
+  names: Record<string, number>,
+  service: string
+): number {
+  return (
+    names[value.toLowerCase()] ?? parseInteger(value, `${service} priority`)
+  );
+}
+
+function parseInteger(value: string, what: string): number {
+  if (!/^-?\d+$/.test(value)) {
+    throw new Error(`Invalid ${what} "${value}", expected a number`);
+  }
+  return Number(value);
+}
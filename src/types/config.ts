@@ -1,4 +1,5 @@
 import { z } from "zod/v4";
+import { parseAppriseUrl } from "./apprise.js";
 
 export const apiConfigSchema = z.object({
   timeoutMs: z.number().min(1000).max(120000).default(30000),
@@ -7,6 +8,8 @@ export const apiConfigSchema = z.object({
 });
 
 export const radarrConfigSchema = z.object({
+  // Instance name, required when several Radarr instances are configured
+  name: z.string().min(1).optional(),
   url: z.url("Invalid Radarr URL"),
   apiKey: z.string().min(1, "Radarr API key is required"),
   api: apiConfigSchema.default({
@@ -17,6 +20,8 @@ export const radarrConfigSchema = z.object({
 });
 
 export const sonarrConfigSchema = z.object({
+  // Instance name, required when several Sonarr instances are configured
+  name: z.string().min(1).optional(),
   url: z.url("Invalid Sonarr URL"),
   apiKey: z.string().min(1, "Sonarr API key is required"),
   api: apiConfigSchema.default({
@@ -26,6 +31,29 @@ export const sonarrConfigSchema = z.object({
   }),
 });
 
+/**
+ * A single instance, or a list of named instances
+ */
+function instancesSchema<
+  T extends z.ZodObject<{ name: z.ZodOptional<z.ZodString> }>,
+>(instanceSchema: T) {
+  return z.union([
+    instanceSchema,
+    z
+      .array(instanceSchema)
+      .min(1)
+      .refine((instances) => instances.every((i) => i.name), {
+        message: "Every instance of a list requires a name",
+      })
+      .refine(
+        (instances) =>
+          new Set(instances.map((i) => i.name?.toLowerCase())).size ===
+          instances.length,
+        { message: "Instance names must be unique" }
+      ),
+  ]);
+}
+
 export const discordConfigSchema = z
   .object({
     enabled: z.boolean().default(false),
@@ -36,15 +64,216 @@ export const discordConfigSchema = z
     path: ["webhookUrl"],
   });
 
+/**
+ * Settings shared by every notification channel
+ */
+const notificationChannelBaseSchema = z.object({
+  // Shown in logs, defaults to the channel type
+  name: z.string().min(1).optional(),
+  enabled: z.boolean().default(true),
+});
+
+export const discordChannelSchema = notificationChannelBaseSchema.extend({
+  type: z.literal("discord"),
+  webhookUrl: z.url("Invalid Discord webhook URL"),
+});
+
+export const telegramChannelSchema = notificationChannelBaseSchema.extend({
+  type: z.literal("telegram"),
+  botToken: z.string().min(1, "Telegram bot token is required"),
+  // Numeric chat ID, or @channelusername
+  chatId: z.union([z.string().min(1), z.number().int()]),
+  // Topic of a forum supergroup
+  threadId: z.number().int().optional(),
+});
+
+export const slackChannelSchema = notificationChannelBaseSchema.extend({
+  type: z.literal("slack"),
+  // Incoming webhook of the Slack app
+  webhookUrl: z.url("Invalid Slack webhook URL"),
+});
+
+export const ntfyChannelSchema = notificationChannelBaseSchema.extend({
+  type: z.literal("ntfy"),
+  // Topic URL, e.g. https://ntfy.sh/qualitarr
+  url: z.url("Invalid ntfy topic URL"),
+  // Access token of protected topics
+  token: z.string().min(1).optional(),
+  // 1 (min) to 5 (max); derived from the mismatch when omitted
+  priority: z.number().int().min(1).max(5).optional(),
+  tags: z.array(z.string().min(1)).default([]),
+  // Opened on click; defaults to the movie in Radarr (or series in Sonarr)
+  clickUrl: z.url("Invalid ntfy click URL").optional(),
+});
+
+export const gotifyChannelSchema = notificationChannelBaseSchema.extend({
+  type: z.literal("gotify"),
+  // Server URL, e.g. https://gotify.example.com
+  url: z.url("Invalid Gotify URL"),
+  // Application token
+  token: z.string().min(1, "Gotify application token is required"),
+  // 0 to 10; derived from the mismatch when omitted
+  priority: z.number().int().min(0).max(10).optional(),
+});
+
+export const pushoverChannelSchema = notificationChannelBaseSchema.extend({
+  type: z.literal("pushover"),
+  userKey: z.string().min(1, "Pushover user key is required"),
+  // Application API token
+  appToken: z.string().min(1, "Pushover application token is required"),
+  // Device name; every device of the user when omitted
+  device: z.string().min(1).optional(),
+  // -2 (silent) to 1 (high); derived from the mismatch when omitted.
+  // Emergency (2) is left out, it repeats until acknowledged
+  priority: z.number().int().min(-2).max(1).optional(),
+});
+
+export const emailChannelSchema = notificationChannelBaseSchema.extend({
+  type: z.literal("email"),
+  // SMTP server
+  host: z.string().min(1, "SMTP host is required"),
+  // Defaults to 465 with secure, 587 otherwise
+  port: z.number().int().min(1).max(65535).optional(),
+  // TLS from the start (SMTPS); otherwise STARTTLS when the server offers it
+  secure: z.boolean().default(false),
+  user: z.string().min(1).optional(),
+  password: z.string().min(1).optional(),
+  from: z.string().min(1, "Email sender (from) is required"),
+  to: z.array(z.string().min(1)).min(1, "Email recipient (to) is required"),
+});
+
+/**
+ * A channel of the `notifications` list; `type` picks the notifier
+ */
+export const notificationChannelSchema = z.discriminatedUnion("type", [
+  discordChannelSchema,
+  telegramChannelSchema,
+  slackChannelSchema,
+  ntfyChannelSchema,
+  gotifyChannelSchema,
+  pushoverChannelSchema,
+  emailChannelSchema,
+]);
+
+/**
+ * An entry of the `notifications` list: a channel, or an Apprise URL read as
+ * the channel it describes (e.g. "tgram://123456:ABC/-1001234567890")
+ */
+export const notificationEntrySchema = z.preprocess((value, ctx) => {
+  if (typeof value !== "string") return value;
+  try {
+    return parseAppriseUrl(value);
+  } catch (error) {
+    ctx.addIssue({
+      code: "custom",
+      message: error instanceof Error ? error.message : String(error),
+      input: value,
+    });
+    return z.NEVER;
+  }
+}, notificationChannelSchema);
+
 export const tagConfigSchema = z.object({
   enabled: z.boolean().default(true),
   successTag: z.string().default("check_ok"),
   mismatchTag: z.string().default("quality-mismatch"),
+  // Applied when the score matches but the file is of a lower quality
+  downgradeTag: z.string().default("quality-downgrade"),
+});
+
+export const TOLERANCE_MODES = ["absolute", "percentage", "tiered"] as const;
+
+export const toleranceTierSchema = z.object({
+  // Applies when the expected score is at least this value; tiers are
+  // checked in order, so a last tier without it catches every other score
+  minExpectedScore: z.number().optional(),
+  // A percentage (of the expected score) takes precedence over points
+  maxOverScore: z.number().min(0).optional(),
+  maxUnderScore: z.number().min(0).optional(),
+  maxOverPercent: z.number().min(0).optional(),
+  maxUnderPercent: z.number().min(0).optional(),
 });
 
+export const toleranceOverrideSchema = z
+  .object({
+    // Quality profile name (case-insensitive) or ID
+    profile: z.union([z.string().min(1), z.number().int()]).optional(),
+    // Only movies with this tag
+    tag: z.string().min(1).optional(),
+    // Settings left out fall back to the global ones
+    mode: z.enum(TOLERANCE_MODES).optional(),
+    maxOverScore: z.number().min(0).optional(),
+    maxUnderScore: z.number().min(0).optional(),
+    maxOverPercent: z.number().min(0).optional(),
+    maxUnderPercent: z.number().min(0).optional(),
+    tiers: z.array(toleranceTierSchema).optional(),
+  })
+  .refine((data) => data.profile !== undefined || data.tag !== undefined, {
+    message: "A tolerance override needs a profile or a tag",
+    path: ["profile"],
+  });
+
 export const qualityConfigSchema = z.object({
+  // absolute: maxOverScore/maxUnderScore points
+  // percentage: maxOverPercent/maxUnderPercent of the expected score
+  // tiered: the first of `tiers` matching the expected score
+  mode: z.enum(TOLERANCE_MODES).default("absolute"),
   maxOverScore: z.number().min(0).default(100),
   maxUnderScore: z.number().min(0).default(0),
+  maxOverPercent: z.number().min(0).default(10),
+  maxUnderPercent: z.number().min(0).default(0),
+  tiers: z.array(toleranceTierSchema).default([]),
+  // Per quality profile and/or tag thresholds; the first match applies
+  overrides: z.array(toleranceOverrideSchema).default([]),
+});
+
+export const ON_MISMATCH_ACTIONS = [
+  "tag-only",
+  "blocklist-and-research",
+  "delete-and-research",
+] as const;
+
+export const onMismatchConfigSchema = z.object({
+  action: z.enum(ON_MISMATCH_ACTIONS).default("tag-only"),
+  // Blocklisted releases per movie before leaving the mismatch for review
+  maxAttempts: z.number().int().min(1).max(20).default(3),
+});
+
+export const SEVERITIES = ["ok", "minor", "major", "critical"] as const;
+
+export const severityPolicySchema = z.object({
+  // Tag applied instead of tag.mismatchTag
+  tag: z.string().min(1).optional(),
+  notify: z.boolean().default(true),
+  // Action instead of onMismatch.action
+  action: z.enum(ON_MISMATCH_ACTIONS).optional(),
+});
+
+export const severityConfigSchema = z
+  .object({
+    // Smallest score difference (either way) of a major and of a critical
+    // mismatch; smaller mismatches are minor
+    majorDifference: z.number().min(0).default(21),
+    criticalDifference: z.number().min(0).default(51),
+    minor: severityPolicySchema.default({ notify: true }),
+    major: severityPolicySchema.default({ notify: true }),
+    critical: severityPolicySchema.default({ notify: true }),
+  })
+  .refine((data) => data.criticalDifference >= data.majorDifference, {
+    message: "criticalDifference must be at least majorDifference",
+    path: ["criticalDifference"],
+  });
+
+export const historyConfigSchema = z.object({
+  // On wherever node:sqlite is available (Node.js 22.13+) when omitted
+  enabled: z.boolean().optional(),
+  // SQLite database file, relative to the config file directory
+  path: z.string().min(1).default("qualitarr.db"),
+});
+
+export const sonarrBatchConfigSchema = z.object({
+  // Queue one search per episode, or one SeasonSearch per season
+  searchMode: z.enum(["episode", "season"]).default("episode"),
 });
 
 export const batchConfigSchema = z.object({
@@ -57,21 +286,46 @@ export const batchConfigSchema = z.object({
   commandPollIntervalMs: z.number().min(500).max(10000).default(2000),
   grabWaitTimeoutMs: z.number().min(5000).max(120000).default(30000),
   historyPollIntervalMs: z.number().min(1000).max(10000).default(3000),
+  // Movies tagged per movie editor request
+  tagBatchSize: z.number().min(1).max(1000).default(100),
+  sonarr: sonarrBatchConfigSchema.default({ searchMode: "episode" }),
 });
 
 export const configSchema = z
   .object({
-    radarr: radarrConfigSchema.optional(),
-    sonarr: sonarrConfigSchema.optional(),
+    radarr: instancesSchema(radarrConfigSchema).optional(),
+    sonarr: instancesSchema(sonarrConfigSchema).optional(),
     discord: discordConfigSchema.default({ enabled: false }),
+    // Channels notified in addition to `discord`
+    notifications: z.array(notificationEntrySchema).default([]),
     tag: tagConfigSchema.default({
       enabled: true,
       successTag: "check_ok",
       mismatchTag: "quality-mismatch",
+      downgradeTag: "quality-downgrade",
     }),
     quality: qualityConfigSchema.default({
+      mode: "absolute",
       maxOverScore: 100,
       maxUnderScore: 0,
+      maxOverPercent: 10,
+      maxUnderPercent: 0,
+      tiers: [],
+      overrides: [],
+    }),
+    onMismatch: onMismatchConfigSchema.default({
+      action: "tag-only",
+      maxAttempts: 3,
+    }),
+    severity: severityConfigSchema.default({
+      majorDifference: 21,
+      criticalDifference: 51,
+      minor: { notify: true },
+      major: { notify: true },
+      critical: { notify: true },
+    }),
+    history: historyConfigSchema.default({
+      path: "qualitarr.db",
     }),
     batch: batchConfigSchema.default({
       maxConcurrentDownloads: 3,
@@ -82,6 +336,8 @@ export const configSchema = z
       commandPollIntervalMs: 2000,
       grabWaitTimeoutMs: 30000,
       historyPollIntervalMs: 3000,
+      tagBatchSize: 100,
+      sonarr: { searchMode: "episode" },
     }),
   })
   .refine((data) => data.radarr ?? data.sonarr, {
@@ -92,7 +348,30 @@ export type ApiConfig = z.infer<typeof apiConfigSchema>;
 export type RadarrConfig = z.infer<typeof radarrConfigSchema>;
 export type SonarrConfig = z.infer<typeof sonarrConfigSchema>;
 export type DiscordConfig = z.infer<typeof discordConfigSchema>;
+export type DiscordChannelConfig = z.infer<typeof discordChannelSchema>;
+export type TelegramChannelConfig = z.infer<typeof telegramChannelSchema>;
+export type SlackChannelConfig = z.infer<typeof slackChannelSchema>;
+export type NtfyChannelConfig = z.infer<typeof ntfyChannelSchema>;
+export type GotifyChannelConfig = z.infer<typeof gotifyChannelSchema>;
+export type PushoverChannelConfig = z.infer<typeof pushoverChannelSchema>;
+export type EmailChannelConfig = z.infer<typeof emailChannelSchema>;
+export type NotificationChannelConfig = z.infer<
+  typeof notificationChannelSchema
+>;
+export type NotificationChannelType = NotificationChannelConfig["type"];
 export type TagConfig = z.infer<typeof tagConfigSchema>;
+export type ToleranceMode = (typeof TOLERANCE_MODES)[number];
+export type ToleranceTier = z.infer<typeof toleranceTierSchema>;
+export type ToleranceOverride = z.infer<typeof toleranceOverrideSchema>;
 export type QualityConfig = z.infer<typeof qualityConfigSchema>;
+/** Tolerance settings of a movie, once its override is applied */
+export type ToleranceSettings = Omit<QualityConfig, "overrides">;
+export type OnMismatchAction = (typeof ON_MISMATCH_ACTIONS)[number];
+export type OnMismatchConfig = z.infer<typeof onMismatchConfigSchema>;
+export type Severity = (typeof SEVERITIES)[number];
+export type SeverityPolicy = z.infer<typeof severityPolicySchema>;
+export type SeverityConfig = z.infer<typeof severityConfigSchema>;
+export type HistoryConfig = z.infer<typeof historyConfigSchema>;
+export type SonarrBatchConfig = z.infer<typeof sonarrBatchConfigSchema>;
 export type BatchConfig = z.infer<typeof batchConfigSchema>;
 export type Config = z.infer<typeof configSchema>;
@@ -0,0 +1,85 @@
+import type { OnMismatchAction, Severity } from "./config.js";
+import type { MismatchKind } from "./score.js";
+
+/**
+ * One verification (score comparison) persisted in the history store
+ */
+export interface VerificationRecord {
+  mediaType: "movie" | "series";
+  /** Radarr movie ID, or Sonarr series ID */
+  mediaId: number;
+  title: string;
+  year?: number | undefined;
+  /** Episode label(s) for series, e.g. "S02E05" */
+  episode?: string | undefined;
+  instance?: string | undefined;
+  releaseTitle?: string | undefined;
+  indexer?: string | undefined;
+  releaseGroup?: string | undefined;
+  /** Normalized release source, e.g. "WEB-DL" or "Remux" */
+  releaseSource?: string | undefined;
+  /** Custom formats matched at grab time but not on the file */
+  customFormatsLost?: string[] | undefined;
+  /** Custom formats matched on the file but not at grab time */
+  customFormatsGained?: string[] | undefined;
+  /** Quality downgrade from the grab to the file, e.g. "Bluray-2160p -> WEBDL-1080p (resolution)" */
+  qualityDowngrade?: string | undefined;
+  expectedScore: number;
+  actualScore: number;
+  difference: number;
+  quality: string;
+  /** Whether the score is acceptable; a quality mismatch can still have an acceptable score */
+  isAcceptable: boolean;
+  /** Kind of mismatch, absent on passing verifications and on score mismatches recorded before kinds */
+  mismatchKind?: MismatchKind | undefined;
+  /** How far off the score is; absent on quality mismatches and on verifications recorded before severities */
+  severity?: Severity | undefined;
+  /** The mismatch only comes from custom format score changes since the grab */
+  profileDrift?: boolean | undefined;
+  tagApplied: string | null;
+  notificationSent: boolean;
+  /** onMismatch action taken on a mismatched movie */
+  mismatchAction?: OnMismatchAction | undefined;
+  correlationId?: string | undefined;
+  verifiedAt: Date;
+}
+
+/**
+ * Filters applied when reading verifications from the history store
+ */
+export interface VerificationFilter {
+  /** Only verifications of this movie or series */
+  media?: { type: "movie" | "series"; id: number } | undefined;
+  /** Only verifications made at or after this date */
+  since?: Date | undefined;
+  /** Only verifications made before this date */
+  until?: Date | undefined;
+  /** Only verifications of this instance (case-insensitive) */
+  instance?: string | undefined;
+  /** Only verifications of releases from this indexer (case-insensitive) */
+  indexer?: string | undefined;
+  /** Only acceptable ("ok") or mismatched verifications */
+  status?: VerificationStatus | undefined;
+}
+
+export const VERIFICATION_STATUSES = ["ok", "mismatch"] as const;
+
+export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
+
+/**
+ * Reliability of one indexer, release group or release source, computed
+ * from its verifications
+ */
+export interface ReliabilityStats {
+  /** Indexer, release group or release source */
+  name: string;
+  /** Number of verifications */
+  sampleSize: number;
+  mismatches: number;
+  /** Percentage of verifications that were mismatches (0-100) */
+  lieRate: number;
+  meanDifference: number;
+  medianDifference: number;
+  /** Mismatches with the largest score difference, worst first */
+  worstOffenders: VerificationRecord[];
+}
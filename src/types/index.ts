@@ -1,4 +1,7 @@
 export * from "./config.js";
+export * from "./apprise.js";
 export * from "./radarr.js";
+export * from "./sonarr.js";
 export * from "./score.js";
+export * from "./history.js";
 export * from "./services.js";
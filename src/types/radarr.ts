@@ -15,6 +15,11 @@ export const radarrQualitySchema = z.object({
   }),
 });
 
+export const radarrCustomFormatSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+});
+
 export const radarrImageSchema = z.object({
   coverType: z.string(),
   url: z.string().optional(),
@@ -29,6 +34,7 @@ export const radarrMovieSchema = z.object({
   imdbId: z.string().optional(),
   hasFile: z.boolean(),
   monitored: z.boolean(),
+  qualityProfileId: z.number().optional(),
   tags: z.array(z.number()),
   images: z.array(radarrImageSchema).optional(),
 });
@@ -64,6 +70,8 @@ export const radarrHistorySchema = z.object({
   sourceTitle: z.string(),
   quality: radarrQualitySchema,
   customFormatScore: z.number(),
+  // Custom formats matched at grab time
+  customFormats: z.array(radarrCustomFormatSchema).optional(),
   date: z.string(),
   eventType: z.string(),
   data: z.record(z.string(), z.unknown()),
@@ -74,6 +82,20 @@ export const radarrTagSchema = z.object({
   label: z.string(),
 });
 
+export const radarrProfileFormatItemSchema = z.object({
+  // Custom format ID
+  format: z.number(),
+  name: z.string().optional(),
+  score: z.number(),
+});
+
+export const radarrQualityProfileSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  // Score of each custom format in this profile
+  formatItems: z.array(radarrProfileFormatItemSchema).optional(),
+});
+
 export const radarrCommandSchema = z.object({
   id: z.number(),
   name: z.string(),
@@ -91,6 +113,10 @@ export const radarrSystemStatusSchema = z.object({
   urlBase: z.string().optional(),
 });
 
+export const radarrDownloadClientConfigSchema = z.object({
+  autoRedownloadFailed: z.boolean(),
+});
+
 export const radarrMovieFileSchema = z.object({
   id: z.number(),
   movieId: z.number(),
@@ -99,10 +125,12 @@ export const radarrMovieFileSchema = z.object({
   size: z.number(),
   quality: radarrQualitySchema,
   customFormatScore: z.number(),
+  customFormats: z.array(radarrCustomFormatSchema).optional(),
 });
 
 // Types inferred from schemas
 export type RadarrSystemStatus = z.infer<typeof radarrSystemStatusSchema>;
+export type RadarrCustomFormat = z.infer<typeof radarrCustomFormatSchema>;
 export type RadarrImage = z.infer<typeof radarrImageSchema>;
 export type RadarrQuality = z.infer<typeof radarrQualitySchema>;
 export type RadarrMovie = z.infer<typeof radarrMovieSchema>;
@@ -110,5 +138,9 @@ export type RadarrQueueItem = z.infer<typeof radarrQueueItemSchema>;
 export type RadarrRelease = z.infer<typeof radarrReleaseSchema>;
 export type RadarrHistory = z.infer<typeof radarrHistorySchema>;
 export type RadarrTag = z.infer<typeof radarrTagSchema>;
+export type RadarrQualityProfile = z.infer<typeof radarrQualityProfileSchema>;
 export type RadarrCommand = z.infer<typeof radarrCommandSchema>;
 export type RadarrMovieFile = z.infer<typeof radarrMovieFileSchema>;
+export type RadarrDownloadClientConfig = z.infer<
+  typeof radarrDownloadClientConfigSchema
+>;
@@ -1,4 +1,7 @@
 import type { RadarrHistory, RadarrImage } from "./radarr.js";
+import type { SonarrImage } from "./sonarr.js";
+import type { VerificationFilter, VerificationRecord } from "./history.js";
+import type { INotificationService } from "./services.js";
 
 /**
  * Input for score comparison calculation
@@ -20,8 +23,85 @@ export interface ScoreComparisonResult {
   minAllowedScore: number;
   maxAllowedScore: number;
   isAcceptable: boolean;
+  /** Tolerance rule the allowed range comes from, e.g. "percentage +10%/-0%" */
+  rule?: string | undefined;
 }
 
+/**
+ * Score comparison of one episode file against the grabbed release
+ */
+export interface EpisodeFileComparison {
+  episodeFileId: number;
+  episode: string;
+  quality: string;
+  comparison: ScoreComparisonResult;
+}
+
+/**
+ * Result of comparing every file of a download (e.g. a season pack)
+ * against the score of the release that was grabbed
+ */
+export interface PackComparisonResult {
+  expectedScore: number;
+  files: EpisodeFileComparison[];
+  deviating: EpisodeFileComparison[];
+  isAcceptable: boolean;
+}
+
+export const QUALITY_ASPECTS = ["resolution", "source", "revision"] as const;
+
+export type QualityAspect = (typeof QUALITY_ASPECTS)[number];
+
+/**
+ * Quality of the file compared with the quality of the grabbed release
+ */
+export interface QualityComparisonResult {
+  /** Quality name of the grab, with its revision when relevant */
+  grabbedQuality: string;
+  actualQuality: string;
+  /** Aspects in which the file is worse than the grab */
+  downgrades: QualityAspect[];
+  isDowngrade: boolean;
+}
+
+/**
+ * Quality profile and tags of a movie, used to pick its tolerance override
+ */
+export interface ToleranceTarget {
+  qualityProfile?: { id: number; name?: string | undefined } | undefined;
+  /** Tag labels */
+  tags: string[];
+}
+
+/**
+ * Score the grabbed release had at grab time compared with the score its
+ * custom formats have in the current quality profile
+ */
+export interface ProfileDriftResult {
+  /** Score recorded at grab time */
+  historicScore: number;
+  /** Score of the same custom formats with the current profile */
+  currentScore: number;
+  /** The file matches the current score: only the profile changed */
+  isDriftOnly: boolean;
+}
+
+/**
+ * Custom formats lost and gained between the grabbed release and the file
+ */
+export interface CustomFormatDiff {
+  lost: string[];
+  gained: string[];
+}
+
+/**
+ * What a mismatch is about: the custom format score, or the quality itself
+ * (resolution, source or revision) with a matching score
+ */
+export const MISMATCH_KINDS = ["score", "quality"] as const;
+
+export type MismatchKind = (typeof MISMATCH_KINDS)[number];
+
 /**
  * Movie info needed for score result handling
  */
@@ -33,51 +113,111 @@ export interface MovieInfo {
 }
 
 /**
- * Context needed to apply tags and send notifications
+ * Series info needed for score result handling (tags live on the series)
+ */
+export interface SeriesInfo {
+  id: number;
+  title: string;
+  year: number;
+  titleSlug: string;
+  episode: string;
+  images?: SonarrImage[] | undefined;
+}
+
+/**
+ * Grabbed release and run a verification belongs to
  */
-export interface ScoreResultContext {
-  movie: MovieInfo;
+export interface VerificationSource {
+  indexer?: string | undefined;
+  releaseTitle?: string | undefined;
+  releaseGroup?: string | undefined;
+  /** Normalized release source, e.g. "WEB-DL" or "Remux" */
+  releaseSource?: string | undefined;
+  correlationId?: string | undefined;
+}
+
+/**
+ * Context needed to apply tags and send notifications.
+ * Exactly one of movie (Radarr) or series (Sonarr) is expected.
+ */
+export interface ScoreResultContext extends VerificationSource {
+  movie?: MovieInfo | undefined;
+  series?: SeriesInfo | undefined;
   quality: string;
   comparison: ScoreComparisonResult;
-  indexer?: string | undefined;
+  /** History record of the grab, marked as failed by the onMismatch action */
+  grabId?: number | undefined;
+  /** Custom formats lost and gained since the grab, when Radarr reports them */
+  customFormatDiff?: CustomFormatDiff | undefined;
+  /** Quality of the file compared with the grab */
+  qualityComparison?: QualityComparisonResult | undefined;
+  /** Custom format score changes since the grab, on a score mismatch */
+  profileDrift?: ProfileDriftResult | undefined;
 }
 
 /**
  * Services dependency interface for score result handler
  */
 export interface ScoreResultServices {
-  radarr: {
+  radarr?: {
     getMovie(
       id: number
     ): Promise<{ id: number; title: string; year: number; tags: number[] }>;
-    getOrCreateTag(label: string): Promise<{ id: number; label: string }>;
-    addTagToMovie(
+    getTags(): Promise<{ id: number; label: string }[]>;
+    createTag(label: string): Promise<{ id: number; label: string }>;
+    replaceMovieTag(
       movie: { id: number; tags: number[] },
+      removeTagIds: number[],
       tagId: number
     ): Promise<unknown>;
+    getHistory(movieId: number): Promise<{ id: number; eventType: string }[]>;
+    getMovieFile(movieId: number): Promise<{ id: number } | null>;
+    deleteMovieFile(movieFileId: number): Promise<void>;
+    markHistoryFailed(historyId: number): Promise<void>;
+    getDownloadClientConfig(): Promise<{ autoRedownloadFailed: boolean }>;
+    searchMovie(movieId: number): Promise<{ id: number }>;
   };
-  discord: {
-    sendScoreMismatch(info: {
-      title: string;
-      year?: number | undefined;
-      expectedScore: number;
-      actualScore: number;
-      difference: number;
-      maxOverScore: number;
-      quality: string;
-      indexer?: string | undefined;
-      radarrUrl?: string | undefined;
-      movieId?: number | undefined;
-      posterUrl?: string | undefined;
-    }): Promise<void>;
+  notifications: Pick<INotificationService, "sendScoreMismatch">;
+  sonarr?: {
+    getSeriesById(
+      id: number
+    ): Promise<{ id: number; title: string; year: number; tags: number[] }>;
+    getTags(): Promise<{ id: number; label: string }[]>;
+    createTag(label: string): Promise<{ id: number; label: string }>;
+    replaceSeriesTag(
+      series: { id: number; tags: number[] },
+      removeTagIds: number[],
+      tagId: number
+    ): Promise<unknown>;
   };
   radarrUrl?: string | undefined;
+  sonarrUrl?: string | undefined;
+  /** Name of the instance the media lives on, when several are configured */
+  instanceName?: string | undefined;
+  /** Verification history store, when enabled */
+  history?:
+    | {
+        record(entry: VerificationRecord): void;
+        list(filter?: VerificationFilter): VerificationRecord[];
+      }
+    | undefined;
 }
 
 /**
  * History events pair (grabbed and imported)
  */
-export interface HistoryEventPair {
-  grabbed: RadarrHistory | null;
-  imported: RadarrHistory | null;
+export interface HistoryEventPair<T = RadarrHistory> {
+  grabbed: T | null;
+  imported: T | null;
+}
+
+/**
+ * History events sharing one download ID.
+ * Sonarr writes one grabbed record per episode of a release, and one
+ * imported record per imported episode.
+ */
+export interface DownloadHistoryGroup<T> {
+  downloadId: string;
+  grabbed: T | null;
+  imported: T[];
 }
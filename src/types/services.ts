@@ -3,14 +3,50 @@ import type {
   RadarrMovieFile,
   RadarrHistory,
   RadarrTag,
+  RadarrQualityProfile,
+  RadarrCustomFormat,
   RadarrCommand,
   RadarrSystemStatus,
+  RadarrDownloadClientConfig,
 } from "./radarr.js";
+import type {
+  SonarrSeries,
+  SonarrEpisode,
+  SonarrEpisodeFile,
+  SonarrHistory,
+  SonarrTag,
+  SonarrCommand,
+  SonarrSystemStatus,
+} from "./sonarr.js";
+import type { VerificationFilter, VerificationRecord } from "./history.js";
+import type { MismatchKind } from "./score.js";
+import type { Severity } from "./config.js";
+
+/**
+ * How the *arr editor endpoints apply tags to the selected items:
+ * "replace" sets the tags to exactly the given ones
+ */
+export type TagApplyMode = "add" | "remove" | "replace";
 
 /**
  * Media service interface shared by Radarr/Sonarr
  */
 export interface IMediaService {
+  waitForCommand(
+    commandId: number,
+    timeoutMs?: number,
+    pollIntervalMs?: number
+  ): Promise<RadarrCommand | SonarrCommand>;
+  getTags(): Promise<RadarrTag[] | SonarrTag[]>;
+  createTag(label: string): Promise<RadarrTag | SonarrTag>;
+  getOrCreateTag(label: string): Promise<RadarrTag | SonarrTag>;
+  getSystemStatus(): Promise<RadarrSystemStatus | SonarrSystemStatus>;
+}
+
+/**
+ * Movie operations (Radarr)
+ */
+export interface IMovieService extends IMediaService {
   getMovies(): Promise<RadarrMovie[]>;
   getMovie(id: number): Promise<RadarrMovie>;
   getMovieFile(movieId: number): Promise<RadarrMovieFile | null>;
@@ -22,35 +58,121 @@ export interface IMediaService {
     pollIntervalMs?: number
   ): Promise<RadarrCommand>;
   getTags(): Promise<RadarrTag[]>;
+  createTag(label: string): Promise<RadarrTag>;
   getOrCreateTag(label: string): Promise<RadarrTag>;
+  getQualityProfiles(): Promise<RadarrQualityProfile[]>;
+  getQualityProfile(id: number): Promise<RadarrQualityProfile>;
+  getCustomFormats(): Promise<RadarrCustomFormat[]>;
   addTagToMovie(movie: RadarrMovie, tagId: number): Promise<RadarrMovie>;
+  replaceMovieTag(
+    movie: RadarrMovie,
+    removeTagIds: number[],
+    tagId: number
+  ): Promise<RadarrMovie>;
+  editMovieTags(
+    movieIds: number[],
+    tagIds: number[],
+    applyTags: TagApplyMode
+  ): Promise<void>;
+  deleteMovieFile(movieFileId: number): Promise<void>;
+  markHistoryFailed(historyId: number): Promise<void>;
+  getDownloadClientConfig(): Promise<RadarrDownloadClientConfig>;
   getSystemStatus(): Promise<RadarrSystemStatus>;
 }
 
+/**
+ * Series and episode operations (Sonarr)
+ */
+export interface ISeriesService extends IMediaService {
+  getSeries(): Promise<SonarrSeries[]>;
+  getSeriesById(id: number): Promise<SonarrSeries>;
+  getEpisodes(
+    seriesId: number,
+    seasonNumber?: number
+  ): Promise<SonarrEpisode[]>;
+  getEpisode(id: number): Promise<SonarrEpisode>;
+  getEpisodeFiles(seriesId: number): Promise<SonarrEpisodeFile[]>;
+  getEpisodeFile(id: number): Promise<SonarrEpisodeFile>;
+  getHistory(seriesId: number, episodeId?: number): Promise<SonarrHistory[]>;
+  searchEpisodes(episodeIds: number[]): Promise<SonarrCommand>;
+  searchSeason(seriesId: number, seasonNumber: number): Promise<SonarrCommand>;
+  waitForCommand(
+    commandId: number,
+    timeoutMs?: number,
+    pollIntervalMs?: number
+  ): Promise<SonarrCommand>;
+  getTags(): Promise<SonarrTag[]>;
+  createTag(label: string): Promise<SonarrTag>;
+  getOrCreateTag(label: string): Promise<SonarrTag>;
+  addTagToSeries(series: SonarrSeries, tagId: number): Promise<SonarrSeries>;
+  removeTagFromSeries(
+    series: SonarrSeries,
+    tagId: number
+  ): Promise<SonarrSeries>;
+  replaceSeriesTag(
+    series: SonarrSeries,
+    removeTagIds: number[],
+    tagId: number
+  ): Promise<SonarrSeries>;
+  getSystemStatus(): Promise<SonarrSystemStatus>;
+}
+
+/**
+ * Mismatch sent to the notification channels
+ */
+export interface ScoreMismatchInfo {
+  title: string;
+  year?: number | undefined;
+  expectedScore: number;
+  actualScore: number;
+  difference: number;
+  maxOverScore: number;
+  quality: string;
+  indexer?: string | undefined;
+  radarrUrl?: string | undefined;
+  movieId?: number | undefined;
+  posterUrl?: string | undefined;
+  sonarrUrl?: string | undefined;
+  seriesSlug?: string | undefined;
+  episode?: string | undefined;
+  instance?: string | undefined;
+  /** Custom formats lost and gained, e.g. "lost: DV; gained: x265" */
+  customFormats?: string | undefined;
+  /** Defaults to a score mismatch */
+  mismatchKind?: MismatchKind | undefined;
+  /** Quality downgrade, e.g. "Bluray-2160p -> WEBDL-1080p (resolution, source)" */
+  qualityDowngrade?: string | undefined;
+  severity?: Severity | undefined;
+  /** Profile changes since the grab, e.g. "grabbed release scores 120 today (80 at grab time)" */
+  profileDrift?: string | undefined;
+}
+
+/**
+ * Summary of a batch run sent to the notification channels
+ */
+export interface BatchSummaryInfo {
+  totalProcessed: number;
+  completed: number;
+  failed: number;
+  mismatches: number;
+  durationMs: number;
+  failedItems: { title: string; error: string }[];
+  instance?: string | undefined;
+}
+
 /**
  * Notification service interface
  */
 export interface INotificationService {
-  sendScoreMismatch(info: {
-    title: string;
-    year?: number | undefined;
-    expectedScore: number;
-    actualScore: number;
-    difference: number;
-    maxOverScore: number;
-    quality: string;
-    indexer?: string | undefined;
-    radarrUrl?: string | undefined;
-    movieId?: number | undefined;
-    posterUrl?: string | undefined;
-  }): Promise<void>;
-
-  sendBatchSummary(info: {
-    totalProcessed: number;
-    completed: number;
-    failed: number;
-    mismatches: number;
-    durationMs: number;
-    failedItems: { title: string; error: string }[];
-  }): Promise<void>;
+  sendScoreMismatch(info: ScoreMismatchInfo): Promise<void>;
+  sendBatchSummary(info: BatchSummaryInfo): Promise<void>;
+}
+
+/**
+ * Verification history store interface
+ */
+export interface IHistoryStore {
+  record(entry: VerificationRecord): void;
+  list(filter?: VerificationFilter): VerificationRecord[];
+  close(): void;
 }
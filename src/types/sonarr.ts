@@ -0,0 +1,110 @@
+import { z } from "zod/v4";
+
+// Zod schemas for API response validation
+export const sonarrQualitySchema = z.object({
+  quality: z.object({
+    id: z.number(),
+    name: z.string(),
+    source: z.string(),
+    resolution: z.number(),
+  }),
+  revision: z.object({
+    version: z.number(),
+    real: z.number(),
+    isRepack: z.boolean(),
+  }),
+});
+
+export const sonarrImageSchema = z.object({
+  coverType: z.string(),
+  url: z.string().optional(),
+  remoteUrl: z.string().optional(),
+});
+
+export const sonarrSeasonSchema = z.object({
+  seasonNumber: z.number(),
+  monitored: z.boolean(),
+});
+
+export const sonarrSeriesSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  year: z.number(),
+  tvdbId: z.number(),
+  imdbId: z.string().optional(),
+  titleSlug: z.string(),
+  monitored: z.boolean(),
+  tags: z.array(z.number()),
+  seasons: z.array(sonarrSeasonSchema),
+  images: z.array(sonarrImageSchema).optional(),
+});
+
+export const sonarrEpisodeSchema = z.object({
+  id: z.number(),
+  seriesId: z.number(),
+  episodeFileId: z.number(),
+  seasonNumber: z.number(),
+  episodeNumber: z.number(),
+  title: z.string(),
+  airDateUtc: z.string().optional(),
+  hasFile: z.boolean(),
+  monitored: z.boolean(),
+});
+
+export const sonarrEpisodeFileSchema = z.object({
+  id: z.number(),
+  seriesId: z.number(),
+  seasonNumber: z.number(),
+  relativePath: z.string(),
+  path: z.string(),
+  size: z.number(),
+  quality: sonarrQualitySchema,
+  customFormatScore: z.number(),
+});
+
+export const sonarrHistorySchema = z.object({
+  id: z.number(),
+  episodeId: z.number(),
+  seriesId: z.number(),
+  sourceTitle: z.string(),
+  quality: sonarrQualitySchema,
+  customFormatScore: z.number(),
+  date: z.string(),
+  eventType: z.string(),
+  downloadId: z.string().optional(),
+  data: z.record(z.string(), z.unknown()),
+});
+
+export const sonarrTagSchema = z.object({
+  id: z.number(),
+  label: z.string(),
+});
+
+export const sonarrCommandSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: z.string(),
+  queued: z.string(),
+  started: z.string().optional(),
+  ended: z.string().optional(),
+});
+
+export const sonarrSystemStatusSchema = z.object({
+  version: z.string(),
+  startupPath: z.string().optional(),
+  appData: z.string().optional(),
+  osName: z.string().optional(),
+  urlBase: z.string().optional(),
+});
+
+// Types inferred from schemas
+export type SonarrSystemStatus = z.infer<typeof sonarrSystemStatusSchema>;
+export type SonarrImage = z.infer<typeof sonarrImageSchema>;
+export type SonarrQuality = z.infer<typeof sonarrQualitySchema>;
+export type SonarrSeason = z.infer<typeof sonarrSeasonSchema>;
+export type SonarrSeries = z.infer<typeof sonarrSeriesSchema>;
+export type SonarrEpisode = z.infer<typeof sonarrEpisodeSchema>;
+export type SonarrEpisodeFile = z.infer<typeof sonarrEpisodeFileSchema>;
+export type SonarrHistory = z.infer<typeof sonarrHistorySchema>;
+export type SonarrTag = z.infer<typeof sonarrTagSchema>;
+export type SonarrCommand = z.infer<typeof sonarrCommandSchema>;
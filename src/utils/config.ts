@@ -1,5 +1,6 @@
 import { readFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
+import { dirname, resolve } from "node:path";
 import { parse } from "yaml";
 import { configSchema, type Config } from "../types/index.js";
 
@@ -27,7 +28,12 @@ export async function loadConfig(configPath?: string): Promise<Config> {
         throw new Error(`Config validation failed:\n${errors}`);
       }
 
-      return result.data;
+      // Resolve the history database next to the config file, so the
+      // import hook, search and batch all write to the same store
+      const config = result.data;
+      config.history.path = resolve(dirname(path), config.history.path);
+
+      return config;
     }
   }
 
@@ -0,0 +1,35 @@
+/**
+ * Date option parsing utilities
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a date option (e.g. --since): a date (2024-01-31), or a number of
+ * days or weeks before now (30d, 2w)
+ *
+ * @param value - Option value
+ * @param option - Option name, for error messages
+ * @param now - Reference date of relative values
+ * @returns The parsed date
+ */
+export function parseDateOption(
+  value: string,
+  option: string,
+  now = new Date()
+): Date {
+  const relative = /^(\d+)([dw])$/.exec(value.trim());
+  if (relative) {
+    const [, amount, unit] = relative;
+    const days = Number(amount) * (unit === "w" ? 7 : 1);
+    return new Date(now.getTime() - days * DAY_MS);
+  }
+
+  const date = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid ${option} value "${value}" (expected a date like 2024-01-31, or a duration like 30d or 2w)`
+    );
+  }
+  return date;
+}
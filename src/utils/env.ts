@@ -6,6 +6,8 @@ export interface RadarrEnvVars {
   movieYear?: number | undefined;
   releaseQuality?: string | undefined;
   downloadId?: string | undefined;
+  instanceName?: string | undefined;
+  applicationUrl?: string | undefined;
 }
 
 export interface SonarrEnvVars {
@@ -13,13 +15,30 @@ export interface SonarrEnvVars {
   eventType: string;
   seriesId: number;
   seriesTitle: string;
-  episodeId?: number | undefined;
+  episodeFileId?: number | undefined;
+  episodeFileIds: number[];
+  episodeIds: number[];
   releaseQuality?: string | undefined;
   downloadId?: string | undefined;
+  instanceName?: string | undefined;
+  applicationUrl?: string | undefined;
 }
 
 export type ArrEnvVars = RadarrEnvVars | SonarrEnvVars;
 
+/**
+ * Parse a comma-separated list of IDs, ignoring invalid entries
+ */
+function parseIdList(value: string | undefined): number[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(",")
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !isNaN(id));
+}
+
 export function parseRadarrEnv(): RadarrEnvVars | null {
   const eventType = process.env["radarr_eventtype"];
   const movieIdStr = process.env["radarr_movie_id"];
@@ -43,6 +62,8 @@ export function parseRadarrEnv(): RadarrEnvVars | null {
       : undefined,
     releaseQuality: process.env["radarr_release_quality"],
     downloadId: process.env["radarr_download_id"],
+    instanceName: process.env["radarr_instancename"],
+    applicationUrl: process.env["radarr_applicationurl"],
   };
 }
 
@@ -59,16 +80,32 @@ export function parseSonarrEnv(): SonarrEnvVars | null {
     return null;
   }
 
+  const episodeFileId = process.env["sonarr_episodefile_id"]
+    ? parseInt(process.env["sonarr_episodefile_id"], 10)
+    : undefined;
+
+  // "On Import Complete" passes every file of the download at once
+  let episodeFileIds = parseIdList(process.env["sonarr_episodefile_ids"]);
+  if (
+    episodeFileIds.length === 0 &&
+    episodeFileId !== undefined &&
+    !isNaN(episodeFileId)
+  ) {
+    episodeFileIds = [episodeFileId];
+  }
+
   return {
     type: "sonarr",
     eventType,
     seriesId,
     seriesTitle: process.env["sonarr_series_title"] ?? "Unknown",
-    episodeId: process.env["sonarr_episodefile_id"]
-      ? parseInt(process.env["sonarr_episodefile_id"], 10)
-      : undefined,
+    episodeFileId,
+    episodeFileIds,
+    episodeIds: parseIdList(process.env["sonarr_episodefile_episodeids"]),
     releaseQuality: process.env["sonarr_release_quality"],
     downloadId: process.env["sonarr_download_id"],
+    instanceName: process.env["sonarr_instancename"],
+    applicationUrl: process.env["sonarr_applicationurl"],
   };
 }
 
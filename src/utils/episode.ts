@@ -0,0 +1,23 @@
+/**
+ * Episode formatting utilities
+ */
+
+/**
+ * Format a season/episode label, e.g. "S02E05" or "S02E05-E06"
+ * for multi-episode files
+ *
+ * @param seasonNumber - Season number
+ * @param episodeNumbers - Episode numbers contained in the file
+ * @returns The formatted label
+ */
+export function formatEpisodeLabel(
+  seasonNumber: number,
+  episodeNumbers: number[]
+): string {
+  const season = `S${String(seasonNumber).padStart(2, "0")}`;
+  const sorted = [...episodeNumbers].sort((a, b) => a - b);
+  const episodes = sorted
+    .map((n) => `E${String(n).padStart(2, "0")}`)
+    .join("-");
+  return `${season}${episodes}`;
+}
@@ -1,19 +1,35 @@
 import type { RadarrHistory } from "../types/radarr.js";
-import type { HistoryEventPair } from "../types/score.js";
+import type {
+  HistoryEventPair,
+  DownloadHistoryGroup,
+  VerificationSource,
+} from "../types/score.js";
 import { sleep } from "./async.js";
+import { parseReleaseGroup, parseReleaseSource } from "./release.js";
 
 /**
- * Event types used in Radarr history
+ * Minimal shape shared by Radarr and Sonarr history records
+ */
+interface HistoryRecord {
+  id: number;
+  eventType: string;
+}
+
+/**
+ * Event types used in Radarr/Sonarr history
  */
 export const HISTORY_EVENT_TYPES = {
   GRABBED: "grabbed",
   IMPORTED: "downloadFolderImported",
+  FAILED: "downloadFailed",
 } as const;
 
 /**
  * Find grabbed and imported events from a history array
  */
-export function findHistoryEvents(history: RadarrHistory[]): HistoryEventPair {
+export function findHistoryEvents<T extends HistoryRecord = RadarrHistory>(
+  history: T[]
+): HistoryEventPair<T> {
   return {
     grabbed:
       history.find((h) => h.eventType === HISTORY_EVENT_TYPES.GRABBED) ?? null,
@@ -22,14 +38,67 @@ export function findHistoryEvents(history: RadarrHistory[]): HistoryEventPair {
   };
 }
 
+/**
+ * Extract the release title, indexer, release group and source of a
+ * grabbed event. The release group reported by Radarr/Sonarr is preferred
+ * over the one parsed from the release title.
+ */
+export function getGrabDetails(grabbed: {
+  sourceTitle: string;
+  quality?: { quality: { name: string; source: string } };
+  data: Record<string, unknown>;
+}): VerificationSource {
+  const { indexer, releaseGroup } = grabbed.data;
+  return {
+    releaseTitle: grabbed.sourceTitle,
+    indexer: typeof indexer === "string" ? indexer : undefined,
+    releaseGroup:
+      typeof releaseGroup === "string" && releaseGroup !== ""
+        ? releaseGroup
+        : parseReleaseGroup(grabbed.sourceTitle),
+    releaseSource: parseReleaseSource(
+      grabbed.sourceTitle,
+      grabbed.quality?.quality
+    ),
+  };
+}
+
+/**
+ * Group grabbed and imported events by download ID.
+ * Events without a download ID (e.g. manual imports) are ignored.
+ */
+export function groupHistoryByDownloadId<
+  T extends HistoryRecord & { downloadId?: string | undefined },
+>(history: T[]): Map<string, DownloadHistoryGroup<T>> {
+  const groups = new Map<string, DownloadHistoryGroup<T>>();
+
+  for (const event of history) {
+    if (!event.downloadId) continue;
+
+    let group = groups.get(event.downloadId);
+    if (!group) {
+      group = { downloadId: event.downloadId, grabbed: null, imported: [] };
+      groups.set(event.downloadId, group);
+    }
+
+    if (event.eventType === HISTORY_EVENT_TYPES.GRABBED) {
+      group.grabbed ??= event;
+    } else if (event.eventType === HISTORY_EVENT_TYPES.IMPORTED) {
+      group.imported.push(event);
+    }
+  }
+
+  return groups;
+}
+
 /**
  * Find a new history event that doesn't exist in the initial set
  */
-export function findNewHistoryEvent(
-  history: RadarrHistory[],
+export function findNewHistoryEvent<T extends HistoryRecord = RadarrHistory>(
+  history: T[],
   eventType: string,
   initialEventIds: Set<number>
-): RadarrHistory | null {
+): T | null {
   return (
     history.find(
       (h) => h.eventType === eventType && !initialEventIds.has(h.id)
@@ -54,11 +123,13 @@ export interface WaitForHistoryEventOptions {
  * @param options - Polling options
  * @returns The new history event or null if timed out
  */
-export async function waitForHistoryEvent(
-  fetchHistory: () => Promise<RadarrHistory[]>,
+export async function waitForHistoryEvent<
+  T extends HistoryRecord = RadarrHistory,
+>(
+  fetchHistory: () => Promise<T[]>,
   eventType: string,
   options: WaitForHistoryEventOptions = {}
-): Promise<RadarrHistory | null> {
+): Promise<T | null> {
   const { timeoutMs = 60000, pollIntervalMs = 5000, initialEventIds } = options;
 
   const startTime = Date.now();
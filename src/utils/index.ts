@@ -1,7 +1,11 @@
 export * from "./async.js";
 export * from "./config.js";
+export * from "./date.js";
 export * from "./error.js";
 export * from "./logger.js";
 export * from "./env.js";
+export * from "./episode.js";
 export * from "./history.js";
+export * from "./instance.js";
+export * from "./release.js";
 export * from "./version.js";
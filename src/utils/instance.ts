@@ -0,0 +1,145 @@
+/**
+ * Radarr/Sonarr instance selection, for configs with a named list of instances
+ */
+
+interface InstanceConfig {
+  name?: string | undefined;
+  url: string;
+}
+
+/**
+ * Values of the custom-script environment identifying the sending instance
+ */
+export interface InstanceHint {
+  name?: string | undefined;
+  url?: string | undefined;
+}
+
+/**
+ * List the configured instances of an app
+ *
+ * @param instances - The `radarr` or `sonarr` config value
+ * @returns Every configured instance (empty when not configured)
+ */
+export function listInstances<T extends InstanceConfig>(
+  instances: T | T[] | undefined
+): T[] {
+  if (!instances) {
+    return [];
+  }
+  return Array.isArray(instances) ? instances : [instances];
+}
+
+/**
+ * Select an instance by name. The name may be omitted when a single
+ * instance is configured.
+ *
+ * @param instances - The `radarr` or `sonarr` config value
+ * @param appName - App name used in error messages
+ * @param name - Instance name (case-insensitive)
+ * @returns The selected instance
+ * @throws Error if the instance cannot be determined
+ */
+export function selectInstance<T extends InstanceConfig>(
+  instances: T | T[] | undefined,
+  appName: string,
+  name?: string
+): T {
+  const list = listInstances(instances);
+
+  if (name !== undefined) {
+    const instance = findByName(list, name);
+    if (!instance) {
+      throw new Error(
+        `${appName} instance "${name}" is not configured (available: ${formatNames(list)})`
+      );
+    }
+    return instance;
+  }
+
+  const [first, ...others] = list;
+  if (!first) {
+    throw new Error(`${appName} is not configured`);
+  }
+  if (others.length > 0) {
+    throw new Error(
+      `Multiple ${appName} instances configured, select one with --instance (available: ${formatNames(list)})`
+    );
+  }
+  return first;
+}
+
+/**
+ * Match the instance that sent a custom-script event, by instance name,
+ * then by application URL, then as the only configured instance
+ *
+ * @param instances - The `radarr` or `sonarr` config value
+ * @param appName - App name used in error messages
+ * @param hint - Instance name and URL from the environment
+ * @returns The matching instance
+ * @throws Error if no instance matches
+ */
+export function matchInstance<T extends InstanceConfig>(
+  instances: T | T[] | undefined,
+  appName: string,
+  hint: InstanceHint
+): T {
+  const list = listInstances(instances);
+
+  const byName = hint.name ? findByName(list, hint.name) : undefined;
+  if (byName) {
+    return byName;
+  }
+
+  const hintUrl = hint.url ? normalizeUrl(hint.url) : null;
+  const byUrl = hintUrl
+    ? list.find((i) => normalizeUrl(i.url) === hintUrl)
+    : undefined;
+  if (byUrl) {
+    return byUrl;
+  }
+
+  const [first, ...others] = list;
+  if (!first) {
+    throw new Error(`${appName} is not configured`);
+  }
+  if (others.length > 0) {
+    throw new Error(
+      `No ${appName} instance matches instance "${hint.name ?? "unknown"}" (${hint.url ?? "no URL"}), configured: ${formatNames(list)}`
+    );
+  }
+  return first;
+}
+
+/**
+ * Label of an instance for logs and notifications, e.g. "Radarr (4k)"
+ */
+export function formatInstanceLabel(
+  appName: string,
+  instance: InstanceConfig
+): string {
+  return instance.name ? `${appName} (${instance.name})` : appName;
+}
+
+function findByName<T extends InstanceConfig>(
+  list: T[],
+  name: string
+): T | undefined {
+  return list.find((i) => i.name?.toLowerCase() === name.toLowerCase());
+}
+
+function formatNames(list: InstanceConfig[]): string {
+  return list.map((i) => i.name ?? i.url).join(", ");
+}
+
+/**
+ * Compare URLs by host and path, ignoring scheme and trailing slashes
+ */
+function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.host}${parsed.pathname.replace(/\/+$/, "")}`.toLowerCase();
+  } catch {
+    return null;
+  }
+}
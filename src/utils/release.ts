@@ -0,0 +1,87 @@
+/**
+ * Release name parsing utilities
+ */
+
+/**
+ * Normalized release sources, from Radarr/Sonarr quality sources and
+ * release titles
+ */
+export const RELEASE_SOURCES = {
+  REMUX: "Remux",
+  BLURAY: "Bluray",
+  WEBDL: "WEB-DL",
+  WEBRIP: "WEBRip",
+  HDTV: "HDTV",
+  DVD: "DVD",
+} as const;
+
+export type ReleaseSource =
+  (typeof RELEASE_SOURCES)[keyof typeof RELEASE_SOURCES];
+
+// Checked in order: a "BluRay REMUX" is a remux, a "WEBRip" is not a WEB-DL
+const TITLE_SOURCE_PATTERNS: [RegExp, ReleaseSource][] = [
+  [/\bremux\b/i, RELEASE_SOURCES.REMUX],
+  [/\b(blu-?ray|bdrip|brrip|bd25|bd50)\b/i, RELEASE_SOURCES.BLURAY],
+  [/\bweb-?rip\b/i, RELEASE_SOURCES.WEBRIP],
+  [/\bweb(-?dl)?\b/i, RELEASE_SOURCES.WEBDL],
+  [/\b(hdtv|pdtv|sdtv)\b/i, RELEASE_SOURCES.HDTV],
+  [/\bdvd(rip|r|5|9)?\b/i, RELEASE_SOURCES.DVD],
+];
+
+// Quality sources of Radarr (webdl, tv) and Sonarr (web, television, blurayRaw)
+const QUALITY_SOURCES: Record<string, ReleaseSource> = {
+  bluray: RELEASE_SOURCES.BLURAY,
+  blurayraw: RELEASE_SOURCES.REMUX,
+  webdl: RELEASE_SOURCES.WEBDL,
+  web: RELEASE_SOURCES.WEBDL,
+  webrip: RELEASE_SOURCES.WEBRIP,
+  tv: RELEASE_SOURCES.HDTV,
+  television: RELEASE_SOURCES.HDTV,
+  televisionraw: RELEASE_SOURCES.HDTV,
+  dvd: RELEASE_SOURCES.DVD,
+};
+
+/**
+ * Parse the source of a release from its title, falling back to the
+ * quality Radarr/Sonarr assigned to it
+ *
+ * @param title - Release title, e.g. "Movie.2024.1080p.BluRay.x264-GRP"
+ * @param quality - Quality of the grabbed release, when known
+ * @returns The normalized source, or undefined when it cannot be determined
+ */
+export function parseReleaseSource(
+  title: string,
+  quality?: { name: string; source: string }
+): ReleaseSource | undefined {
+  for (const [pattern, source] of TITLE_SOURCE_PATTERNS) {
+    if (pattern.test(title)) {
+      return source;
+    }
+  }
+
+  if (!quality) {
+    return undefined;
+  }
+  if (/remux/i.test(quality.name)) {
+    return RELEASE_SOURCES.REMUX;
+  }
+  return QUALITY_SOURCES[quality.source.toLowerCase()];
+}
+
+/**
+ * Parse the release group from the end of a release title
+ *
+ * @param title - Release title, e.g. "Movie.2024.1080p.WEB-DL.H.264-GRP"
+ * @returns The release group, or undefined when the title has none
+ */
+export function parseReleaseGroup(title: string): string | undefined {
+  // Drop trailing indexer/tracker tags, e.g. "[rartv]"
+  const stripped = title.replace(/(\s*\[[^\]]*\])+$/, "").trim();
+  const group = /-([A-Za-z0-9]+)$/.exec(stripped)?.[1];
+
+  // "WEB-DL" or "WEB-Rip" at the end of a title without group
+  if (!group || /^(dl|rip)$/i.test(group)) {
+    return undefined;
+  }
+  return group;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '../../src/types/config.js';
+
+const { mockHistory, mockOpenHistoryStore } = vi.hoisted(() => ({
+  mockHistory: {
+    list: vi.fn(),
+    close: vi.fn(),
+  },
+  mockOpenHistoryStore: vi.fn(),
+}));
+
+vi.mock('../../src/services/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/services/index.js')>();
+  return {
+    ...actual,
+    openHistoryStore: mockOpenHistoryStore,
+  };
+});
+
+vi.mock('node:fs/promises', () => ({
+  writeFile: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { writeFile } from 'node:fs/promises';
+import { exportCommand } from '../../src/commands/export.js';
+
+const config = {
+  history: { enabled: true, path: '/data/qualitarr.db' },
+} as Config;
+
+const verification = {
+  mediaType: 'movie',
+  mediaId: 1,
+  title: 'Test Movie',
+  expectedScore: 100,
+  actualScore: 80,
+  difference: -20,
+  quality: 'Bluray-1080p',
+  isAcceptable: false,
+  tagApplied: null,
+  notificationSent: false,
+  verifiedAt: new Date('2024-01-01T00:00:00Z'),
+};
+
+describe('exportCommand', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let stdoutSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    stdoutSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    vi.clearAllMocks();
+    mockOpenHistoryStore.mockResolvedValue(mockHistory);
+    mockHistory.list.mockReturnValue([verification]);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    stdoutSpy.mockRestore();
+  });
+
+  it('should write the filtered verifications to the output file', async () => {
+    const since = new Date('2024-01-01T00:00:00Z');
+    const until = new Date('2024-02-01T00:00:00Z');
+
+    await exportCommand(config, {
+      format: 'json',
+      output: 'out.json',
+      since,
+      until,
+      instance: '4k',
+      indexer: 'NZBgeek',
+      status: 'mismatch',
+    });
+
+    expect(mockHistory.list).toHaveBeenCalledWith({
+      since,
+      until,
+      instance: '4k',
+      indexer: 'NZBgeek',
+      status: 'mismatch',
+    });
+    expect(writeFile).toHaveBeenCalledWith(
+      'out.json',
+      expect.stringContaining('"title": "Test Movie"'),
+      'utf-8'
+    );
+    expect(mockHistory.close).toHaveBeenCalled();
+  });
+
+  it('should write to stdout without logging when no output is given', async () => {
+    await exportCommand(config, { format: 'ndjson' });
+
+    expect(stdoutSpy).toHaveBeenCalledWith(expect.stringContaining('"mediaId":1'));
+    expect(consoleSpy).not.toHaveBeenCalled();
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the history is not available', async () => {
+    mockOpenHistoryStore.mockResolvedValue(null);
+
+    await expect(exportCommand(config, { format: 'csv' })).rejects.toThrow(
+      'Verification history is not available'
+    );
+  });
+});
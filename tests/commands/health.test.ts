@@ -6,23 +6,32 @@ const mockGetSystemStatus = vi.fn();
 const mockGetMovies = vi.fn();
 const mockSendScoreMismatch = vi.fn();
 
-vi.mock('../../src/services/index.js', () => ({
-  RadarrService: function () {
-    return {
-      getSystemStatus: mockGetSystemStatus,
-      getMovies: mockGetMovies,
-    };
-  },
+vi.mock('../../src/services/index.js', async () => {
+  const notifications = await vi.importActual<typeof import('../../src/services/notifications.js')>(
+    '../../src/services/notifications.js'
+  );
+  return {
+    RadarrService: function () {
+      return {
+        getSystemStatus: mockGetSystemStatus,
+        getMovies: mockGetMovies,
+      };
+    },
+    createNotificationChannels: notifications.createNotificationChannels,
+    compareScores: vi.fn(),
+    handleScoreResult: vi.fn(),
+    logScoreComparison: vi.fn(),
+    logDryRunResult: vi.fn(),
+    logScoreSummary: vi.fn(),
+  };
+});
+
+vi.mock('../../src/services/discord.js', () => ({
   DiscordService: function () {
     return {
       sendScoreMismatch: mockSendScoreMismatch,
     };
   },
-  compareScores: vi.fn(),
-  handleScoreResult: vi.fn(),
-  logScoreComparison: vi.fn(),
-  logDryRunResult: vi.fn(),
-  logScoreSummary: vi.fn(),
 }));
 
 describe('healthCommand', () => {
@@ -40,8 +49,24 @@ describe('healthCommand', () => {
   function createBaseConfig(overrides?: Partial<Config>): Config {
     return {
       discord: { enabled: false },
-      tag: { enabled: true, successTag: 'check_ok', mismatchTag: 'quality-mismatch' },
-      quality: { maxOverScore: 100, maxUnderScore: 0 },
+      notifications: [],
+      tag: { enabled: true, successTag: 'check_ok', mismatchTag: 'quality-mismatch', downgradeTag: 'quality-downgrade' },
+      quality: {
+        mode: 'absolute',
+        maxOverScore: 100,
+        maxUnderScore: 0,
+        maxOverPercent: 10,
+        maxUnderPercent: 0,
+        tiers: [],
+        overrides: [],
+      },
+      severity: {
+        majorDifference: 21,
+        criticalDifference: 51,
+        minor: { notify: true },
+        major: { notify: true },
+        critical: { notify: true },
+      },
       batch: {
         maxConcurrentDownloads: 3,
         searchIntervalSeconds: 30,
@@ -103,13 +128,17 @@ describe('healthCommand', () => {
     expect(output).toContain('Connection refused');
   });
 
-  it('should show Discord as disabled when not enabled', async () => {
-    const config = createBaseConfig();
+  it('should show notifications as disabled when no channel is enabled', async () => {
+    const config = createBaseConfig({
+      notifications: [
+        { type: 'discord', enabled: false, webhookUrl: 'https://discord.com/api/webhooks/123/abcdefghij' },
+      ],
+    });
 
     await healthCommand(config);
 
     const output = consoleSpy.mock.calls.map(c => c[0]).join('\n');
-    expect(output).toContain('[Discord] Disabled');
+    expect(output).toContain('[Notifications] Disabled');
   });
 
   it('should show masked webhook URL when Discord is enabled', async () => {
@@ -180,9 +209,35 @@ describe('healthCommand', () => {
     expect(output).toContain('[Discord] Failed to send test notification');
   });
 
+  it('should test each notification channel on its own', async () => {
+    mockSendScoreMismatch.mockRejectedValueOnce(new Error('Webhook error')).mockResolvedValueOnce(undefined);
+
+    const config = createBaseConfig({
+      notifications: [
+        { type: 'discord', name: 'ops', enabled: true, webhookUrl: 'https://discord.com/api/webhooks/1/abcdefghij' },
+        { type: 'discord', name: 'home', enabled: true, webhookUrl: 'https://discord.com/api/webhooks/2/abcdefghij' },
+      ],
+    });
+
+    await healthCommand(config, { notify: true });
+
+    const output = consoleSpy.mock.calls.map(c => c[0]).join('\n');
+    expect(mockSendScoreMismatch).toHaveBeenCalledTimes(2);
+    expect(output).toContain('[ops] Failed to send test notification');
+    expect(output).toContain('[home] Test notification sent successfully');
+  });
+
   it('should display quality thresholds', async () => {
     const config = createBaseConfig({
-      quality: { maxOverScore: 50, maxUnderScore: 10 },
+      quality: {
+        mode: 'absolute',
+        maxOverScore: 50,
+        maxUnderScore: 10,
+        maxOverPercent: 10,
+        maxUnderPercent: 0,
+        tiers: [],
+        overrides: [],
+      },
     });
 
     await healthCommand(config);
@@ -192,9 +247,19 @@ describe('healthCommand', () => {
     expect(output).toContain('Max under score: 10');
   });
 
+  it('should display severity bands', async () => {
+    const config = createBaseConfig();
+
+    await healthCommand(config);
+
+    const output = consoleSpy.mock.calls.map(c => c[0]).join('\n');
+    expect(output).toContain('Major: difference >= 21');
+    expect(output).toContain('Critical: difference >= 51');
+  });
+
   it('should display tag configuration when enabled', async () => {
     const config = createBaseConfig({
-      tag: { enabled: true, successTag: 'my-ok', mismatchTag: 'my-fail' },
+      tag: { enabled: true, successTag: 'my-ok', mismatchTag: 'my-fail', downgradeTag: 'my-downgrade' },
     });
 
     await healthCommand(config);
@@ -207,7 +272,7 @@ describe('healthCommand', () => {
 
   it('should not display tag names when tags are disabled', async () => {
     const config = createBaseConfig({
-      tag: { enabled: false, successTag: 'check_ok', mismatchTag: 'quality-mismatch' },
+      tag: { enabled: false, successTag: 'check_ok', mismatchTag: 'quality-mismatch', downgradeTag: 'quality-downgrade' },
     });
 
     await healthCommand(config);
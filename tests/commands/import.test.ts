@@ -0,0 +1,280 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '../../src/types/config.js';
+import type { SonarrEnvVars } from '../../src/utils/env.js';
+
+const { mockSonarr, mockDiscord } = vi.hoisted(() => ({
+  mockSonarr: {
+    getSeriesById: vi.fn(),
+    getEpisodeFile: vi.fn(),
+    getEpisodes: vi.fn(),
+    getHistory: vi.fn(),
+    getTags: vi.fn(),
+    createTag: vi.fn(),
+    replaceSeriesTag: vi.fn(),
+  },
+  mockDiscord: {
+    sendScoreMismatch: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../src/services/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/services/index.js')>();
+  return {
+    ...actual,
+    SonarrService: function () {
+      return mockSonarr;
+    },
+    createNotificationService: function () {
+      return mockDiscord;
+    },
+  };
+});
+
+import { importCommand } from '../../src/commands/import.js';
+
+const quality = {
+  quality: { id: 3, name: 'WEBDL-1080p', source: 'web', resolution: 1080 },
+  revision: { version: 1, real: 0, isRepack: false },
+};
+
+const series = {
+  id: 1,
+  title: 'Test Series',
+  year: 2020,
+  tvdbId: 81189,
+  titleSlug: 'test-series',
+  monitored: true,
+  tags: [],
+  seasons: [{ seasonNumber: 2, monitored: true }],
+};
+
+const episodeFile = {
+  id: 500,
+  seriesId: 1,
+  seasonNumber: 2,
+  relativePath: 'S02E05.mkv',
+  path: '/tv/S02E05.mkv',
+  size: 1000,
+  quality,
+  customFormatScore: 80,
+};
+
+const episodes = [
+  { id: 100, seriesId: 1, episodeFileId: 500, seasonNumber: 2, episodeNumber: 5, title: 'E5', hasFile: true, monitored: true },
+  { id: 101, seriesId: 1, episodeFileId: 501, seasonNumber: 2, episodeNumber: 6, title: 'E6', hasFile: true, monitored: true },
+];
+
+function grabbed(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1000,
+    episodeId: 100,
+    seriesId: 1,
+    sourceTitle: 'Test.Series.S02E05.1080p.WEB-DL',
+    quality,
+    customFormatScore: 80,
+    date: '2024-01-01T00:00:00Z',
+    eventType: 'grabbed',
+    downloadId: 'ABC',
+    data: { indexer: 'NZBgeek' },
+    ...overrides,
+  };
+}
+
+function createConfig(): Config {
+  return {
+    sonarr: {
+      url: 'http://sonarr:8989',
+      apiKey: 'test-key',
+      api: { timeoutMs: 5000, retryAttempts: 0, retryDelayMs: 100 },
+    },
+    discord: { enabled: false },
+    notifications: [],
+    history: { enabled: false, path: 'qualitarr.db' },
+    tag: { enabled: true, successTag: 'check_ok', mismatchTag: 'quality-mismatch', downgradeTag: 'quality-downgrade' },
+    quality: {
+      mode: 'absolute',
+      maxOverScore: 100,
+      maxUnderScore: 0,
+      maxOverPercent: 10,
+      maxUnderPercent: 0,
+      tiers: [],
+      overrides: [],
+    },
+  } as Config;
+}
+
+function createEnv(overrides: Partial<SonarrEnvVars> = {}): SonarrEnvVars {
+  return {
+    type: 'sonarr',
+    eventType: 'Download',
+    seriesId: 1,
+    seriesTitle: 'Test Series',
+    episodeFileId: 500,
+    episodeFileIds: [500],
+    episodeIds: [],
+    downloadId: 'ABC',
+    ...overrides,
+  };
+}
+
+describe('importCommand (Sonarr)', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.clearAllMocks();
+    mockSonarr.getSeriesById.mockResolvedValue(series);
+    mockSonarr.getEpisodeFile.mockResolvedValue(episodeFile);
+    mockSonarr.getEpisodes.mockResolvedValue(episodes);
+    mockSonarr.createTag.mockImplementation((label: string) =>
+      Promise.resolve({ id: label === 'check_ok' ? 1 : 2, label })
+    );
+    mockSonarr.getTags.mockResolvedValue([]);
+    mockSonarr.replaceSeriesTag.mockResolvedValue(series);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should throw when Sonarr is not configured', async () => {
+    const config = createConfig();
+    delete (config as Record<string, unknown>).sonarr;
+
+    await expect(importCommand(config, createEnv())).rejects.toThrow(
+      'Sonarr is not configured'
+    );
+  });
+
+  it('should skip when no episode file is provided', async () => {
+    await importCommand(
+      createConfig(),
+      createEnv({ episodeFileId: undefined, episodeFileIds: [] })
+    );
+
+    expect(mockSonarr.getSeriesById).not.toHaveBeenCalled();
+  });
+
+  it('should leave the series success tag to batch when scores match', async () => {
+    mockSonarr.getHistory.mockResolvedValue([grabbed()]);
+
+    await importCommand(createConfig(), createEnv());
+
+    expect(mockSonarr.createTag).not.toHaveBeenCalled();
+    expect(mockSonarr.replaceSeriesTag).not.toHaveBeenCalled();
+    expect(mockDiscord.sendScoreMismatch).not.toHaveBeenCalled();
+  });
+
+  it('should tag and notify on mismatch using the grab of the imported download', async () => {
+    mockSonarr.getHistory.mockResolvedValue([
+      grabbed({ id: 1002, customFormatScore: 80, downloadId: 'NEWER' }),
+      grabbed({ id: 1001, customFormatScore: 150, downloadId: 'ABC' }),
+    ]);
+
+    await importCommand(createConfig(), createEnv());
+
+    expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledWith(series, [], 2);
+    expect(mockDiscord.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'Test Series',
+        expectedScore: 150,
+        actualScore: 80,
+        episode: 'S02E05',
+        seriesSlug: 'test-series',
+        sonarrUrl: 'http://sonarr:8989',
+        indexer: 'NZBgeek',
+      })
+    );
+  });
+
+  it('should use episode IDs from the environment when provided', async () => {
+    mockSonarr.getHistory.mockResolvedValue([
+      grabbed({ episodeId: 101, downloadId: 'OTHER', customFormatScore: 200 }),
+    ]);
+
+    await importCommand(createConfig(), createEnv({ episodeIds: [101], downloadId: undefined }));
+
+    expect(mockDiscord.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({ episode: 'S02E06', expectedScore: 200 })
+    );
+  });
+
+  describe('season packs', () => {
+    const secondFile = { ...episodeFile, id: 501, customFormatScore: 20 };
+
+    beforeEach(() => {
+      mockSonarr.getEpisodeFile.mockImplementation((id: number) =>
+        Promise.resolve(id === 500 ? episodeFile : secondFile)
+      );
+    });
+
+    it('should check every file of the pack against the pack grab and report deviating episodes', async () => {
+      mockSonarr.getHistory.mockResolvedValue([
+        grabbed({ id: 1001, episodeId: 101, downloadId: 'ABC' }),
+        grabbed({ id: 1000, episodeId: 100, downloadId: 'ABC' }),
+      ]);
+
+      await importCommand(
+        createConfig(),
+        createEnv({ episodeFileId: undefined, episodeFileIds: [500, 501] })
+      );
+
+      expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledTimes(1);
+      expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledWith(series, [], 2);
+      expect(mockDiscord.sendScoreMismatch).toHaveBeenCalledTimes(1);
+      expect(mockDiscord.sendScoreMismatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          episode: 'S02E06',
+          expectedScore: 80,
+          actualScore: 20,
+          difference: -60,
+        })
+      );
+    });
+
+    it('should not tag the series when every file of the pack matches', async () => {
+      mockSonarr.getEpisodeFile.mockResolvedValue(episodeFile);
+      mockSonarr.getHistory.mockResolvedValue([grabbed()]);
+
+      await importCommand(
+        createConfig(),
+        createEnv({ episodeFileId: undefined, episodeFileIds: [500, 501] })
+      );
+
+      expect(mockSonarr.replaceSeriesTag).not.toHaveBeenCalled();
+      expect(mockDiscord.sendScoreMismatch).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should use the instance that sent the event', async () => {
+    mockSonarr.getHistory.mockResolvedValue([
+      grabbed({ customFormatScore: 150 }),
+    ]);
+    const config = {
+      ...createConfig(),
+      sonarr: [
+        { name: 'hd', url: 'http://sonarr:8989', apiKey: 'hd-key', api: { timeoutMs: 5000, retryAttempts: 0, retryDelayMs: 100 } },
+        { name: '4k', url: 'http://sonarr4k:8989', apiKey: '4k-key', api: { timeoutMs: 5000, retryAttempts: 0, retryDelayMs: 100 } },
+      ],
+    } as Config;
+
+    await importCommand(config, createEnv({ instanceName: '4k' }));
+
+    expect(mockDiscord.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sonarrUrl: 'http://sonarr4k:8989',
+        instance: '4k',
+      })
+    );
+  });
+
+  it('should skip when no grabbed event exists for the episodes', async () => {
+    mockSonarr.getHistory.mockResolvedValue([
+      grabbed({ episodeId: 999, downloadId: 'OTHER' }),
+    ]);
+
+    await importCommand(createConfig(), createEnv());
+
+    expect(mockSonarr.replaceSeriesTag).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '../../src/types/config.js';
+
+const { mockRadarr, mockQuestion } = vi.hoisted(() => ({
+  mockRadarr: {
+    getTags: vi.fn(),
+    getMovies: vi.fn(),
+    getHistory: vi.fn(),
+    getMovieFile: vi.fn(),
+    getOrCreateTag: vi.fn(),
+    replaceMovieTag: vi.fn(),
+    markHistoryFailed: vi.fn(),
+    getDownloadClientConfig: vi.fn(),
+    searchMovie: vi.fn(),
+  },
+  mockQuestion: vi.fn(),
+}));
+
+vi.mock('../../src/services/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/services/index.js')>();
+  return {
+    ...actual,
+    RadarrService: function () {
+      return mockRadarr;
+    },
+  };
+});
+
+vi.mock('node:readline/promises', () => ({
+  createInterface: () => ({ question: mockQuestion, close: vi.fn() }),
+}));
+
+import { reviewCommand } from '../../src/commands/review.js';
+
+const quality = {
+  quality: { id: 7, name: 'Bluray-1080p', source: 'bluray', resolution: 1080 },
+  revision: { version: 1, real: 0, isRepack: false },
+};
+
+function movie(id: number, tags = [2]) {
+  return { id, title: `Movie ${id}`, year: 2024, tags, hasFile: true, monitored: true };
+}
+
+const config = {
+  radarr: { url: 'http://radarr:7878', apiKey: 'key' },
+  tag: { enabled: true, successTag: 'check_ok', mismatchTag: 'quality-mismatch', downgradeTag: 'quality-downgrade' },
+} as Config;
+
+describe('reviewCommand', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  const isTTY = process.stdin.isTTY;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.clearAllMocks();
+    process.stdin.isTTY = true;
+    mockRadarr.getTags.mockResolvedValue([
+      { id: 1, label: 'check_ok' },
+      { id: 2, label: 'quality-mismatch' },
+    ]);
+    mockRadarr.getMovies.mockResolvedValue([movie(12), movie(34), movie(56, [1])]);
+    mockRadarr.getHistory.mockResolvedValue([
+      {
+        id: 900,
+        movieId: 12,
+        sourceTitle: 'Movie.2024.1080p.BluRay-GRP',
+        quality,
+        customFormatScore: 100,
+        date: '2024-01-01T00:00:00Z',
+        eventType: 'grabbed',
+        data: { indexer: 'NZBgeek' },
+      },
+    ]);
+    mockRadarr.getMovieFile.mockResolvedValue({ id: 1, quality, customFormatScore: 40 });
+    mockRadarr.getOrCreateTag.mockResolvedValue({ id: 1, label: 'check_ok' });
+    mockRadarr.getDownloadClientConfig.mockResolvedValue({ autoRedownloadFailed: false });
+    mockRadarr.searchMovie.mockResolvedValue({ id: 77 });
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    process.stdin.isTTY = isTTY;
+  });
+
+  function output(): string {
+    return consoleSpy.mock.calls.map((c) => c[0]).join('\n');
+  }
+
+  it('should show the details of each mismatched movie', async () => {
+    mockQuestion.mockResolvedValue('s');
+
+    await reviewCommand(config);
+
+    expect(output()).toContain('[1/2] #12 Movie 12 (2024)');
+    expect(output()).toContain('Release: Movie.2024.1080p.BluRay-GRP');
+    expect(output()).toContain('Indexer: NZBgeek');
+    expect(output()).toContain('Expected score: 100');
+    expect(output()).toContain('Actual score: 40');
+    expect(output()).toContain('Quality: Bluray-1080p');
+    expect(output()).toContain('[2/2] #34 Movie 34 (2024)');
+    expect(mockQuestion).toHaveBeenCalledTimes(2);
+  });
+
+  it('should swap the mismatch tag for the success tag on mark-ok', async () => {
+    mockQuestion.mockResolvedValueOnce('m').mockResolvedValueOnce('q');
+
+    await reviewCommand(config);
+
+    expect(mockRadarr.replaceMovieTag).toHaveBeenCalledWith(movie(12), [2], 1);
+    expect(mockQuestion).toHaveBeenCalledTimes(2);
+  });
+
+  it('should also review movies tagged with a severity tag', async () => {
+    mockRadarr.getTags.mockResolvedValue([
+      { id: 1, label: 'check_ok' },
+      { id: 2, label: 'quality-mismatch' },
+      { id: 3, label: 'quality-critical' },
+    ]);
+    mockRadarr.getMovies.mockResolvedValue([movie(12), movie(34, [3])]);
+    const severityConfig = {
+      ...config,
+      severity: {
+        majorDifference: 21,
+        criticalDifference: 51,
+        minor: { notify: true },
+        major: { notify: true },
+        critical: { tag: 'quality-critical', notify: true },
+      },
+    } as Config;
+
+    await reviewCommand(severityConfig, { action: 'mark-ok', ids: [34] });
+
+    expect(output()).toContain(
+      '1 movie(s) tagged quality-mismatch or quality-critical or quality-downgrade'
+    );
+    expect(mockRadarr.replaceMovieTag).toHaveBeenCalledWith(movie(34, [3]), [2, 3], 1);
+  });
+
+  it('should ask again on an unknown answer', async () => {
+    mockQuestion
+      .mockResolvedValueOnce('x')
+      .mockResolvedValueOnce('re-search')
+      .mockResolvedValueOnce('quit');
+
+    await reviewCommand(config);
+
+    expect(mockRadarr.searchMovie).toHaveBeenCalledWith(12);
+    expect(mockRadarr.markHistoryFailed).not.toHaveBeenCalled();
+  });
+
+  it('should apply an action to the given IDs without prompting', async () => {
+    process.stdin.isTTY = false;
+
+    await reviewCommand(config, { action: 'blocklist-and-re-search', ids: [34, 99] });
+
+    expect(mockQuestion).not.toHaveBeenCalled();
+    expect(mockRadarr.markHistoryFailed).toHaveBeenCalledWith(900);
+    expect(mockRadarr.searchMovie).toHaveBeenCalledTimes(1);
+    expect(mockRadarr.searchMovie).toHaveBeenCalledWith(34);
+    expect(output()).toContain(
+      'Movie #99 is not tagged quality-mismatch or quality-downgrade, skipping'
+    );
+  });
+
+  it('should leave the search to Radarr when it redownloads failed releases', async () => {
+    mockRadarr.getDownloadClientConfig.mockResolvedValue({ autoRedownloadFailed: true });
+
+    await reviewCommand(config, { action: 'blocklist-and-re-search', ids: [34] });
+
+    expect(mockRadarr.markHistoryFailed).toHaveBeenCalledWith(900);
+    expect(mockRadarr.searchMovie).not.toHaveBeenCalled();
+    expect(output()).toContain('Radarr searches again itself (Redownload Failed is on)');
+  });
+
+  it('should review and mark ok movies tagged with the downgrade tag', async () => {
+    mockRadarr.getTags.mockResolvedValue([
+      { id: 1, label: 'check_ok' },
+      { id: 2, label: 'quality-mismatch' },
+      { id: 4, label: 'quality-downgrade' },
+    ]);
+    mockRadarr.getMovies.mockResolvedValue([movie(12), movie(78, [4])]);
+
+    await reviewCommand(config, { action: 'mark-ok', ids: [78] });
+
+    expect(mockRadarr.replaceMovieTag).toHaveBeenCalledWith(movie(78, [4]), [2, 4], 1);
+  });
+
+  it('should not change anything in dry-run mode', async () => {
+    await reviewCommand(config, { action: 'mark-ok', ids: [12], dryRun: true });
+
+    expect(mockRadarr.replaceMovieTag).not.toHaveBeenCalled();
+    expect(output()).toContain('[DRY-RUN] [Movie 12 (2024)] Would mark-ok');
+  });
+
+  it('should require IDs with an action', async () => {
+    await expect(reviewCommand(config, { action: 'mark-ok' })).rejects.toThrow(
+      '--ids is required with --action'
+    );
+  });
+
+  it('should require a terminal without an action', async () => {
+    process.stdin.isTTY = false;
+
+    await expect(reviewCommand(config)).rejects.toThrow(
+      'review needs an interactive terminal'
+    );
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '../../src/types/config.js';
+
+const { mockSonarr, mockDiscord } = vi.hoisted(() => ({
+  mockSonarr: {
+    getSeriesByTvdbId: vi.fn(),
+    getSeriesById: vi.fn(),
+    getEpisodes: vi.fn(),
+    getEpisodeFiles: vi.fn(),
+    getHistory: vi.fn(),
+    searchEpisodes: vi.fn(),
+    searchSeason: vi.fn(),
+    waitForCommand: vi.fn(),
+    getTags: vi.fn(),
+    createTag: vi.fn(),
+    replaceSeriesTag: vi.fn(),
+  },
+  mockDiscord: {
+    sendScoreMismatch: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('../../src/services/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/services/index.js')>();
+  return {
+    ...actual,
+    SonarrService: function () {
+      return mockSonarr;
+    },
+    createNotificationService: function () {
+      return mockDiscord;
+    },
+  };
+});
+
+vi.mock('../../src/utils/async.js', () => ({
+  sleep: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { searchEpisodesCommand } from '../../src/commands/search.js';
+
+const quality = {
+  quality: { id: 3, name: 'WEBDL-1080p', source: 'web', resolution: 1080 },
+  revision: { version: 1, real: 0, isRepack: false },
+};
+
+const series = {
+  id: 1,
+  title: 'Test Series',
+  year: 2020,
+  tvdbId: 81189,
+  titleSlug: 'test-series',
+  monitored: true,
+  tags: [],
+  seasons: [{ seasonNumber: 2, monitored: true }],
+};
+
+const episodes = [
+  { id: 100, seriesId: 1, episodeFileId: 500, seasonNumber: 2, episodeNumber: 5, title: 'E5', hasFile: true, monitored: true },
+  { id: 101, seriesId: 1, episodeFileId: 501, seasonNumber: 2, episodeNumber: 6, title: 'E6', hasFile: true, monitored: true },
+];
+
+function episodeFile(id: number, customFormatScore: number) {
+  return {
+    id,
+    seriesId: 1,
+    seasonNumber: 2,
+    relativePath: `file-${id}.mkv`,
+    path: `/tv/file-${id}.mkv`,
+    size: 1000,
+    quality,
+    customFormatScore,
+  };
+}
+
+function historyEvent(id: number, episodeId: number, eventType = 'grabbed') {
+  return {
+    id,
+    episodeId,
+    seriesId: 1,
+    sourceTitle: 'Test.Series.S02.1080p.WEB-DL',
+    quality,
+    customFormatScore: 80,
+    date: '2024-01-01T00:00:00Z',
+    eventType,
+    downloadId: 'ABC',
+    data: { indexer: 'NZBgeek' },
+  };
+}
+
+function createConfig(): Config {
+  return {
+    sonarr: {
+      url: 'http://sonarr:8989',
+      apiKey: 'test-key',
+      api: { timeoutMs: 5000, retryAttempts: 0, retryDelayMs: 100 },
+    },
+    discord: { enabled: false },
+    notifications: [],
+    history: { enabled: false, path: 'qualitarr.db' },
+    tag: { enabled: true, successTag: 'check_ok', mismatchTag: 'quality-mismatch', downgradeTag: 'quality-downgrade' },
+    quality: {
+      mode: 'absolute',
+      maxOverScore: 100,
+      maxUnderScore: 0,
+      maxOverPercent: 10,
+      maxUnderPercent: 0,
+      tiers: [],
+      overrides: [],
+    },
+    batch: {
+      maxConcurrentDownloads: 3,
+      searchIntervalSeconds: 1,
+      downloadCheckIntervalSeconds: 1,
+      downloadTimeoutMinutes: 1,
+      commandTimeoutMs: 5000,
+      commandPollIntervalMs: 100,
+      grabWaitTimeoutMs: 500,
+      historyPollIntervalMs: 100,
+      sonarr: { searchMode: 'episode' },
+    },
+  } as Config;
+}
+
+describe('searchEpisodesCommand', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.clearAllMocks();
+    mockSonarr.getSeriesByTvdbId.mockResolvedValue(series);
+    mockSonarr.getSeriesById.mockResolvedValue(series);
+    mockSonarr.getEpisodes.mockResolvedValue(episodes);
+    mockSonarr.getEpisodeFiles.mockResolvedValue([episodeFile(500, 80), episodeFile(501, 20)]);
+    mockSonarr.searchEpisodes.mockResolvedValue({ id: 7 });
+    mockSonarr.searchSeason.mockResolvedValue({ id: 8 });
+    mockSonarr.waitForCommand.mockResolvedValue({ id: 7, status: 'completed' });
+    mockSonarr.createTag.mockImplementation((label: string) =>
+      Promise.resolve({ id: label === 'check_ok' ? 1 : 2, label })
+    );
+    mockSonarr.getTags.mockResolvedValue([]);
+    mockSonarr.replaceSeriesTag.mockResolvedValue(series);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should throw when Sonarr is not configured', async () => {
+    const config = createConfig();
+    delete (config as Record<string, unknown>).sonarr;
+
+    await expect(
+      searchEpisodesCommand(config, { tvdbId: 81189, seasonNumber: 2 })
+    ).rejects.toThrow('Sonarr is not configured');
+  });
+
+  it('should throw when the series is not found', async () => {
+    mockSonarr.getSeriesByTvdbId.mockResolvedValue(null);
+
+    await expect(
+      searchEpisodesCommand(createConfig(), { tvdbId: 1, seasonNumber: 2 })
+    ).rejects.toThrow('Series with TVDB ID 1 not found in Sonarr');
+  });
+
+  it('should throw when the episode is not found', async () => {
+    await expect(
+      searchEpisodesCommand(createConfig(), { tvdbId: 81189, seasonNumber: 2, episodeNumber: 9 })
+    ).rejects.toThrow('S02E09 of Test Series not found in Sonarr');
+  });
+
+  it('should search an episode and wait for import, leaving the series tag to batch', async () => {
+    mockSonarr.getHistory
+      .mockResolvedValueOnce([])
+      .mockResolvedValue([
+        historyEvent(2, 100, 'downloadFolderImported'),
+        historyEvent(1, 100),
+      ]);
+
+    const result = await searchEpisodesCommand(createConfig(), {
+      tvdbId: 81189,
+      seasonNumber: 2,
+      episodeNumber: 5,
+    });
+
+    expect(mockSonarr.searchEpisodes).toHaveBeenCalledWith([100]);
+    expect(mockSonarr.replaceSeriesTag).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      series: { id: 1, title: 'Test Series', year: 2020 },
+      episode: 'S02E05',
+      mismatch: false,
+    });
+  });
+
+  it('should search a whole season and report deviating episodes', async () => {
+    mockSonarr.getHistory
+      .mockResolvedValueOnce([])
+      .mockResolvedValue([
+        historyEvent(4, 101, 'downloadFolderImported'),
+        historyEvent(3, 100, 'downloadFolderImported'),
+        historyEvent(2, 101),
+        historyEvent(1, 100),
+      ]);
+
+    const result = await searchEpisodesCommand(createConfig(), {
+      tvdbId: 81189,
+      seasonNumber: 2,
+    });
+
+    expect(mockSonarr.searchSeason).toHaveBeenCalledWith(1, 2);
+    expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledWith(series, [], 2);
+    expect(mockDiscord.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({ episode: 'S02E06', actualScore: 20 })
+    );
+    expect(result?.mismatch).toBe(true);
+  });
+
+  it('should only compare scores in dry-run mode', async () => {
+    mockSonarr.getHistory.mockResolvedValue([historyEvent(1, 100)]);
+
+    const result = await searchEpisodesCommand(
+      createConfig(),
+      { tvdbId: 81189, seasonNumber: 2, episodeNumber: 5 },
+      { dryRun: true }
+    );
+
+    expect(mockSonarr.searchEpisodes).not.toHaveBeenCalled();
+    expect(mockSonarr.replaceSeriesTag).not.toHaveBeenCalled();
+    expect(result?.mismatch).toBe(false);
+  });
+});
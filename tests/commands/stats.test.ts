@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '../../src/types/config.js';
+
+const { mockHistory, mockOpenHistoryStore } = vi.hoisted(() => ({
+  mockHistory: {
+    list: vi.fn(),
+    close: vi.fn(),
+  },
+  mockOpenHistoryStore: vi.fn(),
+}));
+
+vi.mock('../../src/services/index.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/services/index.js')>();
+  return {
+    ...actual,
+    openHistoryStore: mockOpenHistoryStore,
+  };
+});
+
+import { statsCommand } from '../../src/commands/stats.js';
+
+const config = {
+  history: { enabled: true, path: '/data/qualitarr.db' },
+} as Config;
+
+function verification(indexer: string, difference: number, releaseGroup = 'GRP') {
+  return {
+    mediaType: 'movie',
+    mediaId: 1,
+    title: 'Test Movie',
+    year: 2024,
+    indexer,
+    releaseTitle: 'Test.Movie.2024.1080p.BluRay-GRP',
+    releaseGroup,
+    releaseSource: 'Bluray',
+    expectedScore: 100,
+    actualScore: 100 + difference,
+    difference,
+    quality: 'Bluray-1080p',
+    isAcceptable: difference === 0,
+    tagApplied: null,
+    notificationSent: false,
+    verifiedAt: new Date('2024-01-01T00:00:00Z'),
+  };
+}
+
+describe('statsCommand', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.clearAllMocks();
+    mockOpenHistoryStore.mockResolvedValue(mockHistory);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  function output(): string {
+    return consoleSpy.mock.calls.map((c) => c[0]).join('\n');
+  }
+
+  it('should print the reliability of each indexer', async () => {
+    mockHistory.list.mockReturnValue([
+      verification('NZBgeek', 0),
+      verification('NZBgeek', -200),
+      verification('DrunkenSlug', 0),
+    ]);
+
+    await statsCommand(config);
+
+    expect(output()).toContain('[NZBgeek] Lie rate: 50.0% (1/2)');
+    expect(output()).toContain('Score difference: mean -100, median -100');
+    expect(output()).toContain(
+      'Test Movie (2024): -200 (grabbed 100, got -100) - Test.Movie.2024.1080p.BluRay-GRP'
+    );
+    expect(output()).toContain('[DrunkenSlug] Lie rate: 0.0% (0/1)');
+    expect(mockHistory.close).toHaveBeenCalled();
+  });
+
+  it('should break mismatches down by release group and source', async () => {
+    mockHistory.list.mockReturnValue([
+      verification('NZBgeek', 0, 'GOOD'),
+      verification('NZBgeek', -200, 'BAD'),
+    ]);
+
+    await statsCommand(config);
+
+    expect(output()).toContain(
+      '[BAD] Lie rate: 100.0% (1/1), score difference mean -200, median -200'
+    );
+    expect(output()).toContain('[GOOD] Lie rate: 0.0% (0/1)');
+    expect(output()).toContain('[Bluray] Lie rate: 50.0% (1/2)');
+  });
+
+  it('should pass the filters to the history store', async () => {
+    mockHistory.list.mockReturnValue([]);
+    const since = new Date('2024-01-31T00:00:00Z');
+
+    await statsCommand(config, { since, instance: '4k' });
+
+    expect(mockHistory.list).toHaveBeenCalledWith({ since, instance: '4k' });
+    expect(output()).toContain('Indexer reliability (since 2024-01-31, on 4k)');
+    expect(output()).toContain('No verifications recorded');
+  });
+
+  it('should throw when the history is not available', async () => {
+    mockOpenHistoryStore.mockResolvedValue(null);
+
+    await expect(statsCommand(config)).rejects.toThrow(
+      'Verification history is not available'
+    );
+  });
+});
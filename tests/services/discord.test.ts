@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { DiscordService } from '../../src/services/discord.js';
-import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/services/discord.js';
+import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/types/index.js';
 
 describe('DiscordService', () => {
   let fetchSpy: ReturnType<typeof vi.spyOn>;
@@ -120,6 +120,52 @@ describe('DiscordService', () => {
       expect(indexerField.value).toBe('NZBgeek');
     });
 
+    it('should include instance field when provided', async () => {
+      const discord = createService();
+      const info = { ...createBasicMismatchInfo(), instance: '4k' };
+
+      await discord.sendScoreMismatch(info);
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      const instanceField = body.embeds[0].fields.find((f: { name: string }) => f.name === 'Instance');
+      expect(instanceField.value).toBe('4k');
+    });
+
+    it('should include lost and gained custom formats when provided', async () => {
+      const discord = createService();
+      const info = { ...createBasicMismatchInfo(), customFormats: 'lost: DV, Atmos; gained: x265' };
+
+      await discord.sendScoreMismatch(info);
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      const formatsField = body.embeds[0].fields.find((f: { name: string }) => f.name === 'Custom Formats');
+      expect(formatsField).toEqual({
+        name: 'Custom Formats',
+        value: 'lost: DV, Atmos; gained: x265',
+        inline: false,
+      });
+    });
+
+    it('should report a quality downgrade with its own title', async () => {
+      const discord = createService();
+      const info = {
+        ...createBasicMismatchInfo(),
+        mismatchKind: 'quality' as const,
+        qualityDowngrade: 'Bluray-2160p -> WEBDL-1080p (resolution, source)',
+      };
+
+      await discord.sendScoreMismatch(info);
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      expect(body.embeds[0].title).toBe('Quality Mismatch');
+      const downgradeField = body.embeds[0].fields.find((f: { name: string }) => f.name === 'Quality Downgrade');
+      expect(downgradeField).toEqual({
+        name: 'Quality Downgrade',
+        value: 'Bluray-2160p -> WEBDL-1080p (resolution, source)',
+        inline: false,
+      });
+    });
+
     it('should not include indexer field when not provided', async () => {
       const discord = createService();
 
@@ -157,6 +203,25 @@ describe('DiscordService', () => {
       expect(body.embeds[0].description).toBe('**Test Movie (2024)**');
     });
 
+    it('should include episode label and Sonarr series link for episodes', async () => {
+      const discord = createService();
+      const info = {
+        ...createBasicMismatchInfo(),
+        title: 'Test Series',
+        year: 2020,
+        sonarrUrl: 'http://sonarr:8989',
+        seriesSlug: 'test-series',
+        episode: 'S02E05',
+      };
+
+      await discord.sendScoreMismatch(info);
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      expect(body.embeds[0].description).toBe(
+        '**[Test Series (2020) S02E05](http://sonarr:8989/series/test-series)**'
+      );
+    });
+
     it('should include poster thumbnail when posterUrl is provided', async () => {
       const discord = createService();
       const info = {
@@ -218,6 +283,17 @@ describe('DiscordService', () => {
       expect(body.embeds[0].color).toBe(0xffff00);
     });
 
+    it('should color the embed by severity when provided', async () => {
+      const discord = createService();
+      const info = { ...createBasicMismatchInfo(), difference: -5, severity: 'critical' as const };
+
+      await discord.sendScoreMismatch(info);
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      expect(body.embeds[0].color).toBe(0xff0000);
+      expect(body.embeds[0].fields).toContainEqual({ name: 'Severity', value: 'critical', inline: true });
+    });
+
     it('should use green color for positive or zero differences', async () => {
       const discord = createService();
       const info = { ...createBasicMismatchInfo(), difference: 10 };
@@ -277,6 +353,15 @@ describe('DiscordService', () => {
       );
     });
 
+    it('should name the instance in the title when provided', async () => {
+      const discord = createService();
+
+      await discord.sendBatchSummary({ ...createBasicBatchInfo(), instance: '4k' });
+
+      const body = JSON.parse(fetchSpy.mock.calls[0]?.[1]?.body as string);
+      expect(body.embeds[0].title).toBe('Batch Processing Summary (4k)');
+    });
+
     it('should include all stats fields in the embed', async () => {
       const discord = createService();
 
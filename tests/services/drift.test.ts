@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { detectProfileDrift, rescoreCustomFormats } from '../../src/services/drift.js';
+import type { QualityConfig, ScoreComparisonResult } from '../../src/types/index.js';
+
+const qualityConfig: QualityConfig = {
+  mode: 'absolute',
+  maxOverScore: 100,
+  maxUnderScore: 0,
+  maxOverPercent: 10,
+  maxUnderPercent: 0,
+  tiers: [],
+  overrides: [],
+};
+
+const customFormats = [
+  { id: 1, name: 'DV' },
+  { id: 2, name: 'HDR10' },
+  { id: 3, name: 'x265' },
+];
+
+function createRadarr(formatItems = [
+  { format: 1, name: 'DV', score: 50 },
+  { format: 2, name: 'HDR10', score: 30 },
+  { format: 3, name: 'x265', score: 0 },
+]) {
+  return {
+    getCustomFormats: vi.fn().mockResolvedValue(customFormats),
+    getQualityProfile: vi.fn().mockResolvedValue({ id: 4, name: 'Ultra-HD', formatItems }),
+  };
+}
+
+function createMismatch(expectedScore: number, actualScore: number): ScoreComparisonResult {
+  return {
+    expectedScore,
+    actualScore,
+    difference: actualScore - expectedScore,
+    minAllowedScore: expectedScore,
+    maxAllowedScore: expectedScore + 100,
+    isAcceptable: false,
+  };
+}
+
+describe('rescoreCustomFormats', () => {
+  it('should sum the current scores of the matched formats', () => {
+    const score = rescoreCustomFormats(
+      [{ id: 1, name: 'DV' }, { id: 2, name: 'HDR10' }],
+      customFormats,
+      { formatItems: [{ format: 1, score: 50 }, { format: 2, score: 30 }] }
+    );
+
+    expect(score).toBe(80);
+  });
+
+  it('should find recreated formats by name', () => {
+    const score = rescoreCustomFormats(
+      [{ id: 91, name: 'DV' }],
+      customFormats,
+      { formatItems: [{ format: 1, score: 50 }] }
+    );
+
+    expect(score).toBe(50);
+  });
+
+  it('should count deleted and unscored formats for 0', () => {
+    const score = rescoreCustomFormats(
+      [{ id: 99, name: 'Deleted' }, { id: 3, name: 'x265' }],
+      customFormats,
+      { formatItems: [{ format: 1, score: 50 }] }
+    );
+
+    expect(score).toBe(0);
+  });
+});
+
+describe('detectProfileDrift', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should flag a mismatch that only comes from profile changes', async () => {
+    const radarr = createRadarr();
+
+    // Grabbed at 130 when DV scored 100, DV now scores 50
+    const drift = await detectProfileDrift(
+      radarr,
+      { qualityProfileId: 4 },
+      { customFormatScore: 130, customFormats: [customFormats[0]!, customFormats[1]!] },
+      createMismatch(130, 80),
+      qualityConfig
+    );
+
+    expect(drift).toEqual({ historicScore: 130, currentScore: 80, isDriftOnly: true });
+    expect(radarr.getQualityProfile).toHaveBeenCalledWith(4);
+  });
+
+  it('should not flag a mismatch the profile changes do not explain', async () => {
+    const drift = await detectProfileDrift(
+      createRadarr(),
+      { qualityProfileId: 4 },
+      { customFormatScore: 130, customFormats: [customFormats[0]!, customFormats[1]!] },
+      createMismatch(130, 30),
+      qualityConfig
+    );
+
+    expect(drift).toEqual({ historicScore: 130, currentScore: 80, isDriftOnly: false });
+  });
+
+  it('should return undefined when the profile did not change the score', async () => {
+    const drift = await detectProfileDrift(
+      createRadarr(),
+      { qualityProfileId: 4 },
+      { customFormatScore: 80, customFormats: [customFormats[0]!, customFormats[1]!] },
+      createMismatch(80, 30),
+      qualityConfig
+    );
+
+    expect(drift).toBeUndefined();
+  });
+
+  it('should skip acceptable comparisons and grabs without custom formats', async () => {
+    const radarr = createRadarr();
+
+    const acceptable = await detectProfileDrift(
+      radarr,
+      { qualityProfileId: 4 },
+      { customFormatScore: 130, customFormats: [] },
+      { ...createMismatch(130, 130), isAcceptable: true },
+      qualityConfig
+    );
+    const unknown = await detectProfileDrift(
+      radarr,
+      { qualityProfileId: 4 },
+      { customFormatScore: 130 },
+      createMismatch(130, 80),
+      qualityConfig
+    );
+
+    expect(acceptable).toBeUndefined();
+    expect(unknown).toBeUndefined();
+    expect(radarr.getCustomFormats).not.toHaveBeenCalled();
+  });
+
+  it('should return undefined and warn when Radarr fails', async () => {
+    const radarr = createRadarr();
+    radarr.getCustomFormats.mockRejectedValue(new Error('Radarr API timeout'));
+
+    const drift = await detectProfileDrift(
+      radarr,
+      { qualityProfileId: 4 },
+      { customFormatScore: 130, customFormats: [customFormats[0]!] },
+      createMismatch(130, 80),
+      qualityConfig
+    );
+
+    expect(drift).toBeUndefined();
+    expect(consoleSpy.mock.calls.map((c) => c[0]).join('\n')).toContain(
+      'Could not check for profile drift: Radarr API timeout'
+    );
+  });
+});
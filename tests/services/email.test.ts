@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/types/index.js';
+
+const { sendMail, createTransport } = vi.hoisted(() => {
+  const sendMail = vi.fn();
+  return { sendMail, createTransport: vi.fn(() => ({ sendMail })) };
+});
+
+vi.mock('nodemailer', () => ({ createTransport }));
+
+import { EmailService } from '../../src/services/email.js';
+
+describe('EmailService', () => {
+  const config = {
+    host: 'smtp.example.com',
+    port: 587,
+    secure: false,
+    user: 'qualitarr',
+    password: 's3cret',
+    from: 'qualitarr@example.com',
+    to: ['me@example.com'],
+  };
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    sendMail.mockReset().mockResolvedValue({ messageId: '<1@example.com>' });
+    createTransport.mockClear();
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  function createMismatchInfo(overrides: Partial<ScoreMismatchInfo> = {}): ScoreMismatchInfo {
+    return {
+      title: 'Test Movie',
+      year: 2024,
+      expectedScore: 100,
+      actualScore: 50,
+      difference: -50,
+      maxOverScore: 100,
+      quality: 'Bluray-1080p',
+      ...overrides,
+    };
+  }
+
+  describe('constructor', () => {
+    it('should connect to the SMTP server with the credentials', () => {
+      new EmailService(config);
+
+      expect(createTransport).toHaveBeenCalledWith({
+        host: 'smtp.example.com',
+        port: 587,
+        secure: false,
+        auth: { user: 'qualitarr', pass: 's3cret' },
+      });
+    });
+
+    it('should leave out the port and credentials when not set', () => {
+      new EmailService({ host: 'smtp.example.com', secure: true, from: 'q@example.com', to: ['me@example.com'] });
+
+      expect(createTransport).toHaveBeenCalledWith({ host: 'smtp.example.com', secure: true });
+    });
+  });
+
+  describe('sendScoreMismatch', () => {
+    it('should mail an HTML message to the recipients', async () => {
+      await new EmailService(config).sendScoreMismatch(createMismatchInfo());
+
+      expect(sendMail).toHaveBeenCalledWith({
+        from: 'qualitarr@example.com',
+        to: ['me@example.com'],
+        subject: 'Quality Score Mismatch: Test Movie (2024)',
+        html: 'Test Movie (2024)<br>\n<br>\nExpected score: <b>100</b><br>\nActual score: <b>50</b> (-50)<br>\nQuality: Bluray-1080p',
+      });
+    });
+
+    it('should propagate SMTP errors', async () => {
+      sendMail.mockRejectedValue(new Error('Invalid login'));
+
+      await expect(new EmailService(config).sendScoreMismatch(createMismatchInfo())).rejects.toThrow(
+        'Invalid login'
+      );
+    });
+  });
+
+  describe('sendBatchSummary', () => {
+    it('should mail the summary with its title as subject', async () => {
+      const info: BatchSummaryInfo = {
+        totalProcessed: 10,
+        completed: 8,
+        failed: 1,
+        mismatches: 1,
+        durationMs: 60000,
+        failedItems: [{ title: 'Movie A', error: 'timeout' }],
+      };
+
+      await new EmailService(config).sendBatchSummary(info);
+
+      const [message] = sendMail.mock.calls[0] as [{ subject: string; html: string }];
+      expect(message.subject).toBe('Batch Processing Summary');
+      expect(message.html).toContain('Movie A');
+    });
+  });
+});
@@ -0,0 +1,312 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Config, SonarrConfig } from "../../src/types/config.js";
+import type { QueueItem } from "../../src/services/queue.js";
+import type { ISeriesService, INotificationService } from "../../src/types/services.js";
+
+vi.mock("../../src/utils/async.js", () => ({
+  sleep: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { EpisodeProcessor } from "../../src/services/episode-processor.js";
+
+const quality = {
+  quality: { id: 3, name: "WEBDL-1080p", source: "web", resolution: 1080 },
+  revision: { version: 1, real: 0, isRepack: false },
+};
+
+const series = {
+  id: 1,
+  title: "Test Series",
+  year: 2020,
+  tvdbId: 81189,
+  titleSlug: "test-series",
+  monitored: true,
+  tags: [],
+  seasons: [{ seasonNumber: 1, monitored: true }],
+};
+
+const episodes = [
+  { id: 100, seriesId: 1, episodeFileId: 500, seasonNumber: 1, episodeNumber: 1, title: "E1", hasFile: true, monitored: true },
+  { id: 101, seriesId: 1, episodeFileId: 501, seasonNumber: 1, episodeNumber: 2, title: "E2", hasFile: true, monitored: true },
+];
+
+function episodeFile(id: number, customFormatScore: number) {
+  return {
+    id,
+    seriesId: 1,
+    seasonNumber: 1,
+    relativePath: `file-${id}.mkv`,
+    path: `/tv/file-${id}.mkv`,
+    size: 1000,
+    quality,
+    customFormatScore,
+  };
+}
+
+function historyEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1000,
+    episodeId: 100,
+    seriesId: 1,
+    sourceTitle: "Test.Series.S01.1080p.WEB-DL",
+    quality,
+    customFormatScore: 80,
+    date: "2024-01-01T00:00:00Z",
+    eventType: "grabbed",
+    downloadId: "ABC",
+    data: { indexer: "NZBgeek" },
+    ...overrides,
+  };
+}
+
+function createConfig(): Config {
+  return {
+    sonarr: {
+      url: "http://sonarr:8989",
+      apiKey: "test-key",
+      api: { timeoutMs: 5000, retryAttempts: 0, retryDelayMs: 100 },
+    },
+    discord: { enabled: false },
+    notifications: [],
+    tag: { enabled: true, successTag: "check_ok", mismatchTag: "quality-mismatch", downgradeTag: "quality-downgrade" },
+    quality: {
+      mode: "absolute",
+      maxOverScore: 100,
+      maxUnderScore: 0,
+      maxOverPercent: 10,
+      maxUnderPercent: 0,
+      tiers: [],
+      overrides: [],
+    },
+    batch: {
+      maxConcurrentDownloads: 3,
+      searchIntervalSeconds: 1,
+      downloadCheckIntervalSeconds: 1,
+      downloadTimeoutMinutes: 1,
+      commandTimeoutMs: 5000,
+      commandPollIntervalMs: 100,
+      grabWaitTimeoutMs: 500,
+      historyPollIntervalMs: 100,
+      sonarr: { searchMode: "season" },
+    },
+  } as Config;
+}
+
+function createItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  return {
+    id: 1,
+    title: "Test Series S01",
+    year: 2020,
+    hasFile: true,
+    status: "pending",
+    episodes: {
+      seasonNumber: 1,
+      episodeIds: [100, 101],
+      label: "S01",
+      wholeSeason: true,
+    },
+    initialHistoryIds: new Set(),
+    correlationId: "abc12345",
+    ...overrides,
+  };
+}
+
+describe("EpisodeProcessor", () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+  let sonarr: Record<string, ReturnType<typeof vi.fn>>;
+  let discord: Record<string, ReturnType<typeof vi.fn>>;
+
+  function createProcessor(): EpisodeProcessor {
+    const config = createConfig();
+    return new EpisodeProcessor({
+      seriesService: sonarr as unknown as ISeriesService,
+      notificationService: discord as unknown as INotificationService,
+      config,
+      instance: config.sonarr as SonarrConfig,
+    });
+  }
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    sonarr = {
+      searchSeason: vi.fn().mockResolvedValue({ id: 1 }),
+      searchEpisodes: vi.fn().mockResolvedValue({ id: 2 }),
+      waitForCommand: vi.fn().mockResolvedValue({ id: 1, status: "completed" }),
+      getHistory: vi.fn().mockResolvedValue([]),
+      getEpisodes: vi.fn().mockResolvedValue(episodes),
+      getEpisodeFiles: vi
+        .fn()
+        .mockResolvedValue([episodeFile(500, 80), episodeFile(501, 80)]),
+      getSeriesById: vi.fn().mockResolvedValue(series),
+      getOrCreateTag: vi.fn().mockImplementation((label: string) =>
+        Promise.resolve({ id: label === "check_ok" ? 1 : 2, label })
+      ),
+      createTag: vi.fn().mockImplementation((label: string) =>
+        Promise.resolve({ id: label === "check_ok" ? 1 : 2, label })
+      ),
+      getTags: vi.fn().mockResolvedValue([]),
+      addTagToSeries: vi.fn().mockResolvedValue(series),
+      replaceSeriesTag: vi.fn().mockResolvedValue(series),
+    };
+    discord = {
+      sendScoreMismatch: vi.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  describe("processSearch", () => {
+    it("should run a season search for a whole-season item", async () => {
+      sonarr.getHistory.mockResolvedValue([historyEvent()]);
+
+      const { grabbed } = await createProcessor().processSearch(createItem(), "[test]");
+
+      expect(sonarr.searchSeason).toHaveBeenCalledWith(1, 1);
+      expect(sonarr.searchEpisodes).not.toHaveBeenCalled();
+      expect(grabbed?.id).toBe(1000);
+    });
+
+    it("should search the episodes of a single-episode item", async () => {
+      const item = createItem({
+        episodes: { seasonNumber: 1, episodeIds: [101], label: "S01E02", wholeSeason: false },
+      });
+      sonarr.getHistory.mockResolvedValue([historyEvent({ episodeId: 100 })]);
+
+      const { grabbed } = await createProcessor().processSearch(item, "[test]");
+
+      expect(sonarr.searchEpisodes).toHaveBeenCalledWith([101]);
+      expect(grabbed).toBeNull();
+    });
+  });
+
+  describe("checkForImport", () => {
+    it("should wait until every grabbed episode is imported", async () => {
+      const processor = createProcessor();
+      sonarr.getHistory.mockResolvedValue([
+        historyEvent({ id: 1002, episodeId: 100, eventType: "downloadFolderImported" }),
+        historyEvent({ id: 1001, episodeId: 101 }),
+        historyEvent({ id: 1000, episodeId: 100 }),
+      ]);
+
+      expect(await processor.checkForImport(createItem())).toBe(false);
+
+      sonarr.getHistory.mockResolvedValue([
+        historyEvent({ id: 1003, episodeId: 101, eventType: "downloadFolderImported" }),
+        historyEvent({ id: 1002, episodeId: 100, eventType: "downloadFolderImported" }),
+        historyEvent({ id: 1001, episodeId: 101 }),
+        historyEvent({ id: 1000, episodeId: 100 }),
+      ]);
+
+      expect(await processor.checkForImport(createItem())).toBe(true);
+    });
+  });
+
+  describe("processCompletedDownload", () => {
+    it("should tag the series with mismatch tag when a file deviates", async () => {
+      sonarr.getHistory.mockResolvedValue([
+        historyEvent({ id: 1001, episodeId: 101 }),
+        historyEvent({ id: 1000, episodeId: 100 }),
+      ]);
+      sonarr.getEpisodeFiles.mockResolvedValue([
+        episodeFile(500, 80),
+        episodeFile(501, 20),
+      ]);
+      const item = createItem({ grabbedEvent: historyEvent() });
+
+      const { mismatch } = await createProcessor().processCompletedDownload(
+        item,
+        "[test]"
+      );
+
+      expect(mismatch).toBe(true);
+      expect(sonarr.replaceSeriesTag).toHaveBeenCalledWith(series, [], 2);
+      expect(discord.sendScoreMismatch).toHaveBeenCalledWith(
+        expect.objectContaining({ episode: "S01E02", actualScore: 20 })
+      );
+    });
+
+    it("should leave the success tag to the queue", async () => {
+      sonarr.getHistory.mockResolvedValue([historyEvent()]);
+      const item = createItem({ grabbedEvent: historyEvent() });
+
+      const { mismatch } = await createProcessor().processCompletedDownload(
+        item,
+        "[test]"
+      );
+
+      expect(mismatch).toBe(false);
+      expect(sonarr.addTagToSeries).not.toHaveBeenCalled();
+      expect(sonarr.replaceSeriesTag).not.toHaveBeenCalled();
+    });
+
+    it("should record a passing verification in the history store", async () => {
+      sonarr.getHistory.mockResolvedValue([historyEvent()]);
+      const record = vi.fn();
+      const config = createConfig();
+      const processor = new EpisodeProcessor({
+        seriesService: sonarr as unknown as ISeriesService,
+        notificationService: discord as unknown as INotificationService,
+        config,
+        instance: config.sonarr as SonarrConfig,
+        history: { record, close: vi.fn() },
+      });
+
+      await processor.processCompletedDownload(
+        createItem({ grabbedEvent: historyEvent() }),
+        "[test]"
+      );
+
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mediaType: "series",
+          mediaId: 1,
+          indexer: "NZBgeek",
+          releaseTitle: "Test.Series.S01.1080p.WEB-DL",
+          isAcceptable: true,
+          tagApplied: null,
+          correlationId: "abc12345",
+        })
+      );
+    });
+  });
+
+  describe("handleNoGrab", () => {
+    it("should compare files against the last grab of each episode", async () => {
+      sonarr.getHistory.mockResolvedValue([
+        historyEvent({ id: 1002, episodeId: 100, customFormatScore: 80 }),
+        historyEvent({ id: 1001, episodeId: 101, customFormatScore: 80 }),
+        historyEvent({ id: 1000, episodeId: 100, customFormatScore: 500 }),
+      ]);
+
+      const { mismatch } = await createProcessor().handleNoGrab(
+        createItem(),
+        "[test]"
+      );
+
+      expect(mismatch).toBe(false);
+      expect(sonarr.replaceSeriesTag).not.toHaveBeenCalled();
+    });
+
+    it("should pass without tagging when no grab history exists", async () => {
+      const { mismatch } = await createProcessor().handleNoGrab(
+        createItem(),
+        "[test]"
+      );
+
+      expect(mismatch).toBe(false);
+      expect(sonarr.addTagToSeries).not.toHaveBeenCalled();
+      expect(sonarr.replaceSeriesTag).not.toHaveBeenCalled();
+    });
+
+    it("should throw when no grabbed episode has a file", async () => {
+      sonarr.getHistory.mockResolvedValue([historyEvent()]);
+      sonarr.getEpisodeFiles.mockResolvedValue([]);
+
+      await expect(
+        createProcessor().handleNoGrab(createItem(), "[test]")
+      ).rejects.toThrow("No episode file found for S01");
+    });
+  });
+});
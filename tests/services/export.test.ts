@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { serializeVerifications } from "../../src/services/export.js";
+import type { VerificationRecord } from "../../src/types/history.js";
+
+function verification(
+  overrides: Partial<VerificationRecord> = {}
+): VerificationRecord {
+  return {
+    mediaType: "movie",
+    mediaId: 1,
+    title: "Test Movie",
+    year: 2024,
+    releaseTitle: "Test.Movie.2024.1080p.BluRay-GRP",
+    indexer: "NZBgeek",
+    expectedScore: 100,
+    actualScore: 80,
+    difference: -20,
+    quality: "Bluray-1080p",
+    isAcceptable: false,
+    tagApplied: "quality-mismatch",
+    notificationSent: true,
+    verifiedAt: new Date("2024-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("serializeVerifications", () => {
+  it("should write a CSV header and one line per verification", () => {
+    const csv = serializeVerifications([verification()], "csv");
+
+    expect(csv.split("\r\n")).toEqual([
+      "verifiedAt,mediaType,mediaId,title,year,episode,instance,releaseTitle,indexer,releaseGroup,releaseSource,customFormatsLost,customFormatsGained,qualityDowngrade,expectedScore,actualScore,difference,quality,isAcceptable,mismatchKind,severity,profileDrift,tagApplied,notificationSent,correlationId",
+      "2024-01-01T00:00:00.000Z,movie,1,Test Movie,2024,,,Test.Movie.2024.1080p.BluRay-GRP,NZBgeek,,,,,,100,80,-20,Bluray-1080p,false,,,,quality-mismatch,true,",
+      "",
+    ]);
+  });
+
+  it("should quote CSV fields and neutralize formulas", () => {
+    const csv = serializeVerifications(
+      [
+        verification({
+          title: 'Movie, "The"',
+          releaseTitle: "=HYPERLINK(\"http://x\")",
+        }),
+      ],
+      "csv"
+    );
+
+    expect(csv).toContain('"Movie, ""The"""');
+    expect(csv).toContain('"\'=HYPERLINK(""http://x"")"');
+  });
+
+  it("should write a JSON array with null for absent values", () => {
+    const [first] = JSON.parse(
+      serializeVerifications([verification()], "json")
+    ) as Record<string, unknown>[];
+
+    expect(first).toEqual(
+      expect.objectContaining({
+        verifiedAt: "2024-01-01T00:00:00.000Z",
+        title: "Test Movie",
+        episode: null,
+        isAcceptable: false,
+      })
+    );
+  });
+
+  it("should list lost and gained custom formats", () => {
+    const record = verification({
+      customFormatsLost: ["DV", "Atmos"],
+      customFormatsGained: ["x265"],
+    });
+
+    const csv = serializeVerifications([record], "csv");
+    const [json] = JSON.parse(
+      serializeVerifications([record], "json")
+    ) as Record<string, unknown>[];
+
+    expect(csv).toContain(',"DV, Atmos",x265,');
+    expect(json).toEqual(
+      expect.objectContaining({
+        customFormatsLost: ["DV", "Atmos"],
+        customFormatsGained: ["x265"],
+      })
+    );
+  });
+
+  it("should write one JSON object per line in NDJSON", () => {
+    const ndjson = serializeVerifications(
+      [verification({ mediaId: 1 }), verification({ mediaId: 2 })],
+      "ndjson"
+    );
+
+    const lines = ndjson.trimEnd().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1]!)).toEqual(
+      expect.objectContaining({ mediaId: 2 })
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GotifyService } from '../../src/services/gotify.js';
+import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/types/index.js';
+
+describe('GotifyService', () => {
+  const config = { url: 'https://gotify.example.com/', token: 'AbCdEf123' };
+  let fetchSpy: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+    consoleSpy.mockRestore();
+  });
+
+  function createMismatchInfo(overrides: Partial<ScoreMismatchInfo> = {}): ScoreMismatchInfo {
+    return {
+      title: 'Test Movie',
+      year: 2024,
+      expectedScore: 100,
+      actualScore: 50,
+      difference: -50,
+      maxOverScore: 100,
+      quality: 'Bluray-1080p',
+      ...overrides,
+    };
+  }
+
+  function getRequest(): { url: string; init: RequestInit; payload: Record<string, unknown> } {
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    return { url, init, payload: JSON.parse(init.body as string) as Record<string, unknown> };
+  }
+
+  describe('sendScoreMismatch', () => {
+    it('should push a Markdown message with the app token', async () => {
+      await new GotifyService(config).sendScoreMismatch(createMismatchInfo());
+
+      const { url, init, payload } = getRequest();
+      expect(url).toBe('https://gotify.example.com/message');
+      expect(init.headers).toEqual({
+        'Content-Type': 'application/json',
+        'X-Gotify-Key': 'AbCdEf123',
+      });
+      expect(payload).toEqual({
+        title: 'Quality Score Mismatch: Test Movie (2024)',
+        message:
+          '**Test Movie (2024)**\n\n**Expected score:** 100\n**Actual score:** 50 (-50)\n**Quality:** Bluray-1080p',
+        priority: 6,
+        extras: { 'client::display': { contentType: 'text/markdown' } },
+      });
+    });
+
+    it('should derive the priority from the score difference', async () => {
+      const service = new GotifyService(config);
+
+      await service.sendScoreMismatch(createMismatchInfo({ difference: -10 }));
+      await service.sendScoreMismatch(createMismatchInfo({ difference: -80 }));
+      await service.sendScoreMismatch(createMismatchInfo({ difference: 20 }));
+
+      const priorities = fetchSpy.mock.calls.map(
+        ([, init]) => (JSON.parse((init as RequestInit).body as string) as { priority: number }).priority
+      );
+      expect(priorities).toEqual([4, 8, 2]);
+    });
+
+    it('should use the configured priority', async () => {
+      await new GotifyService({ ...config, priority: 10 }).sendScoreMismatch(createMismatchInfo());
+
+      expect(getRequest().payload.priority).toBe(10);
+    });
+
+    it('should link to the movie and show the poster on Android', async () => {
+      await new GotifyService(config).sendScoreMismatch(
+        createMismatchInfo({
+          radarrUrl: 'http://radarr:7878',
+          movieId: 42,
+          posterUrl: 'https://image.tmdb.org/poster.jpg',
+        })
+      );
+
+      expect(getRequest().payload.extras).toEqual({
+        'client::display': { contentType: 'text/markdown' },
+        'client::notification': {
+          click: { url: 'http://radarr:7878/movie/42' },
+          bigImageUrl: 'https://image.tmdb.org/poster.jpg',
+        },
+      });
+    });
+
+    it('should throw with the Gotify error on failure', async () => {
+      fetchSpy.mockResolvedValue(
+        new Response(
+          JSON.stringify({ error: 'Unauthorized', errorCode: 401, errorDescription: 'you need to provide a valid access token' }),
+          { status: 401, statusText: 'Unauthorized' }
+        )
+      );
+
+      await expect(new GotifyService(config).sendScoreMismatch(createMismatchInfo())).rejects.toThrow(
+        'Gotify error: 401 you need to provide a valid access token'
+      );
+    });
+  });
+
+  describe('sendBatchSummary', () => {
+    it('should render the counts and failed items', async () => {
+      const info: BatchSummaryInfo = {
+        totalProcessed: 8,
+        completed: 6,
+        failed: 2,
+        mismatches: 1,
+        durationMs: 45000,
+        failedItems: [
+          { title: 'Movie A', error: 'Timeout' },
+          { title: 'Movie B', error: 'No file' },
+        ],
+        instance: '4K',
+      };
+
+      await new GotifyService(config).sendBatchSummary(info);
+
+      const { payload } = getRequest();
+      expect(payload.title).toBe('Batch Processing Summary (4K)');
+      expect(payload.priority).toBe(6);
+      expect(payload.message).toContain('**Mismatches:** 1');
+      expect(payload.message).toContain('**Failed items**\n- Movie A: Timeout\n- Movie B: No file');
+    });
+  });
+});
@@ -0,0 +1,377 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Config } from "../../src/types/config.js";
+import type { VerificationRecord } from "../../src/types/history.js";
+import {
+  HistoryStore,
+  openHistoryStore,
+} from "../../src/services/history-store.js";
+
+// node:sqlite ships with Node.js 22.13+
+const sqlite = await import("node:sqlite").catch(() => null);
+
+function createRecord(
+  overrides: Partial<VerificationRecord> = {}
+): VerificationRecord {
+  return {
+    mediaType: "movie",
+    mediaId: 1,
+    title: "Test Movie",
+    year: 2024,
+    releaseTitle: "Test.Movie.2024.1080p.BluRay-GRP",
+    indexer: "NZBgeek",
+    releaseGroup: "GRP",
+    expectedScore: 100,
+    actualScore: 80,
+    difference: -20,
+    quality: "Bluray-1080p",
+    isAcceptable: false,
+    tagApplied: "quality-mismatch",
+    notificationSent: true,
+    correlationId: "abc12345",
+    verifiedAt: new Date("2024-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe.skipIf(!sqlite)("HistoryStore", () => {
+  let dir: string;
+
+  function readRows(path: string): Record<string, unknown>[] {
+    if (!sqlite) throw new Error("node:sqlite unavailable");
+    const db = new sqlite.DatabaseSync(path);
+    try {
+      return db.prepare("SELECT * FROM verifications ORDER BY id").all();
+    } finally {
+      db.close();
+    }
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "qualitarr-history-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should create the database and its parent directory", async () => {
+    const path = join(dir, "data", "qualitarr.db");
+
+    const store = await HistoryStore.open(path);
+    store.close();
+
+    expect(readRows(path)).toEqual([]);
+  });
+
+  it("should persist a verification", async () => {
+    const path = join(dir, "qualitarr.db");
+    const store = await HistoryStore.open(path);
+
+    store.record(createRecord());
+    store.close();
+
+    expect(readRows(path)).toEqual([
+      expect.objectContaining({
+        media_type: "movie",
+        media_id: 1,
+        title: "Test Movie",
+        year: 2024,
+        episode: null,
+        instance: null,
+        release_title: "Test.Movie.2024.1080p.BluRay-GRP",
+        indexer: "NZBgeek",
+        release_group: "GRP",
+        expected_score: 100,
+        actual_score: 80,
+        difference: -20,
+        quality: "Bluray-1080p",
+        is_acceptable: 0,
+        tag_applied: "quality-mismatch",
+        notification_sent: 1,
+        correlation_id: "abc12345",
+        verified_at: "2024-01-01T00:00:00.000Z",
+      }),
+    ]);
+  });
+
+  it("should keep earlier verifications when reopened", async () => {
+    const path = join(dir, "qualitarr.db");
+
+    const first = await HistoryStore.open(path);
+    first.record(createRecord());
+    first.close();
+
+    const second = await HistoryStore.open(path);
+    second.record(
+      createRecord({
+        mediaType: "series",
+        mediaId: 7,
+        episode: "S01E02",
+        instance: "4k",
+        isAcceptable: true,
+        tagApplied: null,
+        notificationSent: false,
+      })
+    );
+    second.close();
+
+    const rows = readRows(path);
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toEqual(
+      expect.objectContaining({
+        media_type: "series",
+        episode: "S01E02",
+        instance: "4k",
+        tag_applied: null,
+      })
+    );
+  });
+
+  it("should migrate a database created by an earlier version", async () => {
+    if (!sqlite) throw new Error("node:sqlite unavailable");
+    const path = join(dir, "qualitarr.db");
+    const db = new sqlite.DatabaseSync(path);
+    db.exec(`CREATE TABLE verifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      media_type TEXT NOT NULL, media_id INTEGER NOT NULL, title TEXT NOT NULL,
+      year INTEGER, episode TEXT, instance TEXT, release_title TEXT,
+      indexer TEXT, release_group TEXT, expected_score INTEGER NOT NULL,
+      actual_score INTEGER NOT NULL, difference INTEGER NOT NULL,
+      quality TEXT NOT NULL, is_acceptable INTEGER NOT NULL, tag_applied TEXT,
+      notification_sent INTEGER NOT NULL, correlation_id TEXT,
+      verified_at TEXT NOT NULL
+    ); PRAGMA user_version = 1;`);
+    db.close();
+
+    const store = await HistoryStore.open(path);
+    store.record(createRecord({ releaseSource: "Remux" }));
+    store.close();
+
+    expect(readRows(path)).toEqual([
+      expect.objectContaining({ release_source: "Remux" }),
+    ]);
+  });
+
+  it("should round-trip lost and gained custom formats", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(
+      createRecord({
+        customFormatsLost: ["DV", "Atmos"],
+        customFormatsGained: ["x265"],
+      })
+    );
+    store.record(createRecord({ mediaId: 2 }));
+
+    const [first, second] = store.list();
+    store.close();
+
+    expect(first?.customFormatsLost).toEqual(["DV", "Atmos"]);
+    expect(first?.customFormatsGained).toEqual(["x265"]);
+    expect(second?.customFormatsLost).toBeUndefined();
+  });
+
+  it("should round-trip the severity", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(createRecord({ severity: "major" }));
+    store.record(createRecord({ mediaId: 2 }));
+
+    const [first, second] = store.list();
+    store.close();
+
+    expect(first?.severity).toBe("major");
+    expect(second?.severity).toBeUndefined();
+  });
+
+  it("should round-trip the profile drift flag", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(createRecord({ profileDrift: true }));
+    store.record(createRecord({ mediaId: 2, profileDrift: false }));
+    store.record(createRecord({ mediaId: 3 }));
+
+    const [first, second, third] = store.list();
+    store.close();
+
+    expect(first?.profileDrift).toBe(true);
+    expect(second?.profileDrift).toBe(false);
+    expect(third?.profileDrift).toBeUndefined();
+  });
+
+  it("should round-trip the quality downgrade", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(
+      createRecord({
+        qualityDowngrade: "Bluray-2160p -> WEBDL-1080p (resolution, source)",
+      })
+    );
+
+    const [record] = store.list();
+    store.close();
+
+    expect(record?.qualityDowngrade).toBe(
+      "Bluray-2160p -> WEBDL-1080p (resolution, source)"
+    );
+  });
+
+  it("should round-trip the mismatch action", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(createRecord({ mismatchAction: "blocklist-and-research" }));
+    store.record(createRecord({ mediaId: 2 }));
+
+    const [first, second] = store.list();
+    store.close();
+
+    expect(first?.mismatchAction).toBe("blocklist-and-research");
+    expect(second?.mismatchAction).toBeUndefined();
+  });
+
+  it("should filter by movie or series", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(createRecord({ mediaId: 1 }));
+    store.record(createRecord({ mediaId: 2 }));
+    store.record(createRecord({ mediaType: "series", mediaId: 1 }));
+
+    const movies = store.list({ media: { type: "movie", id: 1 } });
+    store.close();
+
+    expect(movies).toEqual([createRecord({ mediaId: 1 })]);
+  });
+
+  it("should list verifications matching the filters", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(createRecord({ instance: "hd" }));
+    store.record(
+      createRecord({
+        mediaId: 2,
+        instance: "4k",
+        verifiedAt: new Date("2024-02-01T00:00:00Z"),
+      })
+    );
+    store.record(
+      createRecord({
+        mediaId: 3,
+        instance: "4k",
+        verifiedAt: new Date("2024-03-01T00:00:00Z"),
+      })
+    );
+
+    const all = store.list();
+    const filtered = store.list({
+      since: new Date("2024-02-15T00:00:00Z"),
+      instance: "4K",
+    });
+    store.close();
+
+    expect(all.map((r) => r.mediaId)).toEqual([1, 2, 3]);
+    expect(all[0]).toEqual(createRecord({ instance: "hd" }));
+    expect(filtered.map((r) => r.mediaId)).toEqual([3]);
+  });
+
+  it("should filter by end date, indexer and status", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(createRecord({ mediaId: 1, isAcceptable: true }));
+    store.record(createRecord({ mediaId: 2, indexer: "DrunkenSlug" }));
+    store.record(
+      createRecord({ mediaId: 3, verifiedAt: new Date("2024-03-01T00:00:00Z") })
+    );
+    store.record(createRecord({ mediaId: 4 }));
+
+    const filtered = store.list({
+      until: new Date("2024-02-01T00:00:00Z"),
+      indexer: "nzbgeek",
+      status: "mismatch",
+    });
+    const ok = store.list({ status: "ok" });
+    store.close();
+
+    expect(filtered.map((r) => r.mediaId)).toEqual([4]);
+    expect(ok.map((r) => r.mediaId)).toEqual([1]);
+  });
+
+  it("should list quality mismatches as mismatches", async () => {
+    const store = await HistoryStore.open(join(dir, "qualitarr.db"));
+    store.record(createRecord({ mediaId: 1, isAcceptable: true }));
+    store.record(
+      createRecord({ mediaId: 2, isAcceptable: true, mismatchKind: "quality" })
+    );
+    store.record(createRecord({ mediaId: 3, mismatchKind: "score" }));
+
+    const mismatches = store.list({ status: "mismatch" });
+    const ok = store.list({ status: "ok" });
+    store.close();
+
+    expect(mismatches.map((r) => r.mediaId)).toEqual([2, 3]);
+    expect(mismatches[0]?.mismatchKind).toBe("quality");
+    expect(ok.map((r) => r.mediaId)).toEqual([1]);
+  });
+});
+
+describe("openHistoryStore", () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it("should return null when history is disabled", async () => {
+    const config = {
+      history: { enabled: false, path: "qualitarr.db" },
+    } as Config;
+
+    expect(await openHistoryStore(config)).toBeNull();
+  });
+
+  it("should return null when the database cannot be opened", async () => {
+    const config = {
+      history: { enabled: true, path: "/dev/null/qualitarr.db" },
+    } as Config;
+
+    expect(await openHistoryStore(config)).toBeNull();
+  });
+
+  it.skipIf(sqlite)(
+    "should quietly skip history by default without node:sqlite",
+    async () => {
+      const config = { history: { path: "qualitarr.db" } } as Config;
+
+      expect(await openHistoryStore(config)).toBeNull();
+      expect(consoleSpy).not.toHaveBeenCalled();
+    }
+  );
+
+  it.skipIf(sqlite)(
+    "should warn without node:sqlite when history is enabled explicitly",
+    async () => {
+      const config = {
+        history: { enabled: true, path: "qualitarr.db" },
+      } as Config;
+
+      expect(await openHistoryStore(config)).toBeNull();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining("History store unavailable")
+      );
+    }
+  );
+
+  it.skipIf(!sqlite)(
+    "should keep history by default with node:sqlite",
+    async () => {
+      const dir = mkdtempSync(join(tmpdir(), "qualitarr-history-"));
+      const config = {
+        history: { path: join(dir, "qualitarr.db") },
+      } as Config;
+
+      const store = await openHistoryStore(config);
+      store?.close();
+      rmSync(dir, { recursive: true, force: true });
+
+      expect(store).not.toBeNull();
+    }
+  );
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  CompositeNotificationService,
+  createNotificationChannels,
+  type NotificationChannel,
+} from "../../src/services/notifications.js";
+
+const info = {
+  title: "Test Movie",
+  expectedScore: 100,
+  actualScore: 50,
+  difference: -50,
+  maxOverScore: 100,
+  quality: "Bluray-1080p",
+};
+
+function createChannel(name: string): NotificationChannel {
+  return {
+    name,
+    type: "discord",
+    target: "Webhook: ***",
+    service: {
+      sendScoreMismatch: vi.fn().mockResolvedValue(undefined),
+      sendBatchSummary: vi.fn().mockResolvedValue(undefined),
+    },
+  };
+}
+
+describe("createNotificationChannels", () => {
+  it("should build the top-level Discord webhook and every enabled channel", () => {
+    const channels = createNotificationChannels({
+      discord: {
+        enabled: true,
+        webhookUrl: "https://discord.com/api/webhooks/1/abcdefghijklmnop",
+      },
+      notifications: [
+        {
+          type: "discord",
+          name: "ops",
+          enabled: true,
+          webhookUrl: "https://discord.com/api/webhooks/2/abcdefghijklmnop",
+        },
+        {
+          type: "discord",
+          name: "muted",
+          enabled: false,
+          webhookUrl: "https://discord.com/api/webhooks/3/abcdefghijklmnop",
+        },
+      ],
+    });
+
+    expect(channels.map((c) => c.name)).toEqual(["Discord", "ops"]);
+    expect(channels[1]?.target).toBe(
+      "Webhook: https://discord.com/api/webhooks/2/abcd...mnop"
+    );
+  });
+
+  it("should describe Telegram channels without their bot token", () => {
+    const [channel] = createNotificationChannels({
+      discord: { enabled: false },
+      notifications: [
+        {
+          type: "telegram",
+          enabled: true,
+          botToken: "123:secret",
+          chatId: -10042,
+          threadId: 7,
+        },
+      ],
+    });
+
+    expect(channel?.name).toBe("Telegram");
+    expect(channel?.target).toBe("Chat: -10042, thread 7");
+  });
+
+  it("should mask the token of Slack webhooks", () => {
+    const [channel] = createNotificationChannels({
+      discord: { enabled: false },
+      notifications: [
+        {
+          type: "slack",
+          name: "ops",
+          enabled: true,
+          webhookUrl: "https://hooks.slack.com/services/T000/B000/abcdefghijklmnop",
+        },
+      ],
+    });
+
+    expect(channel?.target).toBe(
+      "Webhook: https://hooks.slack.com/services/T000/B000/abcd...mnop"
+    );
+  });
+
+  it("should describe ntfy and Gotify channels without their tokens", () => {
+    const channels = createNotificationChannels({
+      discord: { enabled: false },
+      notifications: [
+        {
+          type: "ntfy",
+          enabled: true,
+          url: "https://ntfy.sh/qualitarr",
+          token: "tk_secret",
+          tags: [],
+        },
+        {
+          type: "gotify",
+          enabled: true,
+          url: "https://gotify.example.com",
+          token: "AbCdEf123",
+        },
+      ],
+    });
+
+    expect(channels.map((channel) => [channel.name, channel.target])).toEqual([
+      ["ntfy", "Topic: https://ntfy.sh/qualitarr"],
+      ["Gotify", "Server: https://gotify.example.com"],
+    ]);
+  });
+
+  it("should mask the user key of Pushover channels", () => {
+    const [channel] = createNotificationChannels({
+      discord: { enabled: false },
+      notifications: [
+        {
+          type: "pushover",
+          enabled: true,
+          userKey: "uQiRzpo4DXghDmr9QzzfQu27cmVRsG",
+          appToken: "azGDORePK8gMaC0QOYAMyEEuzJnyUi",
+          device: "phone",
+        },
+      ],
+    });
+
+    expect(channel?.name).toBe("Pushover");
+    expect(channel?.target).toBe("User: uQiR...VRsG, device phone");
+  });
+
+  it("should describe email channels by SMTP server and recipients", () => {
+    const [channel] = createNotificationChannels({
+      discord: { enabled: false },
+      notifications: [
+        {
+          type: "email",
+          enabled: true,
+          host: "smtp.example.com",
+          port: 587,
+          secure: false,
+          user: "qualitarr",
+          password: "s3cret",
+          from: "qualitarr@example.com",
+          to: ["me@example.com", "ops@example.com"],
+        },
+      ],
+    });
+
+    expect(channel?.name).toBe("Email");
+    expect(channel?.target).toBe(
+      "SMTP: smtp.example.com:587, to me@example.com, ops@example.com"
+    );
+  });
+
+  it("should skip the top-level Discord webhook when disabled", () => {
+    const channels = createNotificationChannels({
+      discord: { enabled: false },
+      notifications: [],
+    });
+
+    expect(channels).toEqual([]);
+  });
+});
+
+describe("CompositeNotificationService", () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it("should send to every channel", async () => {
+    const channels = [createChannel("a"), createChannel("b")];
+    const service = new CompositeNotificationService(channels);
+
+    await service.sendScoreMismatch(info);
+
+    for (const channel of channels) {
+      expect(channel.service.sendScoreMismatch).toHaveBeenCalledWith(info);
+    }
+  });
+
+  it("should keep notifying the other channels when one fails", async () => {
+    const failing = createChannel("failing");
+    vi.mocked(failing.service.sendBatchSummary).mockRejectedValue(
+      new Error("Webhook error: 500")
+    );
+    const working = createChannel("working");
+    const service = new CompositeNotificationService([failing, working]);
+
+    await service.sendBatchSummary({
+      totalProcessed: 1,
+      completed: 1,
+      failed: 0,
+      mismatches: 0,
+      durationMs: 1000,
+      failedItems: [],
+    });
+
+    expect(working.service.sendBatchSummary).toHaveBeenCalled();
+    expect(consoleSpy.mock.calls.map((c) => c[0]).join("\n")).toContain(
+      "[failing] Failed to send batch summary: Webhook error: 500"
+    );
+  });
+
+  it("should fail when every channel failed", async () => {
+    const channel = createChannel("failing");
+    vi.mocked(channel.service.sendScoreMismatch).mockRejectedValue(
+      new Error("Webhook error: 500")
+    );
+    const service = new CompositeNotificationService([channel]);
+
+    await expect(service.sendScoreMismatch(info)).rejects.toThrow(
+      "Failed to send notification on every channel"
+    );
+  });
+
+  it("should do nothing without channels", async () => {
+    const service = new CompositeNotificationService([]);
+
+    await expect(service.sendScoreMismatch(info)).resolves.toBeUndefined();
+  });
+});
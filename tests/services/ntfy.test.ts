@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NtfyService } from '../../src/services/ntfy.js';
+import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/types/index.js';
+
+describe('NtfyService', () => {
+  const config = { url: 'https://ntfy.sh/qualitarr', tags: [] as string[] };
+  let fetchSpy: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+    consoleSpy.mockRestore();
+  });
+
+  function createMismatchInfo(overrides: Partial<ScoreMismatchInfo> = {}): ScoreMismatchInfo {
+    return {
+      title: 'Test Movie',
+      year: 2024,
+      expectedScore: 100,
+      actualScore: 50,
+      difference: -50,
+      maxOverScore: 100,
+      quality: 'Bluray-1080p',
+      ...overrides,
+    };
+  }
+
+  function getRequest(): { url: string; init: RequestInit; payload: Record<string, unknown> } {
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    return { url, init, payload: JSON.parse(init.body as string) as Record<string, unknown> };
+  }
+
+  describe('sendScoreMismatch', () => {
+    it('should publish a Markdown message to the topic', async () => {
+      await new NtfyService(config).sendScoreMismatch(createMismatchInfo());
+
+      const { url, init, payload } = getRequest();
+      expect(url).toBe('https://ntfy.sh');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json' });
+      expect(payload).toEqual({
+        topic: 'qualitarr',
+        markdown: true,
+        title: 'Quality Score Mismatch: Test Movie (2024)',
+        message:
+          '**Test Movie (2024)**\n\n**Expected score:** 100\n**Actual score:** 50 (-50)\n**Quality:** Bluray-1080p',
+        priority: 4,
+      });
+    });
+
+    it('should derive the priority from the score difference', async () => {
+      const service = new NtfyService(config);
+
+      await service.sendScoreMismatch(createMismatchInfo({ difference: -10 }));
+      await service.sendScoreMismatch(createMismatchInfo({ difference: -80 }));
+      await service.sendScoreMismatch(createMismatchInfo({ difference: 20 }));
+
+      const priorities = fetchSpy.mock.calls.map(
+        ([, init]) => (JSON.parse((init as RequestInit).body as string) as { priority: number }).priority
+      );
+      expect(priorities).toEqual([3, 5, 2]);
+    });
+
+    it('should prefer the severity over the score difference', async () => {
+      await new NtfyService(config).sendScoreMismatch(
+        createMismatchInfo({ difference: -5, severity: 'critical' })
+      );
+
+      expect(getRequest().payload.priority).toBe(5);
+    });
+
+    it('should send a quality mismatch at the default priority', async () => {
+      await new NtfyService(config).sendScoreMismatch(
+        createMismatchInfo({ difference: 0, mismatchKind: 'quality' })
+      );
+
+      expect(getRequest().payload.priority).toBe(3);
+    });
+
+    it('should use the configured priority, tags, token and click URL', async () => {
+      await new NtfyService({
+        url: 'https://ntfy.example.com/alerts/media/',
+        token: 'tk_secret',
+        priority: 1,
+        tags: ['movie_camera'],
+        clickUrl: 'https://radarr.example.com',
+      }).sendScoreMismatch(createMismatchInfo({ radarrUrl: 'http://radarr:7878', movieId: 42 }));
+
+      const { url, init, payload } = getRequest();
+      expect(url).toBe('https://ntfy.example.com/alerts');
+      expect(init.headers).toEqual({
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer tk_secret',
+      });
+      expect(payload).toMatchObject({
+        topic: 'media',
+        priority: 1,
+        tags: ['movie_camera'],
+        click: 'https://radarr.example.com',
+      });
+    });
+
+    it('should link to the movie in Radarr', async () => {
+      await new NtfyService(config).sendScoreMismatch(
+        createMismatchInfo({ radarrUrl: 'http://radarr:7878', movieId: 42 })
+      );
+
+      expect(getRequest().payload.click).toBe('http://radarr:7878/movie/42');
+    });
+
+    it('should escape Markdown in release details', async () => {
+      await new NtfyService(config).sendScoreMismatch(
+        createMismatchInfo({ customFormats: 'x265_HDR [DV]' })
+      );
+
+      expect(getRequest().payload.message).toContain('**Custom formats:** x265\\_HDR \\[DV\\]');
+    });
+
+    it('should throw with the ntfy error on failure', async () => {
+      fetchSpy.mockResolvedValue(
+        new Response(JSON.stringify({ error: 'unauthorized' }), { status: 401, statusText: 'Unauthorized' })
+      );
+
+      await expect(new NtfyService(config).sendScoreMismatch(createMismatchInfo())).rejects.toThrow(
+        'ntfy error: 401 unauthorized'
+      );
+    });
+  });
+
+  describe('sendBatchSummary', () => {
+    function createBatchInfo(overrides: Partial<BatchSummaryInfo> = {}): BatchSummaryInfo {
+      return {
+        totalProcessed: 8,
+        completed: 6,
+        failed: 2,
+        mismatches: 1,
+        durationMs: 45000,
+        failedItems: [
+          { title: 'Movie A', error: 'Timeout' },
+          { title: 'Movie B', error: 'No file' },
+        ],
+        ...overrides,
+      };
+    }
+
+    it('should render the counts and failed items', async () => {
+      await new NtfyService(config).sendBatchSummary(createBatchInfo());
+
+      const { payload } = getRequest();
+      expect(payload.title).toBe('Batch Processing Summary');
+      expect(payload.priority).toBe(4);
+      expect(payload.message).toContain('**Duration:** 45s');
+      expect(payload.message).toContain('**Failed items**\n- Movie A: Timeout\n- Movie B: No file');
+    });
+
+    it('should use the default priority without failures', async () => {
+      await new NtfyService(config).sendBatchSummary(createBatchInfo({ failed: 0, failedItems: [] }));
+
+      expect(getRequest().payload.priority).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PushoverService } from '../../src/services/pushover.js';
+import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/types/index.js';
+
+describe('PushoverService', () => {
+  const config = { userKey: 'uQiRzpo4DXghDmr9QzzfQu27cmVRsG', appToken: 'azGDORePK8gMaC0QOYAMyEEuzJnyUi' };
+  let fetchSpy: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response('{"status":1}', { status: 200 }));
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+    consoleSpy.mockRestore();
+  });
+
+  function createMismatchInfo(overrides: Partial<ScoreMismatchInfo> = {}): ScoreMismatchInfo {
+    return {
+      title: 'Test Movie',
+      year: 2024,
+      expectedScore: 100,
+      actualScore: 50,
+      difference: -50,
+      maxOverScore: 100,
+      quality: 'Bluray-1080p',
+      ...overrides,
+    };
+  }
+
+  function getRequest(): { url: string; payload: Record<string, unknown> } {
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    return { url, payload: JSON.parse(init.body as string) as Record<string, unknown> };
+  }
+
+  describe('sendScoreMismatch', () => {
+    it('should push an HTML message to the user', async () => {
+      await new PushoverService(config).sendScoreMismatch(createMismatchInfo());
+
+      const { url, payload } = getRequest();
+      expect(url).toBe('https://api.pushover.net/1/messages.json');
+      expect(payload).toEqual({
+        token: 'azGDORePK8gMaC0QOYAMyEEuzJnyUi',
+        user: 'uQiRzpo4DXghDmr9QzzfQu27cmVRsG',
+        html: 1,
+        title: 'Quality Score Mismatch: Test Movie (2024)',
+        message:
+          'Test Movie (2024)\n\nExpected score: <b>100</b>\nActual score: <b>50</b> (-50)\nQuality: Bluray-1080p',
+        priority: 1,
+      });
+    });
+
+    it('should derive the priority from the score difference', async () => {
+      const service = new PushoverService(config);
+
+      await service.sendScoreMismatch(createMismatchInfo({ difference: -10 }));
+      await service.sendScoreMismatch(createMismatchInfo({ difference: 20 }));
+
+      const priorities = fetchSpy.mock.calls.map(
+        ([, init]) => (JSON.parse((init as RequestInit).body as string) as { priority: number }).priority
+      );
+      expect(priorities).toEqual([0, -1]);
+    });
+
+    it('should use the configured priority and device', async () => {
+      await new PushoverService({ ...config, device: 'phone', priority: -2 }).sendScoreMismatch(
+        createMismatchInfo()
+      );
+
+      expect(getRequest().payload).toMatchObject({ device: 'phone', priority: -2 });
+    });
+
+    it('should link to the series in Sonarr', async () => {
+      await new PushoverService(config).sendScoreMismatch(
+        createMismatchInfo({ sonarrUrl: 'http://sonarr:8989', seriesSlug: 'the-show', episode: 'S01E02' })
+      );
+
+      expect(getRequest().payload).toMatchObject({
+        url: 'http://sonarr:8989/series/the-show',
+        url_title: 'Open in Sonarr',
+      });
+    });
+
+    it('should throw with the Pushover errors on failure', async () => {
+      fetchSpy.mockResolvedValue(
+        new Response(JSON.stringify({ status: 0, errors: ['application token is invalid'] }), {
+          status: 400,
+          statusText: 'Bad Request',
+        })
+      );
+
+      await expect(new PushoverService(config).sendScoreMismatch(createMismatchInfo())).rejects.toThrow(
+        'Pushover API error: 400 application token is invalid'
+      );
+    });
+  });
+
+  describe('sendBatchSummary', () => {
+    it('should render the counts and failed items', async () => {
+      const info: BatchSummaryInfo = {
+        totalProcessed: 8,
+        completed: 6,
+        failed: 2,
+        mismatches: 1,
+        durationMs: 45000,
+        failedItems: [
+          { title: 'Movie A', error: 'Timeout' },
+          { title: 'Movie <B>', error: 'No file' },
+        ],
+      };
+
+      await new PushoverService(config).sendBatchSummary(info);
+
+      const { payload } = getRequest();
+      expect(payload.title).toBe('Batch Processing Summary');
+      expect(payload.priority).toBe(0);
+      expect(payload.message).toContain('Duration: 45s');
+      expect(payload.message).toContain('<b>Failed items</b>\n- Movie A: Timeout\n- Movie &lt;B&gt;: No file');
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import type { Config } from "../../src/types/config.js";
 
-const { mockRadarr, mockDiscord } = vi.hoisted(() => {
+const { mockRadarr, mockSonarr, mockDiscord } = vi.hoisted(() => {
   const mockRadarr = {
     getMovies: vi.fn(),
     getMovie: vi.fn(),
@@ -15,23 +15,45 @@ const { mockRadarr, mockDiscord } = vi.hoisted(() => {
     createTag: vi.fn(),
     getOrCreateTag: vi.fn(),
     addTagToMovie: vi.fn(),
+    replaceMovieTag: vi.fn(),
+    editMovieTags: vi.fn(),
     getSystemStatus: vi.fn(),
   };
 
+  const mockSonarr = {
+    getSeries: vi.fn(),
+    getSeriesById: vi.fn(),
+    getEpisodes: vi.fn(),
+    getEpisodeFiles: vi.fn(),
+    getHistory: vi.fn(),
+    searchEpisodes: vi.fn(),
+    searchSeason: vi.fn(),
+    waitForCommand: vi.fn(),
+    getTags: vi.fn(),
+    createTag: vi.fn(),
+    getOrCreateTag: vi.fn(),
+    addTagToSeries: vi.fn(),
+    replaceSeriesTag: vi.fn(),
+  };
+
   const mockDiscord = {
     sendScoreMismatch: vi.fn().mockResolvedValue(undefined),
     sendBatchSummary: vi.fn().mockResolvedValue(undefined),
   };
 
-  return { mockRadarr, mockDiscord };
+  return { mockRadarr, mockSonarr, mockDiscord };
 });
 
 vi.mock("../../src/services/radarr.js", () => ({
   RadarrService: vi.fn().mockImplementation(function () { return mockRadarr; }),
 }));
 
-vi.mock("../../src/services/discord.js", () => ({
-  DiscordService: vi.fn().mockImplementation(function () { return mockDiscord; }),
+vi.mock("../../src/services/sonarr.js", () => ({
+  SonarrService: vi.fn().mockImplementation(function () { return mockSonarr; }),
+}));
+
+vi.mock("../../src/services/notifications.js", () => ({
+  createNotificationService: vi.fn().mockImplementation(function () { return mockDiscord; }),
 }));
 
 vi.mock("../../src/utils/async.js", () => ({
@@ -48,8 +70,17 @@ function createConfig(overrides?: Partial<Config>): Config {
       api: { timeoutMs: 5000, retryAttempts: 2, retryDelayMs: 100 },
     },
     discord: { enabled: false },
-    tag: { enabled: true, successTag: "check_ok", mismatchTag: "quality-mismatch" },
-    quality: { maxOverScore: 100, maxUnderScore: 0 },
+    notifications: [],
+    tag: { enabled: true, successTag: "check_ok", mismatchTag: "quality-mismatch", downgradeTag: "quality-downgrade" },
+    quality: {
+      mode: "absolute",
+      maxOverScore: 100,
+      maxUnderScore: 0,
+      maxOverPercent: 10,
+      maxUnderPercent: 0,
+      tiers: [],
+      overrides: [],
+    },
     batch: {
       maxConcurrentDownloads: 3,
       searchIntervalSeconds: 1,
@@ -59,6 +90,7 @@ function createConfig(overrides?: Partial<Config>): Config {
       commandPollIntervalMs: 100,
       grabWaitTimeoutMs: 500,
       historyPollIntervalMs: 100,
+      tagBatchSize: 100,
     },
     ...overrides,
   } as Config;
@@ -129,6 +161,23 @@ describe("QueueManager", () => {
       expect(manager).toBeInstanceOf(QueueManager);
     });
 
+    it("should require an instance name when several instances are configured", () => {
+      const radarr = createConfig().radarr as Record<string, unknown>;
+      const config = createConfig({
+        radarr: [
+          { ...radarr, name: "hd" },
+          { ...radarr, name: "4k" },
+        ],
+      } as Partial<Config>);
+
+      expect(() => new QueueManager(config)).toThrow(
+        "Multiple Radarr instances configured"
+      );
+      expect(new QueueManager(config, { instance: "4k" })).toBeInstanceOf(
+        QueueManager
+      );
+    });
+
     it("should accept dryRun option", () => {
       const manager = new QueueManager(createConfig(), { dryRun: true });
 
@@ -270,6 +319,7 @@ describe("QueueManager", () => {
       mockRadarr.getMovieFile.mockResolvedValue(validMovieFile);
       mockRadarr.getMovie.mockResolvedValue(validMovie);
       mockRadarr.getOrCreateTag.mockResolvedValue({ id: 10, label: "check_ok" });
+      mockRadarr.createTag.mockResolvedValue({ id: 10, label: "check_ok" });
       mockRadarr.addTagToMovie.mockResolvedValue(validMovie);
 
       const manager = new QueueManager(createConfig());
@@ -277,7 +327,29 @@ describe("QueueManager", () => {
       await manager.run();
 
       expect(mockRadarr.searchMovie).toHaveBeenCalledWith(1);
-      expect(mockRadarr.getOrCreateTag).toHaveBeenCalled();
+      expect(mockRadarr.createTag).toHaveBeenCalledWith("check_ok");
+    });
+
+    it("should apply buffered tags through the movie editor at the end of the run", async () => {
+      mockRadarr.getMovies.mockResolvedValue([
+        { ...validMovie, id: 1 },
+        { ...validMovie, id: 2 },
+      ]);
+      mockRadarr.getTags.mockResolvedValue([]);
+      mockRadarr.getHistory.mockResolvedValue([]);
+      mockRadarr.searchMovie.mockResolvedValue({ id: 50, name: "MoviesSearch", status: "queued", queued: "2024-01-01T00:00:00Z" });
+      mockRadarr.waitForCommand.mockResolvedValue({ id: 50, name: "MoviesSearch", status: "completed", queued: "2024-01-01T00:00:00Z" });
+      mockRadarr.getOrCreateTag.mockResolvedValue({ id: 10, label: "check_ok" });
+      mockRadarr.createTag.mockResolvedValue({ id: 10, label: "check_ok" });
+      mockRadarr.editMovieTags.mockResolvedValue(undefined);
+
+      const manager = new QueueManager(createConfig());
+      await manager.loadMoviesWithoutTag();
+      await manager.run();
+
+      expect(mockRadarr.addTagToMovie).not.toHaveBeenCalled();
+      expect(mockRadarr.editMovieTags).toHaveBeenCalledTimes(1);
+      expect(mockRadarr.editMovieTags).toHaveBeenCalledWith([1, 2], [10], "add");
     });
 
     it("should apply success tag when no grab history exists at all", async () => {
@@ -288,6 +360,7 @@ describe("QueueManager", () => {
       mockRadarr.waitForCommand.mockResolvedValue({ id: 50, name: "MoviesSearch", status: "completed", queued: "2024-01-01T00:00:00Z" });
       mockRadarr.getMovie.mockResolvedValue(validMovie);
       mockRadarr.getOrCreateTag.mockResolvedValue({ id: 10, label: "check_ok" });
+      mockRadarr.createTag.mockResolvedValue({ id: 10, label: "check_ok" });
       mockRadarr.addTagToMovie.mockResolvedValue(validMovie);
 
       const manager = new QueueManager(createConfig());
@@ -325,6 +398,7 @@ describe("QueueManager", () => {
       mockRadarr.getMovieFile.mockResolvedValue(validMovieFile);
       mockRadarr.getMovie.mockResolvedValue(validMovie);
       mockRadarr.getOrCreateTag.mockResolvedValue({ id: 10, label: "check_ok" });
+      mockRadarr.createTag.mockResolvedValue({ id: 10, label: "check_ok" });
       mockRadarr.addTagToMovie.mockResolvedValue(validMovie);
 
       let historyCallCount = 0;
@@ -410,6 +484,7 @@ describe("QueueManager", () => {
       mockRadarr.getMovieFile.mockResolvedValue(validMovieFile);
       mockRadarr.getMovie.mockResolvedValue(validMovie);
       mockRadarr.getOrCreateTag.mockResolvedValue({ id: 10, label: "check_ok" });
+      mockRadarr.createTag.mockResolvedValue({ id: 10, label: "check_ok" });
       mockRadarr.addTagToMovie.mockResolvedValue(validMovie);
 
       const config = createConfig({ discord: { enabled: true, webhookUrl: "https://discord.com/api/webhooks/123/abc" } });
@@ -425,4 +500,218 @@ describe("QueueManager", () => {
       );
     });
   });
+  describe("Sonarr target", () => {
+    const series = {
+      id: 5,
+      title: "Test Series",
+      year: 2020,
+      tvdbId: 81189,
+      titleSlug: "test-series",
+      monitored: true,
+      tags: [],
+      seasons: [
+        { seasonNumber: 0, monitored: false },
+        { seasonNumber: 1, monitored: true },
+        { seasonNumber: 2, monitored: true },
+      ],
+    };
+
+    const episodeQuality = {
+      quality: { id: 3, name: "WEBDL-1080p", source: "web", resolution: 1080 },
+      revision: { version: 1, real: 0, isRepack: false },
+    };
+
+    const episodes = [
+      { id: 50, seriesId: 5, episodeFileId: 0, seasonNumber: 0, episodeNumber: 1, title: "Special", airDateUtc: "2019-01-01T00:00:00Z", hasFile: false, monitored: true },
+      { id: 51, seriesId: 5, episodeFileId: 501, seasonNumber: 1, episodeNumber: 1, title: "E1", airDateUtc: "2020-01-01T00:00:00Z", hasFile: true, monitored: true },
+      { id: 52, seriesId: 5, episodeFileId: 502, seasonNumber: 1, episodeNumber: 2, title: "E2", airDateUtc: "2020-01-08T00:00:00Z", hasFile: true, monitored: true },
+      { id: 53, seriesId: 5, episodeFileId: 503, seasonNumber: 2, episodeNumber: 1, title: "E1", airDateUtc: "2021-01-01T00:00:00Z", hasFile: true, monitored: true },
+      { id: 54, seriesId: 5, episodeFileId: 0, seasonNumber: 2, episodeNumber: 2, title: "Unaired", airDateUtc: "2999-01-01T00:00:00Z", hasFile: false, monitored: true },
+      { id: 55, seriesId: 5, episodeFileId: 0, seasonNumber: 2, episodeNumber: 3, title: "TBA", hasFile: false, monitored: true },
+    ];
+
+    function createSonarrConfig(sonarr: { searchMode: "episode" | "season" }): Config {
+      const config = createConfig({
+        sonarr: {
+          url: "http://sonarr:8989",
+          apiKey: "test-key",
+          api: { timeoutMs: 5000, retryAttempts: 2, retryDelayMs: 100 },
+        },
+      });
+      return { ...config, batch: { ...config.batch, sonarr } };
+    }
+
+    function episodeFile(id: number, customFormatScore: number) {
+      return {
+        id,
+        seriesId: 5,
+        seasonNumber: 1,
+        relativePath: `file-${id}.mkv`,
+        path: `/tv/file-${id}.mkv`,
+        size: 1000,
+        quality: episodeQuality,
+        customFormatScore,
+      };
+    }
+
+    function historyEvent(id: number, episodeId: number, eventType: string) {
+      return {
+        id,
+        episodeId,
+        seriesId: 5,
+        sourceTitle: "Test.Series.1080p",
+        quality: episodeQuality,
+        customFormatScore: 80,
+        date: "2024-01-01T00:00:00Z",
+        eventType,
+        data: { indexer: "NZBgeek" },
+      };
+    }
+
+    // Grab and import of every aired episode
+    const searchHistory = [
+      historyEvent(6, 53, "downloadFolderImported"),
+      historyEvent(5, 52, "downloadFolderImported"),
+      historyEvent(4, 51, "downloadFolderImported"),
+      historyEvent(3, 53, "grabbed"),
+      historyEvent(2, 52, "grabbed"),
+      historyEvent(1, 51, "grabbed"),
+    ];
+
+    beforeEach(() => {
+      mockSonarr.getSeries.mockResolvedValue([series]);
+      mockSonarr.getSeriesById.mockResolvedValue(series);
+      mockSonarr.getTags.mockResolvedValue([]);
+      mockSonarr.getEpisodes.mockResolvedValue(episodes);
+      mockSonarr.getHistory.mockResolvedValue([]);
+      mockSonarr.getOrCreateTag.mockImplementation((label: string) =>
+        Promise.resolve({ id: label === "check_ok" ? 10 : 20, label })
+      );
+      mockSonarr.createTag.mockImplementation((label: string) =>
+        Promise.resolve({ id: label === "check_ok" ? 10 : 20, label })
+      );
+      mockSonarr.addTagToSeries.mockResolvedValue(series);
+      mockSonarr.replaceSeriesTag.mockResolvedValue(series);
+    });
+
+    it("should throw if sonarr config is missing", () => {
+      expect(() => new QueueManager(createConfig(), { target: "sonarr" })).toThrow(
+        "Sonarr configuration is required"
+      );
+    });
+
+    it("should queue one item per aired episode of monitored seasons", async () => {
+      const manager = new QueueManager(
+        createSonarrConfig({ searchMode: "episode" }),
+        { target: "sonarr" }
+      );
+
+      const count = await manager.loadEpisodesWithoutTag();
+
+      expect(count).toBe(3);
+    });
+
+    it("should queue one item per season in season mode and respect limit", async () => {
+      const config = createSonarrConfig({ searchMode: "season" });
+
+      expect(
+        await new QueueManager(config, { target: "sonarr" }).loadEpisodesWithoutTag()
+      ).toBe(2);
+      expect(
+        await new QueueManager(config, { target: "sonarr" }).loadEpisodesWithoutTag(1)
+      ).toBe(1);
+    });
+
+    it("should skip series with success tag", async () => {
+      mockSonarr.getTags.mockResolvedValue([{ id: 10, label: "check_ok" }]);
+      mockSonarr.getSeries.mockResolvedValue([{ ...series, tags: [10] }]);
+
+      const manager = new QueueManager(
+        createSonarrConfig({ searchMode: "episode" }),
+        { target: "sonarr" }
+      );
+
+      expect(await manager.loadEpisodesWithoutTag()).toBe(0);
+    });
+
+    it("should tag the series once every season passed, removing its mismatch tags", async () => {
+      mockSonarr.searchSeason.mockResolvedValue({ id: 60 });
+      mockSonarr.waitForCommand.mockResolvedValue({ id: 60, status: "completed" });
+      mockSonarr.getEpisodeFiles.mockResolvedValue([
+        episodeFile(501, 80),
+        episodeFile(502, 80),
+        episodeFile(503, 80),
+      ]);
+
+      const manager = new QueueManager(
+        createSonarrConfig({ searchMode: "season" }),
+        { target: "sonarr" }
+      );
+      await manager.loadEpisodesWithoutTag();
+      mockSonarr.getHistory.mockResolvedValue(searchHistory);
+      mockSonarr.getTags.mockResolvedValue([
+        { id: 10, label: "check_ok" },
+        { id: 20, label: "quality-mismatch" },
+        { id: 30, label: "quality-downgrade" },
+      ]);
+      await manager.run();
+
+      expect(mockSonarr.searchSeason).toHaveBeenCalledTimes(2);
+      expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledTimes(1);
+      expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledWith(series, [20, 30], 10);
+      expect(mockSonarr.addTagToSeries).not.toHaveBeenCalled();
+    });
+
+    it("should not tag the series when --limit ends partway through it", async () => {
+      mockSonarr.searchEpisodes.mockResolvedValue({ id: 60 });
+      mockSonarr.waitForCommand.mockResolvedValue({ id: 60, status: "completed" });
+      mockSonarr.getEpisodeFiles.mockResolvedValue([
+        episodeFile(501, 80),
+        episodeFile(502, 80),
+        episodeFile(503, 80),
+      ]);
+
+      const manager = new QueueManager(
+        createSonarrConfig({ searchMode: "episode" }),
+        { target: "sonarr" }
+      );
+      expect(await manager.loadEpisodesWithoutTag(2)).toBe(2);
+      mockSonarr.getHistory.mockResolvedValue(searchHistory);
+      await manager.run();
+
+      expect(mockSonarr.searchEpisodes).toHaveBeenCalledTimes(2);
+      expect(mockSonarr.addTagToSeries).not.toHaveBeenCalled();
+      expect(mockSonarr.replaceSeriesTag).not.toHaveBeenCalled();
+
+      // The next run queues the series again, remaining episode included
+      mockSonarr.getHistory.mockResolvedValue([]);
+      const nextRun = new QueueManager(
+        createSonarrConfig({ searchMode: "episode" }),
+        { target: "sonarr" }
+      );
+      expect(await nextRun.loadEpisodesWithoutTag()).toBe(3);
+    });
+
+    it("should not tag the series as passed when one season mismatches", async () => {
+      mockSonarr.searchSeason.mockResolvedValue({ id: 60 });
+      mockSonarr.waitForCommand.mockResolvedValue({ id: 60, status: "completed" });
+      mockSonarr.getEpisodeFiles.mockResolvedValue([
+        episodeFile(501, 80),
+        episodeFile(502, 80),
+        episodeFile(503, 10),
+      ]);
+
+      const manager = new QueueManager(
+        createSonarrConfig({ searchMode: "season" }),
+        { target: "sonarr" }
+      );
+      await manager.loadEpisodesWithoutTag();
+      mockSonarr.getHistory.mockResolvedValue(searchHistory);
+      await manager.run();
+
+      expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledTimes(1);
+      expect(mockSonarr.replaceSeriesTag).toHaveBeenCalledWith(series, [], 20);
+      expect(mockSonarr.addTagToSeries).not.toHaveBeenCalled();
+    });
+  });
 });
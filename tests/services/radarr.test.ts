@@ -472,6 +472,78 @@ describe("RadarrService", () => {
     });
   });
 
+  describe("getQualityProfiles", () => {
+    it("should return validated quality profiles", async () => {
+      mockFetchJson([
+        { id: 1, name: "Any", items: [] },
+        { id: 4, name: "Ultra-HD", items: [] },
+      ]);
+      const service = new RadarrService(createConfig());
+
+      const profiles = await service.getQualityProfiles();
+
+      expect(profiles).toEqual([
+        { id: 1, name: "Any" },
+        { id: 4, name: "Ultra-HD" },
+      ]);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/qualityprofile",
+        expect.anything()
+      );
+    });
+  });
+
+  describe("getQualityProfile", () => {
+    it("should return the profile with its custom format scores", async () => {
+      mockFetchJson({
+        id: 4,
+        name: "Ultra-HD",
+        items: [],
+        formatItems: [
+          { format: 1, name: "DV", score: 100 },
+          { format: 2, name: "x265", score: -10 },
+        ],
+      });
+      const service = new RadarrService(createConfig());
+
+      const profile = await service.getQualityProfile(4);
+
+      expect(profile).toEqual({
+        id: 4,
+        name: "Ultra-HD",
+        formatItems: [
+          { format: 1, name: "DV", score: 100 },
+          { format: 2, name: "x265", score: -10 },
+        ],
+      });
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/qualityprofile/4",
+        expect.anything()
+      );
+    });
+  });
+
+  describe("getCustomFormats", () => {
+    it("should return validated custom formats", async () => {
+      mockFetchJson([
+        { id: 1, name: "DV", specifications: [] },
+        { id: 2, name: "x265", specifications: [] },
+      ]);
+      const service = new RadarrService(createConfig());
+
+      const formats = await service.getCustomFormats();
+
+      expect(formats).toEqual([
+        { id: 1, name: "DV" },
+        { id: 2, name: "x265" },
+      ]);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/customformat",
+        expect.anything()
+      );
+    });
+  });
+
   describe("createTag", () => {
     it("should send POST with tag label", async () => {
       mockFetchJson(validTag);
@@ -551,6 +623,133 @@ describe("RadarrService", () => {
     });
   });
 
+  describe("replaceMovieTag", () => {
+    it("should swap tags in a single movie editor PUT", async () => {
+      mockFetchJson([]);
+      const service = new RadarrService(createConfig());
+      const movie = { ...validMovie, tags: [1, 3] };
+
+      const result = await service.replaceMovieTag(movie, [3], 5);
+
+      expect(result.tags).toEqual([1, 5]);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      // Only the tags are sent, not the whole (schema-stripped) movie
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/movie/editor",
+        expect.objectContaining({
+          method: "PUT",
+          body: JSON.stringify({
+            movieIds: [1],
+            tags: [1, 5],
+            applyTags: "replace",
+          }),
+        })
+      );
+    });
+
+    it("should skip if movie already has only the new tag", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const service = new RadarrService(createConfig());
+      const movie = { ...validMovie, tags: [1, 5] };
+
+      const result = await service.replaceMovieTag(movie, [3], 5);
+
+      expect(result).toEqual(movie);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should remove the old tag when the new one is already there", async () => {
+      mockFetchJson([]);
+      const service = new RadarrService(createConfig());
+      const movie = { ...validMovie, tags: [3, 5] };
+
+      await service.replaceMovieTag(movie, [3], 5);
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/movie/editor",
+        expect.objectContaining({
+          body: expect.stringContaining('"tags":[5]'),
+        })
+      );
+    });
+  });
+
+  describe("editMovieTags", () => {
+    it("should PUT the tags of every movie to the movie editor", async () => {
+      mockFetchJson([]);
+      const service = new RadarrService(createConfig());
+
+      await service.editMovieTags([1, 2, 3], [5], "remove");
+
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/movie/editor",
+        expect.objectContaining({
+          method: "PUT",
+          body: JSON.stringify({
+            movieIds: [1, 2, 3],
+            tags: [5],
+            applyTags: "remove",
+          }),
+        })
+      );
+    });
+
+    it("should skip the request without movies", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const service = new RadarrService(createConfig());
+
+      await service.editMovieTags([], [5], "add");
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteMovieFile", () => {
+    it("should DELETE the movie file and accept an empty response", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response(null, { status: 200, statusText: "OK" })
+      );
+      const service = new RadarrService(createConfig());
+
+      await service.deleteMovieFile(40);
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/moviefile/40",
+        expect.objectContaining({ method: "DELETE" })
+      );
+    });
+  });
+
+  describe("markHistoryFailed", () => {
+    it("should POST the grabbed history record as failed", async () => {
+      mockFetchJson({});
+      const service = new RadarrService(createConfig());
+
+      await service.markHistoryFailed(42);
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/history/failed/42",
+        expect.objectContaining({ method: "POST" })
+      );
+    });
+  });
+
+  describe("getDownloadClientConfig", () => {
+    it("should fetch the download client settings", async () => {
+      mockFetchJson({ id: 1, autoRedownloadFailed: true, enableCompletedDownloadHandling: true });
+      const service = new RadarrService(createConfig());
+
+      const config = await service.getDownloadClientConfig();
+
+      expect(config).toEqual({ autoRedownloadFailed: true });
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://radarr:7878/api/v3/config/downloadclient",
+        expect.anything()
+      );
+    });
+  });
+
   describe("waitForCommand", () => {
     it("should return immediately when command is already completed", async () => {
       mockFetchJson({ ...validCommand, status: "completed" });
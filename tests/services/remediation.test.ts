@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { applyMismatchAction } from '../../src/services/remediation.js';
+
+const movie = { id: 1, title: 'Test Movie', year: 2024 };
+
+function verification(mismatchAction?: string) {
+  return { mediaType: 'movie', mediaId: 1, title: 'Test Movie', mismatchAction };
+}
+
+function createRadarr(failedEvents = 0, autoRedownloadFailed = false) {
+  return {
+    getMovie: vi.fn(),
+    getTags: vi.fn(),
+    createTag: vi.fn(),
+    replaceMovieTag: vi.fn(),
+    getHistory: vi.fn().mockResolvedValue([
+      { id: 3, eventType: 'downloadFolderImported' },
+      { id: 2, eventType: 'grabbed' },
+      ...Array.from({ length: failedEvents }, (_, i) => ({ id: 100 + i, eventType: 'downloadFailed' })),
+    ]),
+    getMovieFile: vi.fn().mockResolvedValue({ id: 40 }),
+    deleteMovieFile: vi.fn().mockResolvedValue(undefined),
+    markHistoryFailed: vi.fn().mockResolvedValue(undefined),
+    getDownloadClientConfig: vi.fn().mockResolvedValue({ autoRedownloadFailed }),
+    searchMovie: vi.fn().mockResolvedValue({ id: 77 }),
+  };
+}
+
+describe('applyMismatchAction', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should do nothing with tag-only', async () => {
+    const radarr = createRadarr();
+
+    const action = await applyMismatchAction(movie, 2, { action: 'tag-only', maxAttempts: 3 }, { radarr });
+
+    expect(action).toBe('tag-only');
+    expect(radarr.getHistory).not.toHaveBeenCalled();
+    expect(radarr.markHistoryFailed).not.toHaveBeenCalled();
+  });
+
+  it('should blocklist the grab and search again', async () => {
+    const radarr = createRadarr(1);
+
+    const action = await applyMismatchAction(
+      movie,
+      2,
+      { action: 'blocklist-and-research', maxAttempts: 3 },
+      { radarr }
+    );
+
+    expect(action).toBe('blocklist-and-research');
+    expect(radarr.markHistoryFailed).toHaveBeenCalledWith(2);
+    expect(radarr.deleteMovieFile).not.toHaveBeenCalled();
+    expect(radarr.searchMovie).toHaveBeenCalledWith(1);
+    expect(consoleSpy.mock.calls.map((c) => c[0]).join('\n')).toContain('attempt 2/3');
+  });
+
+  it('should delete the file between blocklist and search', async () => {
+    const radarr = createRadarr();
+
+    const action = await applyMismatchAction(
+      movie,
+      2,
+      { action: 'delete-and-research', maxAttempts: 3 },
+      { radarr }
+    );
+
+    expect(action).toBe('delete-and-research');
+    expect(radarr.markHistoryFailed).toHaveBeenCalledWith(2);
+    expect(radarr.deleteMovieFile).toHaveBeenCalledWith(40);
+    expect(radarr.searchMovie).toHaveBeenCalledWith(1);
+    expect(radarr.markHistoryFailed.mock.invocationCallOrder[0]).toBeLessThan(
+      radarr.deleteMovieFile.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should stop once the maximum attempts are reached', async () => {
+    const radarr = createRadarr(3);
+
+    const action = await applyMismatchAction(
+      movie,
+      2,
+      { action: 'blocklist-and-research', maxAttempts: 3 },
+      { radarr }
+    );
+
+    expect(action).toBe('tag-only');
+    expect(radarr.markHistoryFailed).not.toHaveBeenCalled();
+    expect(radarr.searchMovie).not.toHaveBeenCalled();
+    expect(consoleSpy.mock.calls.map((c) => c[0]).join('\n')).toContain(
+      'Reached 3 attempt(s) for Test Movie'
+    );
+  });
+
+  it('should not search again when the grab is unknown', async () => {
+    const radarr = createRadarr();
+
+    const action = await applyMismatchAction(
+      movie,
+      undefined,
+      { action: 'blocklist-and-research', maxAttempts: 3 },
+      { radarr }
+    );
+
+    expect(action).toBe('tag-only');
+    expect(radarr.searchMovie).not.toHaveBeenCalled();
+  });
+
+  it('should leave the search to Radarr when it redownloads failed releases', async () => {
+    const radarr = createRadarr(0, true);
+
+    const action = await applyMismatchAction(
+      movie,
+      2,
+      { action: 'blocklist-and-research', maxAttempts: 3 },
+      { radarr }
+    );
+
+    expect(action).toBe('blocklist-and-research');
+    expect(radarr.markHistoryFailed).toHaveBeenCalledWith(2);
+    expect(radarr.searchMovie).not.toHaveBeenCalled();
+    expect(consoleSpy.mock.calls.map((c) => c[0]).join('\n')).toContain('Redownload Failed is on');
+  });
+
+  describe('with a history store', () => {
+    it('should only count the releases it blocklisted itself', async () => {
+      const radarr = createRadarr(5);
+      const list = vi.fn().mockReturnValue([
+        verification('blocklist-and-research'),
+        verification('tag-only'),
+        verification(),
+      ]);
+
+      const action = await applyMismatchAction(
+        movie,
+        2,
+        { action: 'blocklist-and-research', maxAttempts: 3 },
+        { radarr, history: { record: vi.fn(), list }, instanceName: '4k' }
+      );
+
+      expect(action).toBe('blocklist-and-research');
+      expect(list).toHaveBeenCalledWith({ media: { type: 'movie', id: 1 }, instance: '4k' });
+      expect(radarr.getHistory).not.toHaveBeenCalled();
+      expect(consoleSpy.mock.calls.map((c) => c[0]).join('\n')).toContain('attempt 2/3');
+    });
+
+    it('should stop once its own attempts reach the maximum', async () => {
+      const radarr = createRadarr();
+      const list = vi.fn().mockReturnValue([
+        verification('blocklist-and-research'),
+        verification('delete-and-research'),
+      ]);
+
+      const action = await applyMismatchAction(
+        movie,
+        2,
+        { action: 'blocklist-and-research', maxAttempts: 2 },
+        { radarr, history: { record: vi.fn(), list } }
+      );
+
+      expect(action).toBe('tag-only');
+      expect(radarr.markHistoryFailed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,19 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
+  applySeriesSuccessTag,
   calculateScoreComparison,
+  comparePackScores,
+  compareQuality,
+  diffCustomFormats,
+  formatCustomFormatDiff,
+  formatQualityDowngrade,
+  classifySeverity,
+  compareScores,
+  computeThresholds,
+  getMismatchTags,
+  getToleranceTarget,
+  resolveTolerance,
+  handlePackScoreResult,
   handleScoreResult,
   logScoreComparison,
   logDryRunResult,
@@ -13,6 +26,19 @@ import type {
 } from '../../src/types/score.js';
 import type { TagConfig, QualityConfig } from '../../src/types/config.js';
 
+function createQualityConfig(overrides: Partial<QualityConfig> = {}): QualityConfig {
+  return {
+    mode: 'absolute',
+    maxOverScore: 100,
+    maxUnderScore: 0,
+    maxOverPercent: 10,
+    maxUnderPercent: 0,
+    tiers: [],
+    overrides: [],
+    ...overrides,
+  };
+}
+
 describe('calculateScoreComparison', () => {
   const defaultConfig = {
     maxOverScore: 100,
@@ -194,21 +220,23 @@ describe('handleScoreResult', () => {
     enabled: true,
     successTag: 'quality-ok',
     mismatchTag: 'quality-mismatch',
+    downgradeTag: 'quality-downgrade',
   };
 
-  const mockQualityConfig: QualityConfig = {
-    maxOverScore: 100,
-    maxUnderScore: 0,
-  };
+  const mockQualityConfig = createQualityConfig();
 
   function createMockServices(): ScoreResultServices {
     return {
       radarr: {
         getMovie: vi.fn().mockResolvedValue({ id: 1, title: 'Test', year: 2024, tags: [] }),
-        getOrCreateTag: vi.fn().mockResolvedValue({ id: 10, label: 'test-tag' }),
-        addTagToMovie: vi.fn().mockResolvedValue({}),
+        getTags: vi.fn().mockResolvedValue([
+          { id: 20, label: 'quality-ok' },
+          { id: 21, label: 'Quality-Mismatch' },
+        ]),
+        createTag: vi.fn().mockResolvedValue({ id: 10, label: 'test-tag' }),
+        replaceMovieTag: vi.fn().mockResolvedValue({}),
       },
-      discord: {
+      notifications: {
         sendScoreMismatch: vi.fn().mockResolvedValue(undefined),
       },
     };
@@ -252,9 +280,15 @@ describe('handleScoreResult', () => {
 
     expect(result.tagApplied).toBe('quality-ok');
     expect(result.notificationSent).toBe(false);
-    expect(services.radarr.getOrCreateTag).toHaveBeenCalledWith('quality-ok');
-    expect(services.radarr.addTagToMovie).toHaveBeenCalled();
-    expect(services.discord.sendScoreMismatch).not.toHaveBeenCalled();
+    // Both tags come from a single tag list
+    expect(services.radarr.getTags).toHaveBeenCalledTimes(1);
+    expect(services.radarr.createTag).not.toHaveBeenCalled();
+    expect(services.radarr.replaceMovieTag).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }),
+      [21],
+      20
+    );
+    expect(services.notifications.sendScoreMismatch).not.toHaveBeenCalled();
   });
 
   it('should apply mismatch tag and send notification when score is unacceptable', async () => {
@@ -273,8 +307,13 @@ describe('handleScoreResult', () => {
 
     expect(result.tagApplied).toBe('quality-mismatch');
     expect(result.notificationSent).toBe(true);
-    expect(services.radarr.getOrCreateTag).toHaveBeenCalledWith('quality-mismatch');
-    expect(services.discord.sendScoreMismatch).toHaveBeenCalledWith({
+    expect(services.radarr.createTag).not.toHaveBeenCalled();
+    expect(services.radarr.replaceMovieTag).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }),
+      [20],
+      21
+    );
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith({
       title: 'Test Movie',
       year: 2024,
       expectedScore: 50,
@@ -286,6 +325,7 @@ describe('handleScoreResult', () => {
       radarrUrl: undefined,
       movieId: 1,
       posterUrl: undefined,
+      mismatchKind: 'score',
     });
   });
 
@@ -304,7 +344,7 @@ describe('handleScoreResult', () => {
       services
     );
 
-    expect(services.discord.sendScoreMismatch).toHaveBeenCalledWith(
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
       expect.objectContaining({ indexer: 'NZBgeek' })
     );
   });
@@ -326,7 +366,7 @@ describe('handleScoreResult', () => {
       services
     );
 
-    expect(services.discord.sendScoreMismatch).toHaveBeenCalledWith(
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
       expect.objectContaining({
         radarrUrl: 'http://radarr:7878',
         movieId: 42,
@@ -356,7 +396,7 @@ describe('handleScoreResult', () => {
       services
     );
 
-    expect(services.discord.sendScoreMismatch).toHaveBeenCalledWith(
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
       expect.objectContaining({
         posterUrl: 'https://img.tmdb.org/poster.jpg',
       })
@@ -384,7 +424,7 @@ describe('handleScoreResult', () => {
       services
     );
 
-    expect(services.discord.sendScoreMismatch).toHaveBeenCalledWith(
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
       expect.objectContaining({
         posterUrl: '/MediaCover/poster.jpg',
       })
@@ -412,7 +452,7 @@ describe('handleScoreResult', () => {
       services
     );
 
-    expect(services.discord.sendScoreMismatch).toHaveBeenCalledWith(
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
       expect.objectContaining({
         posterUrl: undefined,
       })
@@ -435,8 +475,1008 @@ describe('handleScoreResult', () => {
     );
 
     expect(result.tagApplied).toBeNull();
-    expect(services.radarr.getOrCreateTag).not.toHaveBeenCalled();
-    expect(services.radarr.addTagToMovie).not.toHaveBeenCalled();
+    expect(services.radarr.createTag).not.toHaveBeenCalled();
+    expect(services.radarr.replaceMovieTag).not.toHaveBeenCalled();
+  });
+
+  it('should record the verification in the history store', async () => {
+    const record = vi.fn();
+    const services = { ...createMockServices(), instanceName: '4k', history: { record } };
+    const context: ScoreResultContext = {
+      movie: { id: 1, title: 'Test Movie', year: 2024 },
+      quality: 'Bluray-1080p',
+      comparison: createMismatchComparison(),
+      releaseTitle: 'Test.Movie.2024.1080p.BluRay-GRP',
+      indexer: 'NZBgeek',
+      releaseGroup: 'GRP',
+      correlationId: 'abc12345',
+    };
+
+    await handleScoreResult(
+      context,
+      { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+      services
+    );
+
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mediaType: 'movie',
+        mediaId: 1,
+        title: 'Test Movie',
+        instance: '4k',
+        releaseTitle: 'Test.Movie.2024.1080p.BluRay-GRP',
+        indexer: 'NZBgeek',
+        releaseGroup: 'GRP',
+        expectedScore: 50,
+        actualScore: 30,
+        isAcceptable: false,
+        tagApplied: 'quality-mismatch',
+        notificationSent: true,
+        correlationId: 'abc12345',
+      })
+    );
+  });
+
+  it('should report lost and gained custom formats on mismatch', async () => {
+    const record = vi.fn();
+    const services = { ...createMockServices(), history: { record } };
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'Bluray-2160p',
+        comparison: createMismatchComparison(),
+        customFormatDiff: { lost: ['DV', 'Atmos'], gained: ['x265'] },
+      },
+      { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+      services
+    );
+
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join('\n');
+    consoleSpy.mockRestore();
+
+    expect(output).toContain('Custom formats lost: DV, Atmos; gained: x265');
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({ customFormats: 'lost: DV, Atmos; gained: x265' })
+    );
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        customFormatsLost: ['DV', 'Atmos'],
+        customFormatsGained: ['x265'],
+      })
+    );
+  });
+
+  it('should tag and report a quality downgrade when the score is acceptable', async () => {
+    const record = vi.fn();
+    const services = { ...createMockServices(), history: { record } };
+    services.radarr.getTags = vi.fn().mockResolvedValue([
+      { id: 20, label: 'quality-ok' },
+      { id: 21, label: 'quality-mismatch' },
+    ]);
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'WEBDL-1080p',
+        comparison: createAcceptableComparison(),
+        qualityComparison: {
+          grabbedQuality: 'Bluray-2160p',
+          actualQuality: 'WEBDL-1080p',
+          downgrades: ['resolution', 'source'],
+          isDowngrade: true,
+        },
+      },
+      { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+      services
+    );
+
+    const output = consoleSpy.mock.calls.map((c) => c[0]).join('\n');
+    consoleSpy.mockRestore();
+
+    expect(output).toContain('Quality mismatch detected');
+    expect(result.tagApplied).toBe('quality-downgrade');
+    expect(services.radarr.createTag).toHaveBeenCalledWith('quality-downgrade');
+    expect(services.radarr.replaceMovieTag).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }),
+      [20, 21],
+      10
+    );
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mismatchKind: 'quality',
+        qualityDowngrade: 'Bluray-2160p -> WEBDL-1080p (resolution, source)',
+      })
+    );
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        isAcceptable: true,
+        mismatchKind: 'quality',
+        qualityDowngrade: 'Bluray-2160p -> WEBDL-1080p (resolution, source)',
+      })
+    );
+  });
+
+  it('should not grade a quality downgrade with a score severity', async () => {
+    const services = createMockServices();
+
+    const result = await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'WEBDL-1080p',
+        comparison: createAcceptableComparison(),
+        qualityComparison: {
+          grabbedQuality: 'Bluray-2160p',
+          actualQuality: 'WEBDL-1080p',
+          downgrades: ['resolution'],
+          isDowngrade: true,
+        },
+      },
+      {
+        tagConfig: mockTagConfig,
+        qualityConfig: mockQualityConfig,
+        severity: {
+          majorDifference: 21,
+          criticalDifference: 51,
+          minor: { notify: true },
+          major: { notify: true },
+          critical: { notify: true },
+        },
+      },
+      services
+    );
+
+    expect(result).toMatchObject({ mismatchKind: 'quality', tagApplied: 'quality-downgrade' });
+    expect(result.severity).toBeUndefined();
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({ mismatchKind: 'quality', severity: undefined })
+    );
+  });
+
+  it('should report a score mismatch before a quality downgrade', async () => {
+    const services = createMockServices();
+
+    const result = await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'WEBDL-1080p',
+        comparison: createMismatchComparison(),
+        qualityComparison: {
+          grabbedQuality: 'Bluray-2160p',
+          actualQuality: 'WEBDL-1080p',
+          downgrades: ['resolution'],
+          isDowngrade: true,
+        },
+      },
+      { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+      services
+    );
+
+    expect(result.tagApplied).toBe('quality-mismatch');
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mismatchKind: 'score',
+        qualityDowngrade: 'Bluray-2160p -> WEBDL-1080p (resolution)',
+      })
+    );
+  });
+
+  it('should not fail when recording the verification fails', async () => {
+    const services = {
+      ...createMockServices(),
+      history: {
+        record: vi.fn().mockImplementation(() => {
+          throw new Error('database is locked');
+        }),
+      },
+    };
+    const context: ScoreResultContext = {
+      movie: { id: 1, title: 'Test Movie', year: 2024 },
+      quality: 'Bluray-1080p',
+      comparison: createAcceptableComparison(),
+    };
+
+    const result = await handleScoreResult(
+      context,
+      { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+      services
+    );
+
+    expect(result.tagApplied).toBe('quality-ok');
+  });
+
+  it('should blocklist and search a mismatched movie with an onMismatch action', async () => {
+    const record = vi.fn();
+    const services = { ...createMockServices(), history: { record, list: vi.fn().mockReturnValue([]) } };
+    const radarr = {
+      ...services.radarr,
+      getHistory: vi.fn().mockResolvedValue([]),
+      getMovieFile: vi.fn(),
+      deleteMovieFile: vi.fn(),
+      markHistoryFailed: vi.fn().mockResolvedValue(undefined),
+      getDownloadClientConfig: vi.fn().mockResolvedValue({ autoRedownloadFailed: false }),
+      searchMovie: vi.fn().mockResolvedValue({ id: 77 }),
+    };
+
+    const result = await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'Bluray-1080p',
+        comparison: createMismatchComparison(),
+        grabId: 500,
+      },
+      {
+        tagConfig: mockTagConfig,
+        qualityConfig: mockQualityConfig,
+        onMismatch: { action: 'blocklist-and-research', maxAttempts: 3 },
+      },
+      { ...services, radarr }
+    );
+
+    expect(result.mismatchAction).toBe('blocklist-and-research');
+    expect(result.notificationSent).toBe(true);
+    expect(radarr.markHistoryFailed).toHaveBeenCalledWith(500);
+    expect(radarr.searchMovie).toHaveBeenCalledWith(1);
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({ mismatchAction: 'blocklist-and-research' })
+    );
+  });
+
+  it('should tag and notify a quality mismatch without running the onMismatch action', async () => {
+    const services = createMockServices();
+    const radarr = {
+      ...services.radarr,
+      getHistory: vi.fn().mockResolvedValue([]),
+      markHistoryFailed: vi.fn(),
+      searchMovie: vi.fn(),
+    };
+
+    const result = await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'WEBDL-1080p',
+        comparison: createAcceptableComparison(),
+        qualityComparison: {
+          grabbedQuality: 'Bluray-2160p',
+          actualQuality: 'WEBDL-1080p',
+          downgrades: ['resolution'],
+          isDowngrade: true,
+        },
+        grabId: 500,
+      },
+      {
+        tagConfig: mockTagConfig,
+        qualityConfig: mockQualityConfig,
+        onMismatch: { action: 'blocklist-and-research', maxAttempts: 3 },
+      },
+      { ...services, radarr }
+    );
+
+    expect(result.tagApplied).toBe('quality-downgrade');
+    expect(result.notificationSent).toBe(true);
+    expect(result.mismatchAction).toBeUndefined();
+    expect(radarr.markHistoryFailed).not.toHaveBeenCalled();
+    expect(radarr.searchMovie).not.toHaveBeenCalled();
+  });
+
+  it('should tag and notify a drift-only mismatch without running the onMismatch action', async () => {
+    const services = createMockServices();
+    const radarr = {
+      ...services.radarr,
+      getHistory: vi.fn().mockResolvedValue([]),
+      getMovieFile: vi.fn(),
+      deleteMovieFile: vi.fn(),
+      markHistoryFailed: vi.fn(),
+      searchMovie: vi.fn(),
+    };
+
+    const result = await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'Bluray-1080p',
+        comparison: createMismatchComparison(),
+        grabId: 500,
+        profileDrift: { historicScore: 50, currentScore: 30, isDriftOnly: true },
+      },
+      {
+        tagConfig: mockTagConfig,
+        qualityConfig: mockQualityConfig,
+        onMismatch: { action: 'blocklist-and-research', maxAttempts: 3 },
+      },
+      { ...services, radarr }
+    );
+
+    expect(result.tagApplied).toBe('quality-mismatch');
+    expect(result.mismatchAction).toBeUndefined();
+    expect(radarr.markHistoryFailed).not.toHaveBeenCalled();
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        profileDrift: 'grabbed release scores 30 today (50 at grab time)',
+      })
+    );
+  });
+
+  describe('with severities', () => {
+    const severityConfig = {
+      majorDifference: 21,
+      criticalDifference: 51,
+      minor: { tag: 'quality-minor', notify: false },
+      major: { notify: true },
+      critical: { tag: 'quality-critical', notify: true, action: 'blocklist-and-research' as const },
+    };
+
+    it('should tag a minor mismatch with its own tag without notifying', async () => {
+      const services = createMockServices();
+      services.radarr.getTags = vi.fn().mockResolvedValue([
+        { id: 20, label: 'quality-ok' },
+        { id: 21, label: 'quality-mismatch' },
+        { id: 22, label: 'quality-critical' },
+      ]);
+
+      const result = await handleScoreResult(
+        {
+          movie: { id: 1, title: 'Test Movie', year: 2024 },
+          quality: 'Bluray-1080p',
+          comparison: createMismatchComparison(),
+        },
+        { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig, severity: severityConfig },
+        services
+      );
+
+      expect(result).toMatchObject({
+        severity: 'minor',
+        tagApplied: 'quality-minor',
+        notificationSent: false,
+      });
+      expect(services.radarr.createTag).toHaveBeenCalledWith('quality-minor');
+      expect(services.radarr.replaceMovieTag).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        [20, 21, 22],
+        10
+      );
+      expect(services.notifications.sendScoreMismatch).not.toHaveBeenCalled();
+    });
+
+    it('should apply the action and color of a critical mismatch', async () => {
+      const services = createMockServices();
+      const radarr = {
+        ...services.radarr,
+        getHistory: vi.fn().mockResolvedValue([]),
+        getMovieFile: vi.fn(),
+        deleteMovieFile: vi.fn(),
+        markHistoryFailed: vi.fn().mockResolvedValue(undefined),
+        getDownloadClientConfig: vi.fn().mockResolvedValue({ autoRedownloadFailed: false }),
+        searchMovie: vi.fn().mockResolvedValue({ id: 77 }),
+      };
+
+      const result = await handleScoreResult(
+        {
+          movie: { id: 1, title: 'Test Movie', year: 2024 },
+          quality: 'Bluray-1080p',
+          comparison: { ...createMismatchComparison(), actualScore: -50, difference: -100 },
+          grabId: 500,
+        },
+        {
+          tagConfig: mockTagConfig,
+          qualityConfig: mockQualityConfig,
+          onMismatch: { action: 'tag-only', maxAttempts: 3 },
+          severity: severityConfig,
+        },
+        { ...services, radarr }
+      );
+
+      expect(result).toMatchObject({
+        severity: 'critical',
+        tagApplied: 'quality-critical',
+        notificationSent: true,
+        mismatchAction: 'blocklist-and-research',
+      });
+      expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+        expect.objectContaining({ severity: 'critical' })
+      );
+      expect(radarr.markHistoryFailed).toHaveBeenCalledWith(500);
+    });
+
+    it('should remove every severity tag from a passing movie', async () => {
+      const services = createMockServices();
+      services.radarr.getTags = vi.fn().mockResolvedValue([
+        { id: 21, label: 'quality-mismatch' },
+        { id: 22, label: 'quality-critical' },
+        { id: 23, label: 'quality-minor' },
+      ]);
+
+      const result = await handleScoreResult(
+        {
+          movie: { id: 1, title: 'Test Movie', year: 2024 },
+          quality: 'Bluray-1080p',
+          comparison: createAcceptableComparison(),
+        },
+        { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig, severity: severityConfig },
+        services
+      );
+
+      expect(result.severity).toBe('ok');
+      expect(services.radarr.replaceMovieTag).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        [21, 22, 23],
+        10
+      );
+    });
+  });
+
+  it('should not fail when the onMismatch action fails', async () => {
+    const services = createMockServices();
+    const radarr = {
+      ...services.radarr,
+      getHistory: vi.fn().mockRejectedValue(new Error('Radarr API timeout')),
+    };
+
+    const result = await handleScoreResult(
+      {
+        movie: { id: 1, title: 'Test Movie', year: 2024 },
+        quality: 'Bluray-1080p',
+        comparison: createMismatchComparison(),
+        grabId: 500,
+      },
+      {
+        tagConfig: mockTagConfig,
+        qualityConfig: mockQualityConfig,
+        onMismatch: { action: 'blocklist-and-research', maxAttempts: 3 },
+      },
+      { ...services, radarr }
+    );
+
+    expect(result.tagApplied).toBe('quality-mismatch');
+    expect(result.mismatchAction).toBeUndefined();
+  });
+
+  describe('with a series context', () => {
+    function createSeriesServices(): ScoreResultServices {
+      return {
+        sonarr: {
+          getSeriesById: vi.fn().mockResolvedValue({ id: 7, title: 'Test Series', year: 2020, tags: [] }),
+          getTags: vi.fn().mockResolvedValue([
+            { id: 20, label: 'quality-ok' },
+            { id: 21, label: 'quality-mismatch' },
+          ]),
+          createTag: vi.fn().mockResolvedValue({ id: 11, label: 'test-tag' }),
+          replaceSeriesTag: vi.fn().mockResolvedValue({}),
+        },
+        notifications: {
+          sendScoreMismatch: vi.fn().mockResolvedValue(undefined),
+        },
+        sonarrUrl: 'http://sonarr:8989',
+      };
+    }
+
+    const seriesContext = {
+      series: {
+        id: 7,
+        title: 'Test Series',
+        year: 2020,
+        titleSlug: 'test-series',
+        episode: 'S02E05',
+      },
+      quality: 'WEBDL-1080p',
+    };
+
+    it('should leave the series success tag to batch when score is acceptable', async () => {
+      const services = createSeriesServices();
+
+      const result = await handleScoreResult(
+        { ...seriesContext, comparison: createAcceptableComparison() },
+        { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+        services
+      );
+
+      // Another episode may still mismatch
+      expect(result.tagApplied).toBeNull();
+      expect(services.sonarr?.replaceSeriesTag).not.toHaveBeenCalled();
+    });
+
+    it('should replace the success tag of the series on mismatch', async () => {
+      const services = createSeriesServices();
+
+      const result = await handleScoreResult(
+        { ...seriesContext, comparison: createMismatchComparison() },
+        { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+        services
+      );
+
+      expect(result.tagApplied).toBe('quality-mismatch');
+      expect(services.sonarr?.getSeriesById).toHaveBeenCalledWith(7);
+      expect(services.sonarr?.replaceSeriesTag).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 7 }),
+        [20],
+        21
+      );
+    });
+
+    it('should notify with series link and episode label on mismatch', async () => {
+      const services = createSeriesServices();
+
+      await handleScoreResult(
+        { ...seriesContext, comparison: createMismatchComparison() },
+        { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+        services
+      );
+
+      expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Test Series',
+          movieId: undefined,
+          sonarrUrl: 'http://sonarr:8989',
+          seriesSlug: 'test-series',
+          episode: 'S02E05',
+        })
+      );
+    });
+
+    it('should throw when no Sonarr service is provided to tag a series', async () => {
+      const services = createMockServices();
+
+      await expect(
+        handleScoreResult(
+          { ...seriesContext, comparison: createMismatchComparison() },
+          { tagConfig: mockTagConfig, qualityConfig: mockQualityConfig },
+          services
+        )
+      ).rejects.toThrow('Sonarr service is required');
+    });
+  });
+});
+
+describe('diffCustomFormats', () => {
+  it('should list the formats lost and gained since the grab', () => {
+    const diff = diffCustomFormats(
+      [{ name: 'DV' }, { name: 'Atmos' }, { name: 'HDR10' }],
+      [{ name: 'HDR10' }, { name: 'x265' }]
+    );
+
+    expect(diff).toEqual({ lost: ['DV', 'Atmos'], gained: ['x265'] });
+  });
+
+  it('should be undefined when either side is unknown', () => {
+    expect(diffCustomFormats(undefined, [{ name: 'x265' }])).toBeUndefined();
+    expect(diffCustomFormats([{ name: 'DV' }], undefined)).toBeUndefined();
+  });
+});
+
+describe('formatCustomFormatDiff', () => {
+  it('should describe lost and gained formats', () => {
+    expect(formatCustomFormatDiff({ lost: ['DV', 'Atmos'], gained: ['x265'] })).toBe(
+      'lost: DV, Atmos; gained: x265'
+    );
+    expect(formatCustomFormatDiff({ lost: [], gained: ['x265'] })).toBe('gained: x265');
+  });
+
+  it('should be undefined when no format changed', () => {
+    expect(formatCustomFormatDiff({ lost: [], gained: [] })).toBeUndefined();
+    expect(formatCustomFormatDiff(undefined)).toBeUndefined();
+  });
+});
+
+describe('compareQuality', () => {
+  function quality(name: string, source: string, resolution: number, version = 1, real = 0) {
+    return {
+      quality: { id: 1, name, source, resolution },
+      revision: { version, real, isRepack: false },
+    };
+  }
+
+  it('should detect a lower resolution and source', () => {
+    const result = compareQuality(
+      quality('Bluray-2160p', 'bluray', 2160),
+      quality('WEBDL-1080p', 'webdl', 1080)
+    );
+
+    expect(result).toEqual({
+      grabbedQuality: 'Bluray-2160p',
+      actualQuality: 'WEBDL-1080p',
+      downgrades: ['resolution', 'source'],
+      isDowngrade: true,
+    });
+  });
+
+  it('should detect a lost proper or repack', () => {
+    const result = compareQuality(
+      quality('Bluray-1080p', 'bluray', 1080, 2),
+      quality('Bluray-1080p', 'bluray', 1080, 1)
+    );
+
+    expect(result.downgrades).toEqual(['revision']);
+    expect(formatQualityDowngrade(result)).toBe(
+      'Bluray-1080p v2 -> Bluray-1080p v1 (revision)'
+    );
+  });
+
+  it('should not treat an upgrade or a WEBRip for a WEBDL as a downgrade', () => {
+    expect(
+      compareQuality(quality('WEBDL-1080p', 'webdl', 1080), quality('Bluray-2160p', 'bluray', 2160, 2))
+        .isDowngrade
+    ).toBe(false);
+    expect(
+      compareQuality(quality('WEBDL-1080p', 'webdl', 1080), quality('WEBRip-1080p', 'webrip', 1080))
+        .isDowngrade
+    ).toBe(false);
+  });
+
+  it('should ignore unknown sources and resolutions', () => {
+    const result = compareQuality(
+      quality('Bluray-1080p', 'bluray', 1080),
+      quality('Unknown', 'unknown', 0)
+    );
+
+    expect(result.isDowngrade).toBe(false);
+    expect(formatQualityDowngrade(result)).toBeUndefined();
+  });
+});
+
+describe('comparePackScores', () => {
+  const qualityConfig = createQualityConfig();
+
+  it('should check every file against the grabbed score', () => {
+    const result = comparePackScores(
+      100,
+      [
+        { episodeFileId: 1, episode: 'S01E01', quality: 'WEBDL-1080p', actualScore: 100 },
+        { episodeFileId: 2, episode: 'S01E02', quality: 'WEBDL-1080p', actualScore: 40 },
+        { episodeFileId: 3, episode: 'S01E03', quality: 'WEBDL-720p', actualScore: 10 },
+      ],
+      qualityConfig
+    );
+
+    expect(result.expectedScore).toBe(100);
+    expect(result.files).toHaveLength(3);
+    expect(result.deviating.map((f) => f.episode)).toEqual(['S01E02', 'S01E03']);
+    expect(result.isAcceptable).toBe(false);
+  });
+
+  it('should be acceptable when no file deviates', () => {
+    const result = comparePackScores(
+      100,
+      [{ episodeFileId: 1, episode: 'S01E01', quality: 'WEBDL-1080p', actualScore: 150 }],
+      qualityConfig
+    );
+
+    expect(result.deviating).toEqual([]);
+    expect(result.isAcceptable).toBe(true);
+  });
+});
+
+describe('handlePackScoreResult', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should list deviating episodes and report the worst file', async () => {
+    const services: ScoreResultServices = {
+      sonarr: {
+        getSeriesById: vi.fn().mockResolvedValue({ id: 7, title: 'Test Series', year: 2020, tags: [] }),
+        getTags: vi.fn().mockResolvedValue([{ id: 20, label: 'check_ok' }]),
+        createTag: vi.fn().mockResolvedValue({ id: 11, label: 'quality-mismatch' }),
+        replaceSeriesTag: vi.fn().mockResolvedValue({}),
+      },
+      notifications: { sendScoreMismatch: vi.fn().mockResolvedValue(undefined) },
+    };
+    const pack = comparePackScores(
+      100,
+      [
+        { episodeFileId: 1, episode: 'S01E01', quality: 'WEBDL-1080p', actualScore: 100 },
+        { episodeFileId: 2, episode: 'S01E02', quality: 'WEBDL-1080p', actualScore: 90 },
+        { episodeFileId: 3, episode: 'S01E03', quality: 'WEBDL-720p', actualScore: 10 },
+      ],
+      createQualityConfig()
+    );
+
+    const result = await handlePackScoreResult(
+      pack,
+      { id: 7, title: 'Test Series', year: 2020, titleSlug: 'test-series' },
+      { indexer: 'NZBgeek' },
+      {
+        tagConfig: { enabled: true, successTag: 'check_ok', mismatchTag: 'quality-mismatch', downgradeTag: 'quality-downgrade' },
+        qualityConfig: createQualityConfig(),
+      },
+      services
+    );
+
+    expect(result.tagApplied).toBe('quality-mismatch');
+    expect(services.sonarr?.replaceSeriesTag).toHaveBeenCalledTimes(1);
+    expect(services.sonarr?.replaceSeriesTag).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 7 }),
+      [20],
+      11
+    );
+    expect(services.notifications.sendScoreMismatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        episode: 'S01E02, S01E03',
+        actualScore: 10,
+        quality: 'WEBDL-720p',
+        indexer: 'NZBgeek',
+      })
+    );
+  });
+});
+
+describe('resolveTolerance', () => {
+  const qualityConfig = createQualityConfig({
+    overrides: [
+      { profile: 'Ultra-HD', tag: 'strict', maxOverScore: 0, maxUnderScore: 0 },
+      { profile: 'ultra-hd', maxOverScore: 10 },
+      { profile: 1, maxUnderScore: 50 },
+      { tag: 'anime', mode: 'percentage' },
+    ],
+  });
+
+  it('should use the global thresholds without a matching override', () => {
+    expect(resolveTolerance(qualityConfig)).toEqual({
+      settings: expect.objectContaining({ mode: 'absolute', maxOverScore: 100, maxUnderScore: 0 }),
+      override: undefined,
+    });
+    expect(
+      resolveTolerance(qualityConfig, { qualityProfile: { id: 7, name: 'HD' }, tags: [] }).override
+    ).toBeUndefined();
+  });
+
+  it('should match profiles by case-insensitive name or by ID', () => {
+    expect(
+      resolveTolerance(qualityConfig, { qualityProfile: { id: 4, name: 'Ultra-HD' }, tags: [] })
+        .settings
+    ).toMatchObject({ maxOverScore: 10, maxUnderScore: 0 });
+    expect(
+      resolveTolerance(qualityConfig, { qualityProfile: { id: 1 }, tags: [] }).settings
+    ).toMatchObject({ maxOverScore: 100, maxUnderScore: 50 });
+  });
+
+  it('should apply the first override matching both profile and tag', () => {
+    expect(
+      resolveTolerance(qualityConfig, {
+        qualityProfile: { id: 4, name: 'Ultra-HD' },
+        tags: ['Strict'],
+      }).settings
+    ).toMatchObject({ maxOverScore: 0, maxUnderScore: 0 });
+    expect(resolveTolerance(qualityConfig, { tags: ['anime'] }).settings).toMatchObject({
+      mode: 'percentage',
+      maxOverScore: 100,
+    });
+  });
+
+  it('should compare scores with the resolved thresholds', () => {
+    const target = { qualityProfile: { id: 4, name: 'Ultra-HD' }, tags: [] };
+
+    expect(compareScores(100, 150, qualityConfig).isAcceptable).toBe(true);
+    expect(compareScores(100, 150, qualityConfig, target)).toMatchObject({
+      maxAllowedScore: 110,
+      isAcceptable: false,
+      rule: 'absolute +10/-0 (override: profile ultra-hd)',
+    });
+  });
+});
+
+describe('classifySeverity', () => {
+  const bands = { majorDifference: 21, criticalDifference: 51 };
+
+  function comparison(difference: number, isAcceptable = false): ScoreComparisonResult {
+    return {
+      expectedScore: 100,
+      actualScore: 100 + difference,
+      difference,
+      minAllowedScore: 100,
+      maxAllowedScore: 200,
+      isAcceptable,
+    };
+  }
+
+  it('should classify an acceptable score as ok', () => {
+    expect(classifySeverity(comparison(-100, true), bands)).toBe('ok');
+  });
+
+  it('should classify under-score mismatches by the size of the difference', () => {
+    expect(classifySeverity(comparison(-20), bands)).toBe('minor');
+    expect(classifySeverity(comparison(-21), bands)).toBe('major');
+    expect(classifySeverity(comparison(-50), bands)).toBe('major');
+    expect(classifySeverity(comparison(-51), bands)).toBe('critical');
+  });
+
+  it('should classify over-score mismatches as minor', () => {
+    expect(classifySeverity(comparison(101), bands)).toBe('minor');
+    expect(classifySeverity(comparison(300), bands)).toBe('minor');
+  });
+});
+
+describe('getMismatchTags', () => {
+  it('should list the mismatch tag and the distinct severity tags', () => {
+    expect(
+      getMismatchTags(
+        { mismatchTag: 'quality-mismatch' },
+        {
+          majorDifference: 21,
+          criticalDifference: 51,
+          minor: { tag: 'quality-minor', notify: true },
+          major: { notify: true },
+          critical: { tag: 'quality-minor', notify: true },
+        }
+      )
+    ).toEqual(['quality-mismatch', 'quality-minor']);
+    expect(getMismatchTags({ mismatchTag: 'quality-mismatch' })).toEqual(['quality-mismatch']);
+  });
+});
+
+describe('applySeriesSuccessTag', () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should tag the series as passed and remove its mismatch and downgrade tags', async () => {
+    const series = { id: 7, title: 'Test Series', year: 2020, tags: [21, 22, 5] };
+    const sonarr = {
+      getSeriesById: vi.fn().mockResolvedValue(series),
+      getTags: vi.fn().mockResolvedValue([
+        { id: 20, label: 'quality-ok' },
+        { id: 21, label: 'quality-mismatch' },
+        { id: 22, label: 'quality-downgrade' },
+        { id: 23, label: 'quality-critical' },
+      ]),
+      createTag: vi.fn(),
+      replaceSeriesTag: vi.fn().mockResolvedValue(series),
+    };
+
+    await applySeriesSuccessTag(
+      7,
+      {
+        tagConfig: {
+          enabled: true,
+          successTag: 'quality-ok',
+          mismatchTag: 'quality-mismatch',
+          downgradeTag: 'quality-downgrade',
+        },
+        severity: {
+          majorDifference: 21,
+          criticalDifference: 51,
+          minor: { notify: true },
+          major: { notify: true },
+          critical: { tag: 'quality-critical', notify: true },
+        },
+      },
+      sonarr
+    );
+
+    expect(sonarr.createTag).not.toHaveBeenCalled();
+    expect(sonarr.replaceSeriesTag).toHaveBeenCalledWith(series, [21, 22, 23], 20);
+  });
+});
+
+describe('computeThresholds', () => {
+  const settings = {
+    mode: 'absolute' as const,
+    maxOverScore: 100,
+    maxUnderScore: 0,
+    maxOverPercent: 10,
+    maxUnderPercent: 5,
+    tiers: [
+      { minExpectedScore: 1000, maxOverPercent: 5, maxUnderPercent: 5 },
+      { maxOverScore: 50, maxUnderScore: 50 },
+    ],
+  };
+
+  it('should allow a flat number of points in absolute mode', () => {
+    expect(computeThresholds(settings, 5000)).toEqual({
+      maxOverScore: 100,
+      maxUnderScore: 0,
+      rule: 'absolute +100/-0',
+    });
+  });
+
+  it('should allow a percentage of the absolute expected score in percentage mode', () => {
+    const percentage = { ...settings, mode: 'percentage' as const };
+
+    expect(computeThresholds(percentage, 5000)).toEqual({
+      maxOverScore: 500,
+      maxUnderScore: 250,
+      rule: 'percentage +10%/-5%',
+    });
+    expect(computeThresholds(percentage, -10000)).toMatchObject({
+      maxOverScore: 1000,
+      maxUnderScore: 500,
+    });
+  });
+
+  it('should use the first matching tier in tiered mode', () => {
+    const tiered = { ...settings, mode: 'tiered' as const };
+
+    expect(computeThresholds(tiered, 2000)).toEqual({
+      maxOverScore: 100,
+      maxUnderScore: 100,
+      rule: 'tier >= 1000 +5%/-5%',
+    });
+    expect(computeThresholds(tiered, 300)).toEqual({
+      maxOverScore: 50,
+      maxUnderScore: 50,
+      rule: 'tier +50/-50',
+    });
+  });
+
+  it('should fall back to absolute thresholds when no tier matches', () => {
+    const tiered = {
+      ...settings,
+      mode: 'tiered' as const,
+      tiers: [{ minExpectedScore: 1000, maxOverPercent: 5 }],
+    };
+
+    expect(computeThresholds(tiered, 300)).toEqual({
+      maxOverScore: 100,
+      maxUnderScore: 0,
+      rule: 'absolute +100/-0 (no tier matched)',
+    });
+  });
+
+  it('should record the applied rule in the comparison', () => {
+    const comparison = compareScores(
+      2000,
+      1850,
+      createQualityConfig({ mode: 'tiered', tiers: settings.tiers })
+    );
+
+    expect(comparison).toMatchObject({
+      minAllowedScore: 1900,
+      isAcceptable: false,
+      rule: 'tier >= 1000 +5%/-5%',
+    });
+  });
+});
+
+describe('getToleranceTarget', () => {
+  function createRadarr() {
+    return {
+      getQualityProfiles: vi.fn().mockResolvedValue([
+        { id: 1, name: 'Any' },
+        { id: 4, name: 'Ultra-HD' },
+      ]),
+      getTags: vi.fn().mockResolvedValue([
+        { id: 10, label: 'anime' },
+        { id: 11, label: 'check_ok' },
+      ]),
+    };
+  }
+
+  it('should load the profile name and tag labels of the movie', async () => {
+    const radarr = createRadarr();
+
+    const target = await getToleranceTarget(
+      radarr,
+      { qualityProfileId: 4, tags: [10] },
+      createQualityConfig({ overrides: [{ tag: 'anime' }] })
+    );
+
+    expect(target).toEqual({ qualityProfile: { id: 4, name: 'Ultra-HD' }, tags: ['anime'] });
+  });
+
+  it('should not query Radarr when no override is configured', async () => {
+    const radarr = createRadarr();
+
+    const target = await getToleranceTarget(
+      radarr,
+      { qualityProfileId: 4, tags: [10] },
+      createQualityConfig()
+    );
+
+    expect(target).toBeUndefined();
+    expect(radarr.getQualityProfiles).not.toHaveBeenCalled();
+    expect(radarr.getTags).not.toHaveBeenCalled();
   });
 });
 
@@ -511,6 +1551,7 @@ describe('logDryRunResult', () => {
       enabled: true,
       successTag: 'quality-ok',
       mismatchTag: 'quality-mismatch',
+      downgradeTag: 'quality-downgrade',
     };
 
     logDryRunResult(comparison, tagConfig);
@@ -520,7 +1561,7 @@ describe('logDryRunResult', () => {
     expect(allCalls).toContain('quality-ok');
   });
 
-  it('should log mismatch tag and Discord notification for unacceptable score', () => {
+  it('should log mismatch tag and notification for unacceptable score', () => {
     const comparison: ScoreComparisonResult = {
       expectedScore: 50,
       actualScore: 30,
@@ -533,6 +1574,7 @@ describe('logDryRunResult', () => {
       enabled: true,
       successTag: 'quality-ok',
       mismatchTag: 'quality-mismatch',
+      downgradeTag: 'quality-downgrade',
     };
 
     logDryRunResult(comparison, tagConfig);
@@ -540,6 +1582,6 @@ describe('logDryRunResult', () => {
     const allCalls = consoleSpy.mock.calls.map(call => call[0]).join(' ');
     expect(allCalls).toContain('DRY-RUN');
     expect(allCalls).toContain('quality-mismatch');
-    expect(allCalls).toContain('Discord');
+    expect(allCalls).toContain('Would send notification');
   });
 });
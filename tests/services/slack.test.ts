@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SlackService } from '../../src/services/slack.js';
+import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/types/index.js';
+
+describe('SlackService', () => {
+  const webhookUrl = 'https://hooks.slack.com/services/T000/B000/XXXXXXXXXXXX';
+  let fetchSpy: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('ok', { status: 200 }));
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+    consoleSpy.mockRestore();
+  });
+
+  function createMismatchInfo(overrides: Partial<ScoreMismatchInfo> = {}): ScoreMismatchInfo {
+    return {
+      title: 'Test Movie',
+      year: 2024,
+      expectedScore: 100,
+      actualScore: 50,
+      difference: -50,
+      maxOverScore: 100,
+      quality: 'Bluray-1080p',
+      ...overrides,
+    };
+  }
+
+  function getPayload(): { text: string; blocks: Record<string, unknown>[] } {
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+    return JSON.parse(init.body as string) as { text: string; blocks: Record<string, unknown>[] };
+  }
+
+  describe('sendScoreMismatch', () => {
+    it('should post Block Kit blocks to the webhook URL', async () => {
+      await new SlackService({ webhookUrl }).sendScoreMismatch(createMismatchInfo());
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        webhookUrl,
+        expect.objectContaining({ method: 'POST' })
+      );
+      const payload = getPayload();
+      expect(payload.text).toBe('Quality Score Mismatch: Test Movie (2024) (100 -&gt; 50)');
+      expect(payload.blocks[0]).toEqual({
+        type: 'header',
+        text: { type: 'plain_text', text: 'Quality Score Mismatch' },
+      });
+      expect(payload.blocks[2]).toEqual({
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: '*Expected Score*\n100' },
+          { type: 'mrkdwn', text: '*Actual Score*\n50' },
+          { type: 'mrkdwn', text: '*Difference*\n-50' },
+          { type: 'mrkdwn', text: '*Quality*\nBluray-1080p' },
+        ],
+      });
+    });
+
+    it('should show the poster and a button linking to Radarr', async () => {
+      await new SlackService({ webhookUrl }).sendScoreMismatch(
+        createMismatchInfo({
+          radarrUrl: 'http://radarr:7878',
+          movieId: 42,
+          posterUrl: 'https://image.tmdb.org/poster.jpg',
+          indexer: 'NZBgeek',
+        })
+      );
+
+      const { blocks } = getPayload();
+      expect(blocks[1]).toEqual({
+        type: 'section',
+        text: { type: 'mrkdwn', text: '*<http://radarr:7878/movie/42|Test Movie (2024)>*' },
+        accessory: {
+          type: 'image',
+          image_url: 'https://image.tmdb.org/poster.jpg',
+          alt_text: 'Test Movie (2024)',
+        },
+      });
+      expect(blocks).toContainEqual({
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: { type: 'plain_text', text: 'Open in Radarr' },
+            url: 'http://radarr:7878/movie/42',
+          },
+        ],
+      });
+      expect(JSON.stringify(blocks)).toContain('*Indexer*\\nNZBgeek');
+    });
+
+    it('should list the quality downgrade and custom formats', async () => {
+      await new SlackService({ webhookUrl }).sendScoreMismatch(
+        createMismatchInfo({
+          qualityDowngrade: 'Bluray-2160p -> WEBDL-1080p (resolution, source)',
+          customFormats: 'lost: DV',
+        })
+      );
+
+      expect(getPayload().blocks).toContainEqual({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: '*Quality Downgrade*: Bluray-2160p -&gt; WEBDL-1080p (resolution, source)\n*Custom Formats*: lost: DV',
+        },
+      });
+    });
+
+    it('should throw with the Slack error on failure', async () => {
+      fetchSpy.mockResolvedValue(new Response('invalid_blocks', { status: 400, statusText: 'Bad Request' }));
+
+      await expect(new SlackService({ webhookUrl }).sendScoreMismatch(createMismatchInfo())).rejects.toThrow(
+        'Slack webhook error: 400 invalid_blocks'
+      );
+    });
+  });
+
+  describe('sendBatchSummary', () => {
+    function createBatchInfo(): BatchSummaryInfo {
+      return {
+        totalProcessed: 8,
+        completed: 6,
+        failed: 2,
+        mismatches: 1,
+        durationMs: 45000,
+        failedItems: [
+          { title: 'Movie A', error: 'Timeout' },
+          { title: 'Movie B', error: 'No file' },
+        ],
+      };
+    }
+
+    it('should render the counts and failed items', async () => {
+      await new SlackService({ webhookUrl }).sendBatchSummary(createBatchInfo());
+
+      const { text, blocks } = getPayload();
+      expect(text).toBe('Batch Processing Summary: 6 completed, 2 failed, 1 mismatch(es)');
+      expect(JSON.stringify(blocks)).toContain('*Duration*\\n45s');
+      expect(blocks).toContainEqual({
+        type: 'section',
+        text: { type: 'mrkdwn', text: '*Failed Items*\n- Movie A: Timeout\n- Movie B: No file' },
+      });
+    });
+  });
+});
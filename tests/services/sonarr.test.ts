@@ -0,0 +1,471 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SonarrService } from "../../src/services/sonarr.js";
+import type { SonarrConfig } from "../../src/types/config.js";
+
+function createConfig(overrides?: Partial<SonarrConfig>): SonarrConfig {
+  return {
+    url: "http://sonarr:8989",
+    apiKey: "test-api-key",
+    api: {
+      timeoutMs: 5000,
+      retryAttempts: 2,
+      retryDelayMs: 100,
+    },
+    ...overrides,
+  };
+}
+
+function mockFetchJson(data: unknown, status = 200): void {
+  vi.spyOn(globalThis, "fetch").mockResolvedValue(
+    new Response(JSON.stringify(data), {
+      status,
+      statusText: status === 200 ? "OK" : "Error",
+      headers: { "Content-Type": "application/json" },
+    })
+  );
+}
+
+function mockFetchSequence(responses: Array<{ data?: unknown; status: number; statusText?: string; headers?: Record<string, string> }>): void {
+  const spy = vi.spyOn(globalThis, "fetch");
+  for (const res of responses) {
+    spy.mockResolvedValueOnce(
+      new Response(res.data !== undefined ? JSON.stringify(res.data) : null, {
+        status: res.status,
+        statusText: res.statusText ?? (res.status === 200 ? "OK" : "Error"),
+        headers: res.headers ?? { "Content-Type": "application/json" },
+      })
+    );
+  }
+}
+
+const quality = {
+  quality: { id: 3, name: "WEBDL-1080p", source: "web", resolution: 1080 },
+  revision: { version: 1, real: 0, isRepack: false },
+};
+
+const validSeries = {
+  id: 1,
+  title: "Test Series",
+  year: 2020,
+  tvdbId: 81189,
+  titleSlug: "test-series",
+  monitored: true,
+  tags: [1],
+  seasons: [
+    { seasonNumber: 1, monitored: true },
+    { seasonNumber: 2, monitored: true },
+  ],
+};
+
+const validEpisode = {
+  id: 100,
+  seriesId: 1,
+  episodeFileId: 500,
+  seasonNumber: 2,
+  episodeNumber: 5,
+  title: "Test Episode",
+  hasFile: true,
+  monitored: true,
+};
+
+const validEpisodeFile = {
+  id: 500,
+  seriesId: 1,
+  seasonNumber: 2,
+  relativePath: "Season 02/Test Series - S02E05.mkv",
+  path: "/tv/Test Series/Season 02/Test Series - S02E05.mkv",
+  size: 1500000000,
+  quality,
+  customFormatScore: 80,
+};
+
+const validHistory = {
+  id: 1000,
+  episodeId: 100,
+  seriesId: 1,
+  sourceTitle: "Test.Series.S02E05.1080p.WEB-DL",
+  quality,
+  customFormatScore: 80,
+  date: "2024-01-01T00:00:00Z",
+  eventType: "grabbed",
+  downloadId: "ABC123",
+  data: { indexer: "NZBgeek" },
+};
+
+const validCommand = {
+  id: 50,
+  name: "EpisodeSearch",
+  status: "completed",
+  queued: "2024-01-01T00:00:00Z",
+};
+
+describe("SonarrService", () => {
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    consoleSpy.mockRestore();
+  });
+
+  describe("request handling", () => {
+    it("should send X-Api-Key header to the /api/v3 base URL", async () => {
+      mockFetchJson([validSeries]);
+      const service = new SonarrService(createConfig({ url: "http://sonarr:8989/" }));
+
+      await service.getSeries();
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/series",
+        expect.objectContaining({
+          headers: expect.objectContaining({ "X-Api-Key": "test-api-key" }),
+        })
+      );
+    });
+
+    it("should throw Sonarr-prefixed errors on 4xx without retrying", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response(null, { status: 404, statusText: "Not Found" })
+      );
+      const service = new SonarrService(createConfig());
+
+      await expect(service.getSeries()).rejects.toThrow(
+        "Sonarr API error: 404 Not Found (/series)"
+      );
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry on 5xx and 429 errors", async () => {
+      mockFetchSequence([
+        { status: 500, statusText: "Internal Server Error" },
+        { status: 429, statusText: "Too Many Requests", headers: { "Retry-After": "0" } },
+        { data: [validSeries], status: 200 },
+      ]);
+      const service = new SonarrService(createConfig());
+
+      const result = await service.getSeries();
+
+      expect(result).toHaveLength(1);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should throw on timeout", async () => {
+      vi.spyOn(globalThis, "fetch").mockRejectedValue(
+        Object.assign(new Error("The operation was aborted"), { name: "AbortError" })
+      );
+      const service = new SonarrService(createConfig());
+
+      await expect(service.getSeries()).rejects.toThrow(
+        "Sonarr API timeout after 5000ms (/series)"
+      );
+    });
+
+    it("should throw on invalid series response", async () => {
+      mockFetchJson([{ id: 1, title: "Test" }]);
+      const service = new SonarrService(createConfig());
+
+      await expect(service.getSeries()).rejects.toThrow("Invalid API response");
+    });
+  });
+
+  describe("getSeriesById", () => {
+    it("should fetch series by ID", async () => {
+      mockFetchJson(validSeries);
+      const service = new SonarrService(createConfig());
+
+      const series = await service.getSeriesById(1);
+
+      expect(series.titleSlug).toBe("test-series");
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/series/1",
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("getSeriesByTvdbId", () => {
+    it("should return first matching series", async () => {
+      mockFetchJson([validSeries]);
+      const service = new SonarrService(createConfig());
+
+      const series = await service.getSeriesByTvdbId(81189);
+
+      expect(series?.id).toBe(1);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/series?tvdbId=81189",
+        expect.any(Object)
+      );
+    });
+
+    it("should return null when not found", async () => {
+      mockFetchJson([]);
+      const service = new SonarrService(createConfig());
+
+      expect(await service.getSeriesByTvdbId(1)).toBeNull();
+    });
+  });
+
+  describe("getEpisodes", () => {
+    it("should fetch episodes for a series", async () => {
+      mockFetchJson([validEpisode]);
+      const service = new SonarrService(createConfig());
+
+      const episodes = await service.getEpisodes(1);
+
+      expect(episodes).toHaveLength(1);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/episode?seriesId=1",
+        expect.any(Object)
+      );
+    });
+
+    it("should filter by season when provided", async () => {
+      mockFetchJson([validEpisode]);
+      const service = new SonarrService(createConfig());
+
+      await service.getEpisodes(1, 2);
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/episode?seriesId=1&seasonNumber=2",
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("getEpisode", () => {
+    it("should fetch a single episode", async () => {
+      mockFetchJson(validEpisode);
+      const service = new SonarrService(createConfig());
+
+      const episode = await service.getEpisode(100);
+
+      expect(episode.episodeNumber).toBe(5);
+    });
+  });
+
+  describe("episode files", () => {
+    it("should fetch episode files for a series", async () => {
+      mockFetchJson([validEpisodeFile]);
+      const service = new SonarrService(createConfig());
+
+      const files = await service.getEpisodeFiles(1);
+
+      expect(files[0]?.customFormatScore).toBe(80);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/episodefile?seriesId=1",
+        expect.any(Object)
+      );
+    });
+
+    it("should fetch a single episode file", async () => {
+      mockFetchJson(validEpisodeFile);
+      const service = new SonarrService(createConfig());
+
+      const file = await service.getEpisodeFile(500);
+
+      expect(file.id).toBe(500);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/episodefile/500",
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe("getHistory", () => {
+    it("should fetch series history", async () => {
+      mockFetchJson([validHistory, { ...validHistory, id: 1001, episodeId: 101 }]);
+      const service = new SonarrService(createConfig());
+
+      const history = await service.getHistory(1);
+
+      expect(history).toHaveLength(2);
+      expect(history[0]?.downloadId).toBe("ABC123");
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/history/series?seriesId=1",
+        expect.any(Object)
+      );
+    });
+
+    it("should filter history by episode", async () => {
+      mockFetchJson([validHistory, { ...validHistory, id: 1001, episodeId: 101 }]);
+      const service = new SonarrService(createConfig());
+
+      const history = await service.getHistory(1, 101);
+
+      expect(history).toHaveLength(1);
+      expect(history[0]?.id).toBe(1001);
+    });
+
+    it("should handle paged { records } responses", async () => {
+      mockFetchJson({ records: [validHistory] });
+      const service = new SonarrService(createConfig());
+
+      const history = await service.getHistory(1);
+
+      expect(history).toHaveLength(1);
+    });
+  });
+
+  describe("search commands", () => {
+    it("should send EpisodeSearch command", async () => {
+      mockFetchJson(validCommand);
+      const service = new SonarrService(createConfig());
+
+      await service.searchEpisodes([100, 101]);
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/command",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ name: "EpisodeSearch", episodeIds: [100, 101] }),
+        })
+      );
+    });
+
+    it("should send SeasonSearch command", async () => {
+      mockFetchJson({ ...validCommand, name: "SeasonSearch" });
+      const service = new SonarrService(createConfig());
+
+      await service.searchSeason(1, 2);
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/command",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ name: "SeasonSearch", seriesId: 1, seasonNumber: 2 }),
+        })
+      );
+    });
+  });
+
+  describe("tags", () => {
+    it("should return existing tag case-insensitively", async () => {
+      mockFetchJson([{ id: 3, label: "Check_OK" }]);
+      const service = new SonarrService(createConfig());
+
+      const tag = await service.getOrCreateTag("check_ok");
+
+      expect(tag.id).toBe(3);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should create tag when missing", async () => {
+      mockFetchSequence([
+        { data: [], status: 200 },
+        { data: { id: 4, label: "check_ok" }, status: 200 },
+      ]);
+      const service = new SonarrService(createConfig());
+
+      const tag = await service.getOrCreateTag("check_ok");
+
+      expect(tag.id).toBe(4);
+    });
+
+    it("should add tag through the series editor", async () => {
+      mockFetchJson([{ ...validSeries, tags: [1, 5] }]);
+      const service = new SonarrService(createConfig());
+
+      const updated = await service.addTagToSeries(validSeries, 5);
+
+      expect(updated.tags).toEqual([1, 5]);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/series/editor",
+        expect.objectContaining({
+          method: "PUT",
+          body: JSON.stringify({ seriesIds: [1], tags: [5], applyTags: "add" }),
+        })
+      );
+    });
+
+    it("should skip if series already has the tag", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const service = new SonarrService(createConfig());
+
+      const result = await service.addTagToSeries(validSeries, 1);
+
+      expect(result).toEqual(validSeries);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("should remove tag through the series editor", async () => {
+      mockFetchJson([{ ...validSeries, tags: [] }]);
+      const service = new SonarrService(createConfig());
+
+      const updated = await service.removeTagFromSeries(validSeries, 1);
+
+      expect(updated.tags).toEqual([]);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/series/editor",
+        expect.objectContaining({
+          method: "PUT",
+          body: JSON.stringify({ seriesIds: [1], tags: [1], applyTags: "remove" }),
+        })
+      );
+    });
+
+    it("should replace tags in a single editor update", async () => {
+      mockFetchJson([{ ...validSeries, tags: [5] }]);
+      const service = new SonarrService(createConfig());
+
+      const updated = await service.replaceSeriesTag(validSeries, [1], 5);
+
+      expect(updated.tags).toEqual([5]);
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        "http://sonarr:8989/api/v3/series/editor",
+        expect.objectContaining({
+          method: "PUT",
+          body: JSON.stringify({ seriesIds: [1], tags: [5], applyTags: "replace" }),
+        })
+      );
+    });
+
+    it("should skip the replace if series already has only the new tag", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const service = new SonarrService(createConfig());
+
+      const result = await service.replaceSeriesTag(validSeries, [5], 1);
+
+      expect(result).toEqual(validSeries);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("waitForCommand", () => {
+    it("should poll until command completes", async () => {
+      mockFetchSequence([
+        { data: { ...validCommand, status: "started" }, status: 200 },
+        { data: validCommand, status: 200 },
+      ]);
+      const service = new SonarrService(createConfig());
+
+      const command = await service.waitForCommand(50, 10000, 10);
+
+      expect(command.status).toBe("completed");
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should throw when command fails", async () => {
+      mockFetchJson({ ...validCommand, status: "failed" });
+      const service = new SonarrService(createConfig());
+
+      await expect(service.waitForCommand(50, 5000, 100)).rejects.toThrow(
+        "Command 50 failed"
+      );
+    });
+  });
+
+  describe("getSystemStatus", () => {
+    it("should return validated system status", async () => {
+      mockFetchJson({ version: "4.0.0" });
+      const service = new SonarrService(createConfig());
+
+      const status = await service.getSystemStatus();
+
+      expect(status.version).toBe("4.0.0");
+    });
+  });
+});
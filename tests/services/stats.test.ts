@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeIndexerStats,
+  computeReleaseGroupStats,
+  computeSourceStats,
+} from '../../src/services/stats.js';
+import type { VerificationRecord } from '../../src/types/history.js';
+
+function verification(overrides: Partial<VerificationRecord> = {}): VerificationRecord {
+  return {
+    mediaType: 'movie',
+    mediaId: 1,
+    title: 'Test Movie',
+    expectedScore: 100,
+    actualScore: 100,
+    difference: 0,
+    quality: 'Bluray-1080p',
+    isAcceptable: true,
+    tagApplied: 'check_ok',
+    notificationSent: false,
+    verifiedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('computeIndexerStats', () => {
+  it('should compute lie rate, mean and median difference per indexer', () => {
+    const stats = computeIndexerStats([
+      verification({ indexer: 'NZBgeek', difference: 0 }),
+      verification({ indexer: 'NZBgeek', difference: -50, isAcceptable: false }),
+      verification({ indexer: 'NZBgeek', difference: 10 }),
+      verification({ indexer: 'NZBgeek', difference: -200, isAcceptable: false }),
+    ]);
+
+    expect(stats).toEqual([
+      expect.objectContaining({
+        name: 'NZBgeek',
+        sampleSize: 4,
+        mismatches: 2,
+        lieRate: 50,
+        meanDifference: -60,
+        medianDifference: -25,
+      }),
+    ]);
+  });
+
+  it('should sort indexers by lie rate, then sample size', () => {
+    const stats = computeIndexerStats([
+      verification({ indexer: 'Good' }),
+      verification({ indexer: 'Bad', isAcceptable: false }),
+      verification({ indexer: 'Busy' }),
+      verification({ indexer: 'Busy' }),
+    ]);
+
+    expect(stats.map((s) => s.name)).toEqual(['Bad', 'Busy', 'Good']);
+  });
+
+  it('should list the worst offenders by absolute score difference', () => {
+    const stats = computeIndexerStats(
+      [
+        verification({ title: 'A', difference: -20, isAcceptable: false }),
+        verification({ title: 'B', difference: 300, isAcceptable: false }),
+        verification({ title: 'C', difference: -150, isAcceptable: false }),
+        verification({ title: 'D', difference: 0 }),
+      ],
+      2
+    );
+
+    expect(stats[0]?.worstOffenders.map((r) => r.title)).toEqual(['B', 'C']);
+  });
+
+  it('should not count mismatches caused by profile changes', () => {
+    const stats = computeIndexerStats([
+      verification({ indexer: 'NZBgeek', difference: -50, isAcceptable: false, profileDrift: true }),
+      verification({ indexer: 'NZBgeek', difference: -50, isAcceptable: false }),
+    ]);
+
+    expect(stats[0]).toMatchObject({ mismatches: 1, lieRate: 50 });
+    expect(stats[0]?.worstOffenders).toHaveLength(1);
+  });
+
+  it('should count quality mismatches with an acceptable score', () => {
+    const stats = computeIndexerStats([
+      verification({ indexer: 'NZBgeek', mismatchKind: 'quality' }),
+      verification({ indexer: 'NZBgeek' }),
+    ]);
+
+    expect(stats[0]).toMatchObject({ mismatches: 1, lieRate: 50 });
+  });
+
+  it('should group verifications without indexer as Unknown', () => {
+    const stats = computeIndexerStats([verification()]);
+
+    expect(stats[0]?.name).toBe('Unknown');
+  });
+});
+
+describe('computeReleaseGroupStats', () => {
+  it('should single out the group mislabeling releases on a reliable indexer', () => {
+    const stats = computeReleaseGroupStats([
+      verification({ indexer: 'NZBgeek', releaseGroup: 'GOOD' }),
+      verification({ indexer: 'NZBgeek', releaseGroup: 'GOOD' }),
+      verification({ indexer: 'NZBgeek', releaseGroup: 'BAD', difference: -100, isAcceptable: false }),
+    ]);
+
+    expect(stats.map((s) => [s.name, s.lieRate])).toEqual([
+      ['BAD', 100],
+      ['GOOD', 0],
+    ]);
+  });
+});
+
+describe('computeSourceStats', () => {
+  it('should compute the mismatch rate per release source', () => {
+    const stats = computeSourceStats([
+      verification({ releaseSource: 'WEB-DL', isAcceptable: false }),
+      verification({ releaseSource: 'WEB-DL' }),
+      verification({ releaseSource: 'Remux' }),
+      verification(),
+    ]);
+
+    expect(stats.map((s) => [s.name, s.sampleSize, s.lieRate])).toEqual([
+      ['WEB-DL', 2, 50],
+      ['Remux', 1, 0],
+      ['Unknown', 1, 0],
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { MovieTagBuffer } from "../../src/services/tag-buffer.js";
+
+function createEditor() {
+  return { editMovieTags: vi.fn().mockResolvedValue(undefined) };
+}
+
+describe("MovieTagBuffer", () => {
+  it("should group movies with the same tag change into one request", async () => {
+    const editor = createEditor();
+    const buffer = new MovieTagBuffer(editor, 100);
+
+    await buffer.add(1, [10]);
+    await buffer.add(2, [10]);
+    await buffer.add(3, [20]);
+
+    expect(editor.editMovieTags).not.toHaveBeenCalled();
+    expect(buffer.size).toBe(3);
+
+    await buffer.flush();
+
+    expect(editor.editMovieTags).toHaveBeenCalledTimes(2);
+    expect(editor.editMovieTags).toHaveBeenCalledWith([1, 2], [10], "add");
+    expect(editor.editMovieTags).toHaveBeenCalledWith([3], [20], "add");
+    expect(buffer.size).toBe(0);
+  });
+
+  it("should remove replaced tags before adding the new ones", async () => {
+    const editor = createEditor();
+    const buffer = new MovieTagBuffer(editor, 100);
+
+    await buffer.replaceMovieTag({ id: 1 }, [20], 10);
+    await buffer.replaceMovieTag({ id: 2 }, [20], 10);
+    await buffer.flush();
+
+    expect(editor.editMovieTags.mock.calls).toEqual([
+      [[1, 2], [20], "remove"],
+      [[1, 2], [10], "add"],
+    ]);
+  });
+
+  it("should only send the latest replacement of a movie", async () => {
+    const editor = createEditor();
+    const buffer = new MovieTagBuffer(editor, 100);
+
+    await buffer.replaceMovieTag({ id: 1 }, [10], 20);
+    await buffer.replaceMovieTag({ id: 2 }, [10], 20);
+    await buffer.replaceMovieTag({ id: 1 }, [20], 10);
+    await buffer.flush();
+
+    expect(editor.editMovieTags.mock.calls).toEqual([
+      [[2], [10], "remove"],
+      [[1], [20], "remove"],
+      [[2], [20], "add"],
+      [[1], [10], "add"],
+    ]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it("should only add the tag when there is nothing to replace", async () => {
+    const editor = createEditor();
+    const buffer = new MovieTagBuffer(editor, 100);
+
+    await buffer.replaceMovieTag({ id: 1 }, [], 10);
+    await buffer.flush();
+
+    expect(editor.editMovieTags.mock.calls).toEqual([[[1], [10], "add"]]);
+  });
+
+  it("should flush once the batch size is reached", async () => {
+    const editor = createEditor();
+    const buffer = new MovieTagBuffer(editor, 2);
+
+    await buffer.add(1, [10]);
+    expect(editor.editMovieTags).not.toHaveBeenCalled();
+
+    await buffer.add(2, [10]);
+    expect(editor.editMovieTags).toHaveBeenCalledWith([1, 2], [10], "add");
+
+    await buffer.add(3, [10]);
+    await buffer.flush();
+    expect(editor.editMovieTags).toHaveBeenLastCalledWith([3], [10], "add");
+  });
+
+  it("should not send a request when nothing is pending", async () => {
+    const editor = createEditor();
+    const buffer = new MovieTagBuffer(editor, 100);
+
+    await buffer.flush();
+
+    expect(editor.editMovieTags).not.toHaveBeenCalled();
+  });
+});
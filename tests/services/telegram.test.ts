@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TelegramService } from '../../src/services/telegram.js';
+import type { ScoreMismatchInfo, BatchSummaryInfo } from '../../src/types/index.js';
+
+describe('TelegramService', () => {
+  let fetchSpy: ReturnType<typeof vi.spyOn>;
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  function okResponse(): Response {
+    return new Response(JSON.stringify({ ok: true, result: {} }), { status: 200 });
+  }
+
+  beforeEach(() => {
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(() => Promise.resolve(okResponse()));
+    consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+    consoleSpy.mockRestore();
+  });
+
+  function createService(threadId?: number): TelegramService {
+    return new TelegramService({ botToken: '123:secret', chatId: -10042, threadId });
+  }
+
+  function createMismatchInfo(overrides: Partial<ScoreMismatchInfo> = {}): ScoreMismatchInfo {
+    return {
+      title: 'Test <Movie>',
+      year: 2024,
+      expectedScore: 100,
+      actualScore: 50,
+      difference: -50,
+      maxOverScore: 100,
+      quality: 'Bluray-1080p',
+      indexer: 'NZBgeek',
+      radarrUrl: 'http://radarr:7878',
+      movieId: 42,
+      ...overrides,
+    };
+  }
+
+  function getRequest(call = 0): { url: string; body: Record<string, unknown> } {
+    const [url, init] = fetchSpy.mock.calls[call] as [string, RequestInit];
+    return { url, body: JSON.parse(init.body as string) as Record<string, unknown> };
+  }
+
+  describe('sendScoreMismatch', () => {
+    it('should send the poster with an HTML caption', async () => {
+      await createService().sendScoreMismatch(
+        createMismatchInfo({ posterUrl: 'https://image.tmdb.org/poster.jpg' })
+      );
+
+      const { url, body } = getRequest();
+      expect(url).toBe('https://api.telegram.org/bot123:secret/sendPhoto');
+      expect(body).toMatchObject({
+        chat_id: -10042,
+        photo: 'https://image.tmdb.org/poster.jpg',
+        parse_mode: 'HTML',
+      });
+      expect(body['caption']).toContain('<b>Quality Score Mismatch</b>');
+      expect(body['caption']).toContain(
+        '<a href="http://radarr:7878/movie/42">Test &lt;Movie&gt; (2024)</a>'
+      );
+      expect(body['caption']).toContain('Expected score: <b>100</b>');
+      expect(body['caption']).toContain('Actual score: <b>50</b> (-50)');
+      expect(body['caption']).toContain('Quality: Bluray-1080p');
+      expect(body['caption']).toContain('Indexer: NZBgeek');
+    });
+
+    it('should send a text message without a poster', async () => {
+      await createService().sendScoreMismatch(createMismatchInfo());
+
+      const { url, body } = getRequest();
+      expect(url).toBe('https://api.telegram.org/bot123:secret/sendMessage');
+      expect(body['text']).toContain('Expected score: <b>100</b>');
+      expect(body).not.toHaveProperty('photo');
+    });
+
+    it('should post to the configured thread', async () => {
+      await createService(7).sendScoreMismatch(createMismatchInfo());
+
+      expect(getRequest().body).toMatchObject({ chat_id: -10042, message_thread_id: 7 });
+    });
+
+    it('should fall back to a text message when the poster is rejected', async () => {
+      fetchSpy.mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({ ok: false, description: 'Bad Request: wrong file identifier/HTTP URL specified' }),
+          { status: 400 }
+        )
+      );
+
+      await createService().sendScoreMismatch(
+        createMismatchInfo({ posterUrl: 'http://radarr:7878/poster.jpg' })
+      );
+
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+      expect(getRequest(1).url).toBe('https://api.telegram.org/bot123:secret/sendMessage');
+    });
+
+    it('should throw with the Telegram error description', async () => {
+      fetchSpy.mockResolvedValue(
+        new Response(JSON.stringify({ ok: false, description: 'Forbidden: bot was blocked by the user' }), {
+          status: 403,
+        })
+      );
+
+      await expect(createService().sendScoreMismatch(createMismatchInfo())).rejects.toThrow(
+        'Telegram API error: 403 Forbidden: bot was blocked by the user'
+      );
+    });
+  });
+
+  describe('sendBatchSummary', () => {
+    function createBatchInfo(): BatchSummaryInfo {
+      return {
+        totalProcessed: 8,
+        completed: 6,
+        failed: 2,
+        mismatches: 1,
+        durationMs: 125000,
+        failedItems: [
+          { title: 'Movie A', error: 'Timeout' },
+          { title: 'Movie B', error: 'No <file>' },
+        ],
+        instance: '4k',
+      };
+    }
+
+    it('should send a formatted message', async () => {
+      await createService().sendBatchSummary(createBatchInfo());
+
+      const { url, body } = getRequest();
+      expect(url).toBe('https://api.telegram.org/bot123:secret/sendMessage');
+      expect(body['parse_mode']).toBe('HTML');
+      expect(body['text']).toContain('<b>Batch Processing Summary (4k)</b>');
+      expect(body['text']).toContain('Total processed: 8');
+      expect(body['text']).toContain('Duration: 2m 5s');
+      expect(body['text']).toContain('- Movie B: No &lt;file&gt;');
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { parseDateOption } from '../../src/utils/date.js';
+
+describe('parseDateOption', () => {
+  const now = new Date('2024-03-31T12:00:00Z');
+
+  it('should parse a number of days or weeks', () => {
+    expect(parseDateOption('30d', '--since', now)).toEqual(new Date('2024-03-01T12:00:00Z'));
+    expect(parseDateOption('2w', '--since', now)).toEqual(new Date('2024-03-17T12:00:00Z'));
+  });
+
+  it('should parse a date', () => {
+    expect(parseDateOption('2024-01-31', '--since')).toEqual(new Date('2024-01-31T00:00:00Z'));
+  });
+
+  it('should throw on an invalid value', () => {
+    expect(() => parseDateOption('yesterday', '--until')).toThrow(
+      'Invalid --until value "yesterday"'
+    );
+  });
+});
@@ -125,11 +125,52 @@ describe('parseSonarrEnv', () => {
     expect(result?.eventType).toBe('Download');
     expect(result?.seriesId).toBe(456);
     expect(result?.seriesTitle).toBe('Test Series');
-    expect(result?.episodeId).toBe(789);
+    expect(result?.episodeFileId).toBe(789);
     expect(result?.releaseQuality).toBe('HDTV-1080p');
     expect(result?.downloadId).toBe('def456');
   });
 
+  it('should parse episode IDs of the imported file', () => {
+    process.env['sonarr_eventtype'] = 'Download';
+    process.env['sonarr_series_id'] = '456';
+    process.env['sonarr_episodefile_episodeids'] = '11, 12,abc';
+
+    const result = parseSonarrEnv();
+
+    expect(result?.episodeIds).toEqual([11, 12]);
+  });
+
+  it('should parse all episode files of an import complete event', () => {
+    process.env['sonarr_eventtype'] = 'Download';
+    process.env['sonarr_series_id'] = '456';
+    process.env['sonarr_episodefile_ids'] = '789,790';
+
+    const result = parseSonarrEnv();
+
+    expect(result?.episodeFileIds).toEqual([789, 790]);
+  });
+
+  it('should fall back to the single episode file ID', () => {
+    process.env['sonarr_eventtype'] = 'Download';
+    process.env['sonarr_series_id'] = '456';
+    process.env['sonarr_episodefile_id'] = '789';
+
+    const result = parseSonarrEnv();
+
+    expect(result?.episodeFileIds).toEqual([789]);
+  });
+
+  it('should default to no episode IDs', () => {
+    process.env['sonarr_eventtype'] = 'Download';
+    process.env['sonarr_series_id'] = '456';
+
+    const result = parseSonarrEnv();
+
+    expect(result?.episodeFileId).toBeUndefined();
+    expect(result?.episodeFileIds).toEqual([]);
+    expect(result?.episodeIds).toEqual([]);
+  });
+
   it('should return null when eventtype is missing', () => {
     process.env['sonarr_series_id'] = '456';
 
@@ -278,6 +319,8 @@ describe('isImportEvent', () => {
       eventType: 'Download',
       seriesId: 456,
       seriesTitle: 'Test Series',
+      episodeFileIds: [],
+      episodeIds: [],
     };
 
     expect(isImportEvent(envVars)).toBe(true);
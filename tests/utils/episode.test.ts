@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { formatEpisodeLabel } from '../../src/utils/episode.js';
+
+describe('formatEpisodeLabel', () => {
+  it('should pad season and episode numbers', () => {
+    expect(formatEpisodeLabel(2, [5])).toBe('S02E05');
+  });
+
+  it('should join multi-episode files in order', () => {
+    expect(formatEpisodeLabel(1, [12, 11])).toBe('S01E11-E12');
+  });
+
+  it('should not truncate large numbers', () => {
+    expect(formatEpisodeLabel(2024, [101])).toBe('S2024E101');
+  });
+});
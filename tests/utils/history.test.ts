@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   findHistoryEvents,
   findNewHistoryEvent,
+  getGrabDetails,
+  groupHistoryByDownloadId,
   waitForHistoryEvent,
   HISTORY_EVENT_TYPES,
 } from '../../src/utils/history.js';
@@ -100,6 +102,64 @@ describe('findHistoryEvents', () => {
   });
 });
 
+describe('getGrabDetails', () => {
+  it('should extract the indexer and release group from history data', () => {
+    const grabbed = createMockHistory({
+      sourceTitle: 'Test.Movie.2024.1080p.WEB-DL.H.264-FLUX',
+      data: { indexer: 'NZBgeek', releaseGroup: 'GRP' },
+    });
+
+    expect(getGrabDetails(grabbed)).toEqual({
+      releaseTitle: 'Test.Movie.2024.1080p.WEB-DL.H.264-FLUX',
+      indexer: 'NZBgeek',
+      releaseGroup: 'GRP',
+      releaseSource: 'WEB-DL',
+    });
+  });
+
+  it('should parse the release group from the title when data has none', () => {
+    const grabbed = createMockHistory({
+      sourceTitle: 'Test.Movie.2024.1080p.BluRay.x264-SPARKS',
+      data: {},
+    });
+
+    expect(getGrabDetails(grabbed)).toEqual(
+      expect.objectContaining({ releaseGroup: 'SPARKS', releaseSource: 'Bluray' })
+    );
+  });
+});
+
+describe('groupHistoryByDownloadId', () => {
+  it('should group grabbed and imported events of a season pack', () => {
+    const history = [
+      { id: 4, eventType: 'downloadFolderImported', downloadId: 'PACK' },
+      { id: 3, eventType: 'downloadFolderImported', downloadId: 'PACK' },
+      { id: 2, eventType: 'grabbed', downloadId: 'PACK' },
+      { id: 1, eventType: 'grabbed', downloadId: 'PACK' },
+    ];
+
+    const groups = groupHistoryByDownloadId(history);
+    const pack = groups.get('PACK');
+
+    expect(groups.size).toBe(1);
+    expect(pack?.grabbed?.id).toBe(2);
+    expect(pack?.imported.map((h) => h.id)).toEqual([4, 3]);
+  });
+
+  it('should keep separate downloads apart and ignore events without download ID', () => {
+    const history = [
+      { id: 3, eventType: 'grabbed', downloadId: 'B' },
+      { id: 2, eventType: 'grabbed', downloadId: 'A' },
+      { id: 1, eventType: 'downloadFolderImported' },
+    ];
+
+    const groups = groupHistoryByDownloadId(history);
+
+    expect([...groups.keys()]).toEqual(['B', 'A']);
+    expect(groups.get('A')?.imported).toEqual([]);
+  });
+});
+
 describe('findNewHistoryEvent', () => {
   it('should find new event not in initialEventIds', () => {
     const history: RadarrHistory[] = [
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  listInstances,
+  selectInstance,
+  matchInstance,
+  formatInstanceLabel,
+} from '../../src/utils/instance.js';
+
+const single = { url: 'http://radarr:7878' };
+const instances = [
+  { name: 'hd', url: 'http://radarr:7878' },
+  { name: '4k', url: 'http://radarr4k:7878/radarr' },
+];
+
+describe('listInstances', () => {
+  it('should wrap a single instance', () => {
+    expect(listInstances(single)).toEqual([single]);
+  });
+
+  it('should return an empty list when not configured', () => {
+    expect(listInstances(undefined)).toEqual([]);
+  });
+});
+
+describe('selectInstance', () => {
+  it('should return the single instance without a name', () => {
+    expect(selectInstance(single, 'Radarr')).toBe(single);
+  });
+
+  it('should select an instance by name, case-insensitively', () => {
+    expect(selectInstance(instances, 'Radarr', '4K')).toBe(instances[1]);
+  });
+
+  it('should throw on an unknown name', () => {
+    expect(() => selectInstance(instances, 'Radarr', 'uhd')).toThrow(
+      'Radarr instance "uhd" is not configured (available: hd, 4k)'
+    );
+  });
+
+  it('should require a name when several instances are configured', () => {
+    expect(() => selectInstance(instances, 'Radarr')).toThrow(
+      'Multiple Radarr instances configured'
+    );
+  });
+
+  it('should throw when not configured', () => {
+    expect(() => selectInstance(undefined, 'Sonarr')).toThrow(
+      'Sonarr is not configured'
+    );
+  });
+});
+
+describe('matchInstance', () => {
+  it('should match by instance name first', () => {
+    expect(
+      matchInstance(instances, 'Radarr', { name: 'hd', url: 'http://radarr4k:7878/radarr' })
+    ).toBe(instances[0]);
+  });
+
+  it('should match by application URL, ignoring scheme and trailing slash', () => {
+    expect(
+      matchInstance(instances, 'Radarr', { name: 'Radarr', url: 'https://radarr4k:7878/radarr/' })
+    ).toBe(instances[1]);
+  });
+
+  it('should fall back to the only configured instance', () => {
+    expect(matchInstance(single, 'Radarr', { name: 'Radarr' })).toBe(single);
+  });
+
+  it('should throw when several instances are configured and none matches', () => {
+    expect(() =>
+      matchInstance(instances, 'Radarr', { name: 'Radarr', url: 'http://other:7878' })
+    ).toThrow('No Radarr instance matches instance "Radarr"');
+  });
+});
+
+describe('formatInstanceLabel', () => {
+  it('should include the instance name when set', () => {
+    expect(formatInstanceLabel('Radarr', instances[1]!)).toBe('Radarr (4k)');
+    expect(formatInstanceLabel('Radarr', single)).toBe('Radarr');
+  });
+});
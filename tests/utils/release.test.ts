@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { parseReleaseGroup, parseReleaseSource } from '../../src/utils/release.js';
+
+describe('parseReleaseSource', () => {
+  it.each([
+    ['Movie.2024.2160p.BluRay.REMUX.HEVC.DTS-HD.MA-GRP', 'Remux'],
+    ['Movie.2024.1080p.BluRay.x264-GRP', 'Bluray'],
+    ['Movie 2024 1080p BDRip x264-GRP', 'Bluray'],
+    ['Movie.2024.1080p.WEB-DL.DDP5.1.H.264-GRP', 'WEB-DL'],
+    ['Show.S01E01.1080p.WEB.h264-GRP', 'WEB-DL'],
+    ['Movie.2024.1080p.WEBRip.x264-GRP', 'WEBRip'],
+    ['Show.S01E01.720p.HDTV.x264-GRP', 'HDTV'],
+    ['Movie.2004.DVDRip.XviD-GRP', 'DVD'],
+  ])('should parse %s as %s', (title, source) => {
+    expect(parseReleaseSource(title)).toBe(source);
+  });
+
+  it('should fall back to the quality of the release', () => {
+    expect(parseReleaseSource('Movie 2024', { name: 'WEBDL-1080p', source: 'webdl' })).toBe(
+      'WEB-DL'
+    );
+    expect(parseReleaseSource('Movie 2024', { name: 'Remux-2160p', source: 'bluray' })).toBe(
+      'Remux'
+    );
+    expect(parseReleaseSource('Show S01', { name: 'HDTV-720p', source: 'television' })).toBe(
+      'HDTV'
+    );
+  });
+
+  it('should return undefined when the source is unknown', () => {
+    expect(parseReleaseSource('Movie 2024')).toBeUndefined();
+    expect(parseReleaseSource('Movie 2024', { name: 'Unknown', source: 'unknown' })).toBeUndefined();
+  });
+});
+
+describe('parseReleaseGroup', () => {
+  it('should parse the group at the end of the title', () => {
+    expect(parseReleaseGroup('Movie.2024.1080p.WEB-DL.H.264-FLUX')).toBe('FLUX');
+  });
+
+  it('should ignore trailing tracker tags', () => {
+    expect(parseReleaseGroup('Movie.2024.1080p.BluRay.x264-SPARKS [rartv]')).toBe('SPARKS');
+  });
+
+  it('should return undefined when the title has no group', () => {
+    expect(parseReleaseGroup('Movie.2024.1080p.WEB-DL')).toBeUndefined();
+    expect(parseReleaseGroup('Movie 2024 1080p BluRay')).toBeUndefined();
+  });
+});